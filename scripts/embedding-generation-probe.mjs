@@ -153,7 +153,10 @@ function run() {
   const logger = new Logger('error');
   let store = new MemoryStore(config, logger);
   const migration = store.migrationStatus();
-  assert(migration.fromVersion === 6 && migration.toVersion === 8, 'v6 should migrate through v8');
+  assert(
+    migration.fromVersion === 6 && migration.toVersion === 17,
+    'v6 should migrate through v17',
+  );
   assert(
     migration.backupPath && existsSync(migration.backupPath),
     'migration should create a backup',
@@ -161,6 +161,20 @@ async function batchingAndFairness() {
     snapshot.lanes.query.completed === 3 && snapshot.lanes.rerank.completed === 1,
     'per-lane completion metrics should be accurate',
   );
+  const pairCalls = transport.calls.length;
+  const pairScores = await scheduler.rerankPairs([
+    { query: 'first query', document: 'd2' },
+    { query: 'second', document: 'd7' },
+  ]);
+  assert(
+    pairScores.join(',') === '2,7' &&
+      transport.calls.length === pairCalls + 1 &&
+      transport.calls
+        .at(-1)
+        .payload.pairs.map((pair) => pair.query)
+        .includes('second'),
+    'pairwise reranking should score different queries in one worker call',
+  );
   await scheduler.stop();
 }
 
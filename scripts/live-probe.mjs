@@ -189,8 +189,12 @@ async function run() {
   for (const required of [
     'memory_create',
     'memory_revise',
+    'memory_revert',
+    'memory_patch',
+    'memory_batch',
     'memory_get',
     'memory_history',
+    'memory_diff',
     'memory_search',
     'memory_link',
     'memory_traverse',
@@ -202,6 +206,32 @@ async function run() {
     'memory_delete',
     'space_delete',
     'space_restore',
+    'space_export',
+    'space_import',
+    'memory_changes',
+    'memory_review_queue',
+    'memory_review',
+    'memory_tags',
+    'tag_rename',
+    'tag_merge',
+    'kind_define',
+    'kind_list',
+    'kind_get',
+    'space_update',
+    'memory_move',
+    'memory_copy',
+    'space_clone',
+    'memory_unmerge',
+    'memory_find_duplicates',
+    'memory_check_consistency',
+    'relation_define',
+    'relation_list',
+    'memory_link_update',
+    'memory_link_history',
+    'memory_path',
+    'memory_graph_stats',
+    'memory_suggest_links',
+    'memory_accept_link_suggestions',
   ]) {
     assert(names.has(required), `missing MCP tool ${required}`);
   }
@@ -219,10 +249,11 @@ async function run() {
     'restore description should explain reactivation without revision changes',
   );
   assert(
-    deleteTool?.description?.includes('Irreversibly erase') &&
+    deleteTool?.description?.includes('trash') &&
+      deleteTool.description.includes('irreversibly erases') &&
       deleteTool.description.includes('links') &&
       deleteTool.description.includes('merge redirects'),
-    'delete description should disclose complete irreversible erasure',
+    'delete description should disclose the trash and complete irreversible erasure',
   );
   assert(deleteTool?.annotations?.destructiveHint === true, 'delete must be marked destructive');
 
@@ -237,6 +268,40 @@ async function run() {
   const listedSpace = spaces.items.find((item) => item.id === space.id);
   assert(listedSpace?.name === 'Live probe', 'space list should retain identifying details');
   assert(listedSpace?.createdAt === undefined, 'space list should omit creation timestamps');
+  const renamedSpace = await call(client, 'space_update', {
+    spaceId: space.id,
+    expectedRevisionNumber: listedSpace.revisionNumber,
+    name: 'Live verification probe',
+    metadata: { owner: 'probe' },
+  });
+  assert(
+    renamedSpace.revisionNumber === 2 &&
+      renamedSpace.description === 'Isolated end-to-end verification' &&
+      renamedSpace.metadata?.owner === 'probe',
+    'space update should keep omitted fields and advance the revision',
+  );
+  await expectToolError(client, 'space_update', {
+    spaceId: space.id,
+    expectedRevisionNumber: listedSpace.revisionNumber,
+    description: 'Stale description',
+  });
+  const clearedSpace = await call(client, 'space_update', {
+    spaceId: space.id,
+    expectedRevisionNumber: renamedSpace.revisionNumber,
+    description: null,
+  });
+  const spaceResource = await client.readResource({ uri: 'memory://spaces/live-probe' });
+  const spaceDocument = JSON.parse(spaceResource.contents[0].text);
+  const renamedSpaces = await call(client, 'space_list', { query: 'verification probe' });
+  assert(
+    clearedSpace.description === undefined &&
+      spaceDocument.space.revisionNumber === 3 &&
+      spaceDocument.history.map((revision) => revision.name).join(',') ===
+        'Live probe,Live verification probe,Live verification probe' &&
+      spaceDocument.history[0].description === 'Isolated end-to-end verification' &&
+      renamedSpaces.items.some((item) => item.id === space.id),
+    'space resource should expose the current record and its revision history',
+  );
 
   const lease = await call(client, 'memory_create', {
     spaceId: 'live-probe',
@@ -638,6 +703,122 @@ async function run() {
     relation: 'must_not_cross_spaces',
   });
 
+  const isolatedExport = await call(client, 'space_export', {
+    spaceIds: ['live-probe-isolated'],
+  });
+  assert(
+    isolatedExport.memories.length === 1 &&
+      isolatedExport.memories[0]?.id === isolated.id &&
+      isolatedExport.crossingLinks.length === 0,
+    'space export should contain only the selected space',
+  );
+  const isolatedImport = await call(client, 'space_import', {
+    snapshot: isolatedExport,
+    spaceIds: ['live-probe-isolated'],
+  });
+  assert(
+    isolatedImport.memories.skipped === 1 && isolatedImport.revisions === 0,
+    'space import should skip memories that already exist',
+  );
+  await expectToolError(client, 'space_import', {
+    snapshot: isolatedExport,
+    spaceIds: ['live-probe'],
+  });
+  const isolatedClone = await call(client, 'space_clone', {
+    sourceSpaceId: 'live-probe-isolated',
+    targetSpaceId: 'live-probe-isolated-draft',
+  });
+  const clonedIsolated = await call(client, 'memory_get', {
+    memoryId: isolatedClone.memoryIdMap[isolated.id],
+  });
+  const sourceIsolated = await call(client, 'memory_get', { memoryId: isolated.id });
+  assert(
+    isolatedClone.memories === 1 &&
+      isolatedClone.reusedIndexRevisions === 1 &&
+      isolatedClone.indexed === 0 &&
+      clonedIsolated.spaceId === 'live-probe-isolated-draft' &&
+      clonedIsolated.indexStatus === sourceIsolated.indexStatus,
+    'space clone should copy memories into the new space without re-embedding them',
+  );
+  await expectToolError(client, 'space_clone', {
+    sourceSpaceId: 'live-probe-isolated',
+    targetSpaceId: 'live-probe-isolated-draft',
+  });
+
+  const scratchNote = await call(client, 'memory_create', {
+    spaceId: 'live-probe-isolated',
+    logicalKey: 'live-probe/promoted-runbook',
+    title: 'Promoted incident runbook',
+    content: 'Page the platform on-call engineer before restarting the Vilnius ingest cluster.',
+  });
+  const scratchContext = await call(client, 'memory_create', {
+    spaceId: 'live-probe-isolated',
+    content: 'Scratch context for the promoted runbook.',
+  });
+  const scratchLink = await call(client, 'memory_link', {
+    fromMemoryId: scratchNote.id,
+    toMemoryId: scratchContext.id,
+    relation: 'derived_from',
+  });
+  await expectToolError(client, 'memory_move', {
+    memoryId: scratchNote.id,
+    targetSpaceId: 'live-probe',
+  });
+  const copiedNote = await call(client, 'memory_copy', {
+    memoryId: scratchNote.id,
+    targetSpaceId: 'live-probe',
+  });
+  const copiedMemory = await call(client, 'memory_get', { memoryId: copiedNote.id });
+  const copySource = copiedMemory.revision.sources.find((source) => source.type === 'memory-copy');
+  assert(
+    copiedNote.id !== scratchNote.id &&
+      copiedNote.spaceId === 'live-probe' &&
+      copiedNote.logicalKey === 'live-probe/promoted-runbook' &&
+      copiedNote.sourceRevisionId === scratchNote.revisionId &&
+      copySource?.metadata?.memoryId === scratchNote.id,
+    'memory copy should create a new identity with provenance back to the source',
+  );
+  const keyConflict = await rawCall(client, 'memory_move', {
+    memoryId: scratchNote.id,
+    targetSpaceId: 'live-probe',
+    unlinkExternalLinks: true,
+  });
+  assert(
+    keyConflict.isError && keyConflict.structuredContent?.error === 'logical-key-conflict',
+    'memory move should refuse a logical key already used in the target space',
+  );
+  const moved = await call(client, 'memory_move', {
+    memoryId: scratchNote.id,
+    targetSpaceId: 'live-probe',
+    onKeyConflict: 'drop-key',
+    unlinkExternalLinks: true,
+  });
+  const movedMemory = await call(client, 'memory_get', { memoryId: scratchNote.id });
+  const movedSearch = await call(client, 'memory_search', {
+    query: 'Vilnius ingest cluster',
+    spaceIds: ['live-probe-isolated'],
+    mode: 'lexical',
+  });
+  const promotedSearch = await call(client, 'memory_search', {
+    query: 'Vilnius ingest cluster',
+    spaceIds: ['live-probe'],
+    mode: 'lexical',
+  });
+  assert(
+    moved.fromSpaceId === 'live-probe-isolated' &&
+      moved.spaceId === 'live-probe' &&
+      JSON.stringify(moved.clearedLogicalKeyMemoryIds) === JSON.stringify([scratchNote.id]) &&
+      JSON.stringify(moved.unlinkedLinkIds) === JSON.stringify([scratchLink.id]) &&
+      movedMemory.revision.id === scratchNote.revisionId &&
+      movedMemory.logicalKey === undefined &&
+      movedSearch.results.length === 0 &&
+      promotedSearch.results.some((result) => result.id === scratchNote.id),
+    'memory move should keep the identity and revisions while rehoming search indexes',
+  );
+  await call(client, 'memory_delete', { memoryId: scratchNote.id });
+  await call(client, 'memory_delete', { memoryId: copiedNote.id });
+  await call(client, 'memory_delete', { memoryId: scratchContext.id });
+
   const link = await call(client, 'memory_link', {
     fromMemoryId: lease.id,
     toMemoryId: preference.id,
@@ -674,6 +855,46 @@ async function run() {
     explainedTraversal.items.some((entry) => typeof entry.relevanceScore === 'number'),
     'explained traversal should expose ranking diagnostics',
   );
+  const bookingLink = await call(client, 'memory_link', {
+    fromMemoryId: lease.id,
+    toMemoryId: preference.id,
+    relation: 'booked_through',
+  });
+  const beforeBookingEnded = new Date().toISOString();
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  const endedBooking = await call(client, 'memory_link_update', {
+    linkId: bookingLink.id,
+    expectedRevisionNumber: bookingLink.revisionNumber,
+    validTo: beforeBookingEnded,
+    actorId: 'live-probe',
+  });
+  await expectToolError(client, 'memory_link_update', {
+    linkId: bookingLink.id,
+    expectedRevisionNumber: bookingLink.revisionNumber,
+    metadata: { stale: true },
+  });
+  const bookingTraversal = (atTime) =>
+    call(client, 'memory_traverse', {
+      memoryId: lease.id,
+      maxDepth: 1,
+      relations: ['booked_through'],
+      ...(atTime ? { atTime } : {}),
+    });
+  const [currentBookings, earlierBookings] = await Promise.all([
+    bookingTraversal(),
+    bookingTraversal(beforeBookingEnded),
+  ]);
+  const bookingHistory = await call(client, 'memory_link_history', { linkId: bookingLink.id });
+  assert(
+    endedBooking.id === bookingLink.id &&
+      endedBooking.revisionNumber === 2 &&
+      currentBookings.items.every((entry) => entry.memory.id !== preference.id) &&
+      earlierBookings.items.some((entry) => entry.memory.id === preference.id) &&
+      bookingHistory.items.length === 2 &&
+      bookingHistory.items[1]?.actor === 'live-probe',
+    'a link update should close the validity window in place and keep earlier views intact',
+  );
+  await call(client, 'memory_unlink', { linkId: bookingLink.id });
   const verifiedFeedback = await call(client, 'memory_feedback', {
     memoryId: lease.id,
     scope: 'content',
@@ -694,6 +915,407 @@ async function run() {
   });
   assert(feedbackRead.items[0]?.signal === 'verified', 'feedback should be readable');
 
+  const changes = await call(client, 'memory_changes', { spaceIds: ['live-probe'], limit: 500 });
+  const changeTypes = new Set(changes.items.map((change) => change.type));
+  assert(
+    ['space-created', 'revision', 'state', 'link', 'feedback'].every((type) =>
+      changeTypes.has(type),
+    ) && changes.items.every((change) => change.spaceId === 'live-probe'),
+    'change feed should record space, revision, state, link, and feedback changes',
+  );
+  assert(
+    changes.items.some((change) => change.type === 'link' && change.recordId === link.id) &&
+      changes.items.every(
+        (change, index) => index === 0 || change.sequence > changes.items[index - 1].sequence,
+      ),
+    'change feed should be ordered and identify changed records',
+  );
+  assert(!changes.hasMore, 'change feed page should include every probe change');
+
+  const reviewFixture = await call(client, 'memory_create', {
+    spaceId: 'live-probe',
+    title: 'Loading dock inspection',
+    content: 'The loading dock passed its annual safety inspection.',
+    sources: [{ uri: 'urn:probe:inspection-2019', observedAt: '2019-05-01T00:00:00.000Z' }],
+    salience: 0.9,
+    reviewAfter: '2001-01-01T00:00:00.000Z',
+  });
+  const reviewQueue = await call(client, 'memory_review_queue', {
+    spaceIds: ['live-probe'],
+    sourceAgeDays: 365,
+  });
+  const queuedFixture = reviewQueue.items.find((item) => item.id === reviewFixture.id);
+  assert(
+    queuedFixture?.reviewReasons.join(',') === 'review-due,stale-sources' &&
+      queuedFixture.sourcesObservedAt === '2019-05-01T00:00:00.000Z',
+    'review queue should explain due reviews and aging sources',
+  );
+  assert(
+    !reviewQueue.items.some((item) => item.id === lease.id),
+    'review queue should omit verified memories that are not due',
+  );
+  const snoozedReview = await call(client, 'memory_review', {
+    memoryId: reviewFixture.id,
+    expectedRevisionId: reviewFixture.revisionId,
+    action: 'snooze',
+    reviewAfter: '2999-06-01T00:00:00.000Z',
+  });
+  assert(
+    snoozedReview.revised && snoozedReview.reviewAfter === '2999-06-01T00:00:00.000Z',
+    'snoozing should move reviewAfter in a new revision',
+  );
+  const snoozedQueue = await call(client, 'memory_review_queue', { spaceIds: ['live-probe'] });
+  assert(
+    !snoozedQueue.items.some((item) => item.id === reviewFixture.id),
+    'snoozed memories should leave the review queue',
+  );
+  await call(client, 'memory_feedback', {
+    memoryId: reviewFixture.id,
+    scope: 'content',
+    signal: 'stale',
+    actorType: 'agent',
+  });
+  const staleQueue = await call(client, 'memory_review_queue', { spaceIds: ['live-probe'] });
+  assert(
+    staleQueue.items[0]?.id === reviewFixture.id &&
+      staleQueue.items[0].reviewReasons.join(',') === 'needs-review',
+    'content marked stale should lead the review queue',
+  );
+  const markedReviewed = await call(client, 'memory_review', {
+    memoryId: reviewFixture.id,
+    expectedRevisionId: snoozedReview.revisionId,
+    action: 'reviewed',
+  });
+  assert(
+    !markedReviewed.revised && typeof markedReviewed.feedbackId === 'string',
+    'marking reviewed should record feedback without a revision when reviewAfter is not due',
+  );
+  const reviewedQueue = await call(client, 'memory_review_queue', { spaceIds: ['live-probe'] });
+  assert(
+    !reviewedQueue.items.some((item) => item.id === reviewFixture.id),
+    'reviewed memories should leave the review queue',
+  );
+  const reverted = await call(client, 'memory_revert', {
+    memoryId: reviewFixture.id,
+    revisionId: reviewFixture.revisionId,
+    expectedRevisionId: snoozedReview.revisionId,
+  });
+  const revertedHistory = await call(client, 'memory_history', {
+    memoryId: reviewFixture.id,
+    limit: 1,
+  });
+  assert(
+    reverted.revisionId !== reviewFixture.revisionId &&
+      revertedHistory.revisions[0]?.id === reverted.revisionId &&
+      revertedHistory.revisions[0].revertedToRevisionId === reviewFixture.revisionId &&
+      revertedHistory.revisions[0].reviewAfter === '2001-01-01T00:00:00.000Z',
+    'revert should append a copy of the earlier revision that records its origin',
+  );
+  await expectToolError(client, 'memory_revert', {
+    memoryId: reviewFixture.id,
+    revisionId: reviewFixture.revisionId,
+    expectedRevisionId: snoozedReview.revisionId,
+  });
+  const inspectorPatch = await call(client, 'memory_patch', {
+    memoryId: reviewFixture.id,
+    expectedRevisionId: reverted.revisionId,
+    metadata: { format: 'merge-patch', patch: { inspector: 'Dock team' } },
+  });
+  await expectToolError(client, 'memory_patch', {
+    memoryId: reviewFixture.id,
+    expectedRevisionId: reverted.revisionId,
+    content: { format: 'json-patch', operations: [{ op: 'replace', path: '', value: 'Failed.' }] },
+  });
+  await expectToolError(client, 'memory_patch', {
+    memoryId: reviewFixture.id,
+    expectedRevisionId: reverted.revisionId,
+    metadata: {
+      format: 'json-patch',
+      operations: [{ op: 'add', path: '/inspector', value: 'Night shift' }],
+    },
+    rebase: true,
+  });
+  const sourcePatch = await call(client, 'memory_patch', {
+    memoryId: reviewFixture.id,
+    expectedRevisionId: reverted.revisionId,
+    addTags: ['Inspection'],
+    removeSourceUris: ['urn:probe:inspection-2019'],
+    rebase: true,
+  });
+  const patchedFixture = await call(client, 'memory_get', { memoryId: reviewFixture.id });
+  assert(
+    sourcePatch.rebasedOnRevisionId === inspectorPatch.revisionId &&
+      patchedFixture.revision.metadata?.inspector === 'Dock team' &&
+      patchedFixture.revision.tags?.join(',') === 'inspection' &&
+      patchedFixture.revision.sources === undefined &&
+      patchedFixture.revision.content === 'The loading dock passed its annual safety inspection.',
+    'stale patches should rebase only when they do not overlap newer changes',
+  );
+  await call(client, 'memory_delete', { memoryId: reviewFixture.id });
+
+  await expectToolError(client, 'memory_batch', {
+    operations: [
+      {
+        op: 'create',
+        spaceId: 'live-probe',
+        logicalKey: 'live-probe/rolled-back',
+        content: 'This batch must not be stored.',
+      },
+      {
+        op: 'revise',
+        memoryId: lease.id,
+        expectedRevisionId: lease.revisionId,
+        content: 'Stale revision inside a batch.',
+      },
+    ],
+  });
+  await expectToolError(client, 'memory_get_by_key', {
+    spaceId: 'live-probe',
+    logicalKey: 'live-probe/rolled-back',
+  });
+  const batchRequest = {
+    operations: [
+      {
+        op: 'create',
+        spaceId: 'live-probe',
+        logicalKey: 'live-probe/batch-meeting',
+        title: 'Quarterly planning meeting',
+        content: 'The team agreed to move warehouse audits to the second week of each quarter.',
+      },
+      {
+        op: 'create',
+        spaceId: 'live-probe',
+        title: 'Audit scheduling action item',
+        content: 'Operations will publish the revised audit calendar.',
+      },
+      { op: 'link', fromMemoryId: { $ref: 1 }, toMemoryId: { $ref: 0 }, relation: 'decided-in' },
+      {
+        op: 'revise',
+        memoryId: { $ref: 1 },
+        title: 'Audit scheduling action item',
+        content: 'Operations published the revised audit calendar.',
+      },
+      { op: 'unlink', linkId: { $ref: 2 } },
+      { op: 'archive', memoryId: { $ref: 3 } },
+    ],
+    idempotencyKey: 'live-probe-batch',
+  };
+  const batch = await call(client, 'memory_batch', batchRequest);
+  const [meeting, actionItem, batchLink, actionRevision] = batch.items;
+  assert(
+    batch.items.map((item) => item.op).join(',') === 'create,create,link,revise,unlink,archive' &&
+      actionRevision.memoryId === actionItem.memoryId &&
+      actionRevision.revisionId !== actionItem.revisionId &&
+      batch.items[4].linkId === batchLink.linkId &&
+      batch.replayed === undefined,
+    'batch should resolve references to earlier operations',
+  );
+  const replayedBatch = await call(client, 'memory_batch', batchRequest);
+  assert(
+    replayedBatch.replayed === true &&
+      JSON.stringify(replayedBatch.items) === JSON.stringify(batch.items),
+    'batch idempotency keys should replay the original result',
+  );
+  await expectToolError(client, 'memory_batch', {
+    ...batchRequest,
+    operations: batchRequest.operations.slice(0, 1),
+  });
+  const batchMeeting = await call(client, 'memory_get_by_key', {
+    spaceId: 'live-probe',
+    logicalKey: 'live-probe/batch-meeting',
+  });
+  const archivedActionItem = await call(client, 'memory_get', { memoryId: actionItem.memoryId });
+  assert(
+    batchMeeting.memory.id === meeting.memoryId &&
+      archivedActionItem.state === 'archived' &&
+      archivedActionItem.revision.content === 'Operations published the revised audit calendar.',
+    'batch operations should all be committed',
+  );
+  await call(client, 'memory_delete', { memoryId: meeting.memoryId });
+  await call(client, 'memory_delete', { memoryId: actionItem.memoryId });
+
+  const tagFixtures = [];
+  for (const tags of [['Customer'], ['customers', 'billing'], ['client']]) {
+    tagFixtures.push(
+      await call(client, 'memory_create', {
+        spaceId: 'live-probe',
+        content: `Tag catalogue fixture tagged ${tags.join(' and ')}.`,
+        tags: [...tags, 'tag-probe'],
+      }),
+    );
+  }
+  const customerTags = await call(client, 'memory_tags', {
+    spaceIds: ['live-probe'],
+    prefix: 'Custom',
+  });
+  assert(
+    JSON.stringify(customerTags.items.map((item) => [item.tag, item.memoryCount])) ===
+      JSON.stringify([
+        ['customer', 1],
+        ['customers', 1],
+      ]),
+    'tag catalogue should filter normalized tags by prefix',
+  );
+  const firstTagPage = await call(client, 'memory_tags', { spaceIds: ['live-probe'], limit: 1 });
+  const secondTagPage = await call(client, 'memory_tags', {
+    spaceIds: ['live-probe'],
+    limit: 1,
+    cursor: firstTagPage.nextCursor,
+  });
+  assert(
+    firstTagPage.items.length === 1 &&
+      secondTagPage.items.length === 1 &&
+      secondTagPage.items[0].tag > firstTagPage.items[0].tag,
+    'tag catalogue cursors should continue after the previous page',
+  );
+  await expectToolError(client, 'tag_rename', {
+    spaceId: 'live-probe',
+    tag: 'customers',
+    newTag: 'customer',
+  });
+  const mergedTags = await call(client, 'tag_merge', {
+    spaceId: 'live-probe',
+    tags: ['customers', 'client'],
+    into: 'customer',
+  });
+  assert(mergedTags.memoriesUpdated === 2, 'tag merge should revise each tagged memory');
+  const renamedTag = await call(client, 'tag_rename', {
+    spaceId: 'live-probe',
+    tag: 'customer',
+    newTag: 'account',
+  });
+  const rewrittenTags = await call(client, 'memory_tags', {
+    spaceIds: ['live-probe'],
+    prefix: 'tag-probe',
+  });
+  const rewrittenFixture = await call(client, 'memory_get', { memoryId: tagFixtures[1].id });
+  assert(
+    renamedTag.memoriesUpdated === 3 &&
+      rewrittenTags.items[0]?.memoryCount === 3 &&
+      JSON.stringify(rewrittenFixture.revision.tags) ===
+        JSON.stringify(['account', 'billing', 'tag-probe']),
+    'tag rewrites should create revisions with the rewritten tags',
+  );
+  for (const fixture of tagFixtures) {
+    await call(client, 'memory_delete', { memoryId: fixture.id });
+  }
+
+  const decisionSchema = {
+    type: 'object',
+    properties: {
+      decision: { type: 'string', minLength: 3 },
+      alternatives: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['decision'],
+    additionalProperties: false,
+  };
+  const legacyDecision = await call(client, 'memory_create', {
+    spaceId: 'live-probe',
+    kind: 'decision',
+    content: { alternatives: [] },
+  });
+  await expectToolError(client, 'kind_define', {
+    spaceId: 'live-probe',
+    kind: 'decision',
+    schema: { type: 'unknown-type' },
+  });
+  const decisionKind = await call(client, 'kind_define', {
+    spaceId: 'live-probe',
+    kind: 'decision',
+    schema: decisionSchema,
+  });
+  const decision = await call(client, 'memory_create', {
+    spaceId: 'live-probe',
+    kind: 'decision',
+    content: { decision: 'Adopt quarterly audits', alternatives: ['Monthly audits'] },
+  });
+  const rejectedDecision = await rawCall(client, 'memory_create', {
+    spaceId: 'live-probe',
+    kind: 'decision',
+    content: { decision: 'no', alternatives: [3], owner: 'ops' },
+  });
+  assert(
+    rejectedDecision.isError &&
+      rejectedDecision.structuredContent?.error === 'content-schema-violation' &&
+      JSON.stringify(
+        rejectedDecision.structuredContent.issues.map((issue) => issue.path).sort(),
+      ) === JSON.stringify(['', '/alternatives/0', '/decision']),
+    'content violating the kind schema should be rejected with structured issues',
+  );
+  const rejectedRevision = await rawCall(client, 'memory_revise', {
+    memoryId: decision.id,
+    expectedRevisionId: decision.revisionId,
+    kind: 'decision',
+    content: { alternatives: [] },
+  });
+  assert(
+    rejectedRevision.isError &&
+      rejectedRevision.structuredContent?.error === 'content-schema-violation',
+    'revisions should be validated against the kind schema',
+  );
+  const rejectedPatch = await rawCall(client, 'memory_patch', {
+    memoryId: decision.id,
+    expectedRevisionId: decision.revisionId,
+    content: { format: 'merge-patch', patch: { decision: null } },
+  });
+  assert(
+    rejectedPatch.isError && rejectedPatch.structuredContent?.error === 'content-schema-violation',
+    'patched content should be validated against the kind schema',
+  );
+  const rejectedChainedBatch = await rawCall(client, 'memory_batch', {
+    operations: [
+      {
+        op: 'revise',
+        memoryId: decision.id,
+        expectedRevisionId: decision.revisionId,
+        kind: 'decision',
+        content: { decision: 'Adopt quarterly audits' },
+      },
+      { op: 'revise', memoryId: { $ref: 0 }, kind: 'decision', content: { alternatives: [] } },
+    ],
+  });
+  assert(
+    rejectedChainedBatch.isError &&
+      rejectedChainedBatch.structuredContent?.error === 'content-schema-violation' &&
+      (await call(client, 'memory_get', { memoryId: decision.id })).revision.id ===
+        decision.revisionId,
+    'batch revisions chained through $ref should be validated against the kind schema',
+  );
+  const fixedDecision = await call(client, 'memory_revise', {
+    memoryId: legacyDecision.id,
+    expectedRevisionId: legacyDecision.revisionId,
+    kind: 'decision',
+    content: { decision: 'Keep annual audits' },
+  });
+  const rejectedRevert = await rawCall(client, 'memory_revert', {
+    memoryId: legacyDecision.id,
+    revisionId: legacyDecision.revisionId,
+    expectedRevisionId: fixedDecision.revisionId,
+  });
+  assert(
+    rejectedRevert.isError &&
+      rejectedRevert.structuredContent?.error === 'content-schema-violation' &&
+      (await call(client, 'memory_get', { memoryId: legacyDecision.id })).revision.id ===
+        fixedDecision.revisionId,
+    'reverting to a revision that violates the kind schema should be rejected',
+  );
+  await call(client, 'memory_delete', { memoryId: legacyDecision.id });
+  const kindResource = await client.readResource({
+    uri: 'memory://spaces/live-probe/kinds/decision',
+  });
+  const decisionKinds = await call(client, 'kind_list', { spaceId: 'live-probe' });
+  assert(
+    JSON.stringify(JSON.parse(kindResource.contents[0].text)) ===
+      JSON.stringify(
+        (await call(client, 'kind_get', { spaceId: 'live-probe', kind: 'decision' })).schema,
+      ) &&
+      decisionKinds.items.some(
+        (item) => item.kind === 'decision' && item.updatedAt === decisionKind.updatedAt,
+      ),
+    'kind schemas should be readable as MCP resources',
+  );
+  await call(client, 'memory_delete', { memoryId: decision.id });
+
   const feedbackFixture = await call(client, 'memory_create', {
     spaceId: 'live-probe',
     title: 'Revision-aware feedback fixture',
@@ -830,6 +1452,302 @@ async function run() {
     title: 'Duplicate merge fixture',
     content: { marker: 'duplicate-merge-fixture' },
   });
+  const sameFactFixtures = [];
+  for (const content of [
+    'The staging cluster rotates its TLS certificates every Sunday night.',
+    'The staging cluster rotates its TLS certificates every Sunday night.',
+    'The staging cluster rotates its TLS certificates every Sunday evening.',
+  ]) {
+    sameFactFixtures.push(
+      await call(client, 'memory_create', {
+        spaceId: 'live-probe',
+        title: 'Certificate rotation',
+        content,
+      }),
+    );
+  }
+  const [sameFact, identicalFact, rewordedFact] = sameFactFixtures;
+  const duplicateReport = await call(client, 'memory_find_duplicates', {
+    spaceId: 'live-probe',
+    memoryId: sameFact.id,
+    threshold: 0.75,
+  });
+  const sameFactCluster = duplicateReport.clusters[0];
+  const clusterMembers = [
+    sameFactCluster?.canonicalMemoryId,
+    ...(sameFactCluster?.duplicates.map((item) => item.memoryId) ?? []),
+  ];
+  assert(
+    duplicateReport.clusters.length === 1 &&
+      [sameFact.id, identicalFact.id, rewordedFact.id].every((id) => clusterMembers.includes(id)),
+    'duplicate detection should cluster identical and reworded memories',
+  );
+  assert(
+    sameFactCluster.duplicates.every(
+      (item) => item.similarity >= 0.75 && item.expectedRevisionId && item.lexicalOverlap > 0.7,
+    ),
+    'duplicate clusters should score each member and carry merge preconditions',
+  );
+  const disjointReport = await call(client, 'memory_find_duplicates', {
+    spaceId: 'live-probe',
+    memoryId: sameFact.id,
+    threshold: 1,
+  });
+  assert(
+    disjointReport.clusters[0]?.duplicates.length === 1 &&
+      disjointReport.clusters[0].duplicates[0].contentHashMatch === true,
+    'a threshold of 1 should keep only identical content',
+  );
+  const warnedFact = await call(client, 'memory_create', {
+    spaceId: 'live-probe',
+    title: 'Certificate rotation',
+    content: 'The staging cluster rotates its TLS certificates every Sunday night.',
+    dedupe: 'warn',
+  });
+  assert(
+    warnedFact.similarMemories?.some(
+      (item) => item.memoryId === sameFact.id && item.contentHashMatch === true,
+    ),
+    'dedupe warn should return the existing memories it resembles',
+  );
+  sameFactFixtures.push(warnedFact);
+  const beforeRejected = await call(client, 'memory_status');
+  let changesBeforeRejected = { cursor: changes.cursor, hasMore: true };
+  while (changesBeforeRejected.hasMore) {
+    changesBeforeRejected = await call(client, 'memory_changes', {
+      cursor: changesBeforeRejected.cursor,
+      limit: 500,
+    });
+  }
+  const rejectedFact = await rawCall(client, 'memory_create', {
+    spaceId: 'live-probe',
+    title: 'Certificate rotation',
+    content: 'The staging cluster rotates its TLS certificates every Sunday night.',
+    dedupe: 'reject',
+  });
+  const afterRejected = await call(client, 'memory_status');
+  const changesAfterRejected = await call(client, 'memory_changes', {
+    cursor: changesBeforeRejected.cursor,
+  });
+  assert(
+    rejectedFact.isError &&
+      rejectedFact.structuredContent?.similarMemories?.some(
+        (item) => item.memoryId === sameFact.id && item.contentHashMatch === true,
+      ),
+    'dedupe reject should list the memories the duplicate resembles',
+  );
+  assert(
+    JSON.stringify(afterRejected.memories) === JSON.stringify(beforeRejected.memories) &&
+      changesAfterRejected.items.length === 0,
+    'dedupe reject should neither store the duplicate memory nor record it in the change feed',
+  );
+  const distinctFact = await call(client, 'memory_create', {
+    spaceId: 'live-probe',
+    title: 'Office plant rota',
+    content: 'Priya waters the ficus by the east window on alternate Thursdays.',
+    dedupe: 'reject',
+  });
+  assert(distinctFact.similarMemories === undefined, 'distinct memories should pass dedupe');
+  sameFactFixtures.push(distinctFact);
+  for (const fixture of sameFactFixtures) {
+    await call(client, 'memory_delete', { memoryId: fixture.id, force: true });
+  }
+  const [primaryRegion, conflictingRegion, retiredRegion] = await Promise.all(
+    [
+      { region: 'eu-west-1', validFrom: '2024-01-01T00:00:00.000Z' },
+      { region: 'us-east-1', validFrom: '2024-06-01T00:00:00.000Z' },
+      {
+        region: 'ap-south-1',
+        validFrom: '2020-01-01T00:00:00.000Z',
+        validTo: '2023-01-01T00:00:00.000Z',
+      },
+    ].map(({ region, ...validity }) =>
+      call(client, 'memory_create', {
+        spaceId: 'live-probe',
+        title: 'Primary deployment region',
+        kind: 'deployment-fact',
+        content: { service: 'checkout', region },
+        ...validity,
+      }),
+    ),
+  );
+  const consistency = await call(client, 'memory_check_consistency', {
+    memoryId: primaryRegion.id,
+    minRelevance: 0,
+  });
+  const regionConflict = consistency.conflicts.find(
+    (conflict) => conflict.otherMemoryId === conflictingRegion.id,
+  );
+  assert(
+    regionConflict?.memoryId === primaryRegion.id &&
+      JSON.stringify(regionConflict.differingPaths) === JSON.stringify(['/region']) &&
+      ['same-title', 'same-kind', 'overlapping-validity', 'different-values'].every((reason) =>
+        regionConflict.reasons.includes(reason),
+      ),
+    'consistency check should report overlapping memories with different values',
+  );
+  assert(
+    consistency.conflicts.every((conflict) => conflict.otherMemoryId !== retiredRegion.id),
+    'consistency check should ignore memories valid at different times',
+  );
+  await call(client, 'memory_link', {
+    fromMemoryId: primaryRegion.id,
+    toMemoryId: conflictingRegion.id,
+    relation: 'contradicts',
+  });
+  const acknowledged = await call(client, 'memory_check_consistency', {
+    memoryId: primaryRegion.id,
+    minRelevance: 0,
+  });
+  assert(
+    acknowledged.conflicts.every((conflict) => conflict.otherMemoryId !== conflictingRegion.id),
+    'recorded contradictions should not be reported again',
+  );
+  for (const fixture of [primaryRegion, conflictingRegion, retiredRegion]) {
+    await call(client, 'memory_delete', { memoryId: fixture.id, force: true });
+  }
+
+  await call(client, 'relation_define', {
+    spaceId: 'live-probe',
+    relation: 'runs_on',
+    inverse: 'hosts',
+    fromKinds: ['service'],
+    toKinds: ['host'],
+    cardinality: 'many-to-one',
+  });
+  const [checkoutService, primaryHost, spareHost] = await Promise.all(
+    [
+      { title: 'Checkout service', kind: 'service' },
+      { title: 'Primary checkout host', kind: 'host' },
+      { title: 'Spare checkout host', kind: 'host' },
+    ].map((fixture) =>
+      call(client, 'memory_create', {
+        spaceId: 'live-probe',
+        ...fixture,
+        content: { name: fixture.title },
+      }),
+    ),
+  );
+  const hostsLink = await call(client, 'memory_link', {
+    fromMemoryId: primaryHost.id,
+    toMemoryId: checkoutService.id,
+    relation: 'hosts',
+  });
+  const runsOnLink = await call(client, 'memory_link', {
+    fromMemoryId: checkoutService.id,
+    toMemoryId: primaryHost.id,
+    relation: 'runs_on',
+  });
+  assert(runsOnLink.id === hostsLink.id, 'an inverse-named link should be the same edge');
+  const dependencies = await call(client, 'memory_traverse', {
+    memoryId: checkoutService.id,
+    relations: ['runs_on'],
+    direction: 'outgoing',
+  });
+  assert(
+    dependencies.items.some(
+      (entry) => entry.memory.id === primaryHost.id && entry.path[0]?.direction === 'incoming',
+    ),
+    'traversal should follow edges written with the inverse relation name',
+  );
+  await expectToolError(client, 'memory_link', {
+    fromMemoryId: checkoutService.id,
+    toMemoryId: spareHost.id,
+    relation: 'runs_on',
+  });
+  await expectToolError(client, 'memory_link', {
+    fromMemoryId: spareHost.id,
+    toMemoryId: checkoutService.id,
+    relation: 'runs_on',
+  });
+  const relationTypes = await call(client, 'relation_list', { spaceId: 'live-probe' });
+  assert(
+    relationTypes.items.some(
+      (item) => item.relation === 'runs_on' && item.cardinality === 'many-to-one',
+    ),
+    'relation list should include defined relations',
+  );
+  for (const fixture of [checkoutService, primaryHost, spareHost]) {
+    await call(client, 'memory_delete', { memoryId: fixture.id, force: true });
+  }
+
+  const [incident, rootCause, remediation] = await Promise.all(
+    ['Checkout outage', 'Expired TLS certificate', 'Automated certificate renewal'].map((title) =>
+      call(client, 'memory_create', { spaceId: 'live-probe', title, content: { title } }),
+    ),
+  );
+  for (const [from, to, relation] of [
+    [incident, rootCause, 'caused_by'],
+    [rootCause, remediation, 'fixed_by'],
+    [incident, remediation, 'followed_up_by'],
+  ]) {
+    await call(client, 'memory_link', { fromMemoryId: from.id, toMemoryId: to.id, relation });
+  }
+  const connections = await call(client, 'memory_path', {
+    fromMemoryId: incident.id,
+    toMemoryId: remediation.id,
+    direction: 'outgoing',
+  });
+  const causalChain = await call(client, 'memory_path', {
+    fromMemoryId: incident.id,
+    toMemoryId: remediation.id,
+    relations: ['caused_by', 'fixed_by'],
+  });
+  const againstLinks = await call(client, 'memory_path', {
+    fromMemoryId: remediation.id,
+    toMemoryId: incident.id,
+    direction: 'outgoing',
+  });
+  assert(
+    JSON.stringify(connections.paths.map((path) => path.length)) === '[1,2]' &&
+      JSON.stringify(causalChain.paths.map((path) => path.memoryIds)) ===
+        JSON.stringify([[incident.id, rootCause.id, remediation.id]]) &&
+      causalChain.memories.length === 3 &&
+      againstLinks.paths.length === 0,
+    'memory path should return the shortest relation- and direction-aware connections first',
+  );
+  const graphLines = (
+    await client.readResource({
+      uri: `memory://spaces/live-probe/memories/${incident.id}/graph`,
+    })
+  ).contents[0].text
+    .trim()
+    .split('\n')
+    .map((line) => JSON.parse(line));
+  const mermaidGraph = await client.readResource({
+    uri: `memory://spaces/live-probe/memories/${rootCause.id}/graph/mermaid`,
+  });
+  assert(
+    graphLines.filter((line) => line.type === 'node').length === 3 &&
+      graphLines.filter((line) => line.type === 'edge').length === 3 &&
+      mermaidGraph.contents[0].mimeType === 'text/vnd.mermaid' &&
+      mermaidGraph.contents[0].text.includes('-->|"fixed_by"|'),
+    'memory graph resource should render the linked neighbourhood in the requested format',
+  );
+  const suggestions = await call(client, 'memory_suggest_links', { memoryId: incident.id });
+  assert(
+    suggestions.suggestions.every(
+      (suggestion) =>
+        ![rootCause.id, remediation.id, incident.id].includes(suggestion.memoryId) &&
+        suggestion.fromMemoryId !== suggestion.toMemoryId,
+    ),
+    'link suggestions should leave out the memory and its linked neighbours',
+  );
+  const acceptedSuggestions = await call(client, 'memory_accept_link_suggestions', {
+    suggestions: [
+      { fromMemoryId: rootCause.id, toMemoryId: incident.id, relation: 'related_to' },
+      { fromMemoryId: rootCause.id, toMemoryId: incident.id, relation: 'merged-into' },
+    ],
+  });
+  assert(
+    acceptedSuggestions.linked === 1 &&
+      acceptedSuggestions.results[0].linkId !== undefined &&
+      acceptedSuggestions.results[1].error.includes('reserved'),
+    'accepting link suggestions should create valid links and report the rest',
+  );
+  for (const fixture of [incident, rootCause, remediation]) {
+    await call(client, 'memory_delete', { memoryId: fixture.id, force: true });
+  }
   const merge = await call(client, 'memory_merge', {
     canonicalMemoryId: canonicalMergeFixture.id,
     expectedCanonicalRevisionId: canonicalMergeFixture.revisionId,
@@ -866,6 +1784,28 @@ async function run() {
       redirectedByKey.redirected === undefined,
     'logical-key retrieval should report only a meaningful redirect',
   );
+  const unmerge = await call(client, 'memory_unmerge', {
+    operationId: merge.operationId,
+    actorId: 'live-probe',
+    reason: 'Unmerge verification',
+  });
+  assert(
+    unmerge.operationId === merge.operationId &&
+      unmerge.unmergedMemoryIds[0] === duplicateMergeFixture.id &&
+      unmerge.mergedMemoryCount === 0,
+    'unmerge should release the duplicate and recompute the merged count',
+  );
+  const unmergedByKey = await call(client, 'memory_get_by_key', {
+    spaceId: 'live-probe',
+    logicalKey: 'payload-merge-duplicate',
+  });
+  assert(
+    unmergedByKey.memory.id === duplicateMergeFixture.id &&
+      unmergedByKey.memory.state === 'active' &&
+      unmergedByKey.redirectedFromMemoryId === undefined,
+    'an unmerged logical key should resolve to the restored duplicate',
+  );
+  await expectToolError(client, 'memory_unmerge', { operationId: merge.operationId });
   const verifiedFixture = await call(client, 'memory_get', { memoryId: feedbackFixture.id });
   assert(verifiedFixture.feedbackSummary.feedbackStatus === 'verified', 'verified status');
   await call(client, 'memory_feedback', {
@@ -968,6 +1908,19 @@ async function run() {
   const firstUnlink = await call(client, 'memory_unlink', { linkId: link.id });
   const secondUnlink = await call(client, 'memory_unlink', { linkId: link.id });
   assert(firstUnlink.deletedAt === secondUnlink.deletedAt, 'unlink must be idempotent');
+  const unlinkChanges = await call(client, 'memory_changes', {
+    spaceIds: ['live-probe'],
+    cursor: changes.cursor,
+    limit: 500,
+  });
+  assert(
+    unlinkChanges.items.filter((change) => change.type === 'unlink' && change.recordId === link.id)
+      .length === 1 &&
+      unlinkChanges.items.every(
+        (change) => change.sequence > (changes.items.at(-1)?.sequence ?? 0),
+      ),
+    'change cursor should return only later changes, recording an idempotent unlink once',
+  );
 
   const resource = await client.readResource({
     uri: `memory://spaces/live-probe/memories/${lease.id}`,
@@ -981,6 +1934,37 @@ async function run() {
     !JSON.stringify(resource.contents).includes('contentHash'),
     'memory resource must hide internal content hash',
   );
+  const diff = await call(client, 'memory_diff', {
+    memoryId: lease.id,
+    fromRevisionId: lease.revisionId,
+    toRevisionId: revised.revisionId,
+  });
+  assert(
+    JSON.stringify(diff.content) ===
+      JSON.stringify([
+        { op: 'replace', path: '/annualCostEur', value: 88000 },
+        {
+          op: 'replace',
+          path: '/statement',
+          value: 'The company extended its Kaunas warehouse lease through December 2032.',
+        },
+      ]) && diff.metadata.length === 0,
+    'memory diff should return an RFC 6902 content patch',
+  );
+  assert(
+    diff.fields.map((change) => change.field).join(',') ===
+      'sources,confidence,observedAt,reviewAfter' &&
+      diff.fields.find((change) => change.field === 'confidence')?.from === 0.95 &&
+      diff.fields.find((change) => change.field === 'confidence')?.to === undefined,
+    'memory diff should report changed fields and omit unset values',
+  );
+  const diffResource = await client.readResource({
+    uri: `memory://spaces/live-probe/memories/${lease.id}/diff/${lease.revisionId}/${revised.revisionId}`,
+  });
+  assert(
+    JSON.stringify(JSON.parse(diffResource.contents[0].text)) === JSON.stringify(diff),
+    'memory diff resource should match the diff tool',
+  );
   const provenanceResource = await client.readResource({
     uri: `memory://spaces/live-probe/memories/${structuredRate.id}`,
   });
@@ -1132,11 +2116,27 @@ async function run() {
   for (const [table, rowCount] of Object.entries(rowsBeforeDeletion)) {
     assert(rowCount > 0, `deletion fixture should populate ${table}`);
   }
-  const deletion = await call(client, 'memory_delete', { memoryId: disposable.id });
-  assert(deletion.id === disposable.id && deletion.deleted === true, 'deletion acknowledgement');
+  const trashed = await call(client, 'memory_delete', { memoryId: disposable.id });
+  const trashedDetail = await call(client, 'memory_get', { memoryId: disposable.id });
+  const trash = await call(client, 'memory_list', { spaceId: 'live-probe', state: 'deleted' });
+  assert(
+    trashed.purgeAfter !== undefined &&
+      trashed.erased === undefined &&
+      trashedDetail.state === 'deleted' &&
+      trash.items.some((item) => item.id === disposable.id),
+    'delete should move memories to a listed, recoverable trash',
+  );
+  await expectToolError(client, 'memory_archive', { memoryId: disposable.id });
+  const untrashed = await call(client, 'memory_restore', { memoryId: disposable.id });
+  assert(untrashed.state === 'active', 'restore should undo a delete from the trash');
+  const deletion = await call(client, 'memory_delete', { memoryId: disposable.id, force: true });
+  assert(
+    deletion.id === disposable.id && deletion.deleted === true && deletion.erased === true,
+    'deletion acknowledgement',
+  );
   await expectToolError(client, 'memory_get', { memoryId: disposable.id });
   await expectToolError(client, 'memory_history', { memoryId: disposable.id });
-  await call(client, 'memory_delete', { memoryId: disposable.id });
+  await expectToolError(client, 'memory_delete', { memoryId: disposable.id, force: true });
   const afterDeleteTraversal = await call(client, 'memory_traverse', {
     memoryId: lease.id,
     maxDepth: 2,
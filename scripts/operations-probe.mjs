@@ -37,6 +37,27 @@ function probeInvalidConfiguration() {
     result.stderr.includes('SIMPLE_MEMORY_INFERENCE_QUEUE_LIMIT must be a positive integer'),
     'invalid configuration must identify the setting',
   );
+  const oversizedInterval = spawnSync(
+    process.execPath,
+    [path.join(root, 'dist', 'cli.js'), 'config', 'validate'],
+    {
+      cwd: root,
+      env: {
+        ...process.env,
+        SIMPLE_MEMORY_DATA_DIR: dataDir,
+        SIMPLE_MEMORY_MODELS: 'disabled',
+        SIMPLE_MEMORY_EXPIRY_SWEEP_INTERVAL_MS: '2147483648',
+      },
+      encoding: 'utf8',
+    },
+  );
+  assert(
+    oversizedInterval.status !== 0 &&
+      oversizedInterval.stderr.includes(
+        'SIMPLE_MEMORY_EXPIRY_SWEEP_INTERVAL_MS must be at most 2147483647 milliseconds',
+      ),
+    'timer settings beyond the Node timer range must be rejected',
+  );
 }
 
 function probeCliSurface() {
@@ -53,6 +74,12 @@ function probeCliSurface() {
   assert(help.status === 0, 'CLI help must succeed');
   assert(help.stdout.includes('memoryctl backup'), 'CLI help must document backup');
   assert(help.stdout.includes('memoryctl restore'), 'CLI help must document restore');
+  assert(help.stdout.includes('memoryctl import'), 'CLI help must document import');
+  assert(help.stdout.includes('memoryctl changes'), 'CLI help must document the change feed');
+  assert(help.stdout.includes('memoryctl expire'), 'CLI help must document expiry sweeps');
+  assert(help.stdout.includes('memoryctl space clone'), 'CLI help must document space cloning');
+  assert(help.stdout.includes('memoryctl graph export'), 'CLI help must document graph export');
+  assert(help.stdout.includes('memoryctl graph stats'), 'CLI help must document graph stats');
 
   const show = spawnSync(process.execPath, [path.join(root, 'dist', 'cli.js'), 'config', 'show'], {
     cwd: root,
@@ -72,6 +99,892 @@ function probeCliSurface() {
     { cwd: root, env: environment, encoding: 'utf8' },
   );
   assert(unconfirmed.status !== 0, 'restore must require explicit confirmation');
+
+  const unknownPolicy = spawnSync(
+    process.execPath,
+    [path.join(root, 'dist', 'cli.js'), 'import', 'snapshot.json', '--conflict', 'merge'],
+    { cwd: root, env: environment, encoding: 'utf8' },
+  );
+  assert(unknownPolicy.status !== 0, 'import must reject unknown conflict policies');
+}
+
+async function probeSnapshotImport(config) {
+  const sourceConfig = { ...config, databasePath: path.join(dataDir, 'snapshot-source.db') };
+  const targetConfig = { ...config, databasePath: path.join(dataDir, 'snapshot-target.db') };
+  const source = createMemoryService(sourceConfig);
+  let snapshot;
+  let lease;
+  let revised;
+  let duplicate;
+  try {
+    source.createSpace({ id: 'snapshot-team', name: 'Snapshot team' });
+    lease = await source.createMemory({
+      spaceId: 'snapshot-team',
+      logicalKey: 'warehouse-lease',
+      title: 'Warehouse lease',
+      content: { term: 'through 2030' },
+      tags: ['property'],
+      sources: [{ uri: 'urn:operations:lease', type: 'contract' }],
+    });
+    revised = await source.reviseMemory(
+      lease.id,
+      { title: 'Warehouse lease', content: { term: 'through 2032' }, tags: ['property'] },
+      lease.revision.id,
+    );
+    const supplier = await source.createMemory({
+      spaceId: 'snapshot-team',
+      title: 'Supplier',
+      content: 'Northline supplies the warehouse.',
+    });
+    duplicate = await source.createMemory({
+      spaceId: 'snapshot-team',
+      title: 'Duplicate lease note',
+      content: 'The warehouse lease was renewed.',
+    });
+    const supplierLink = source.createLink({
+      fromMemoryId: lease.id,
+      toMemoryId: supplier.id,
+      relation: 'supplied_by',
+    });
+    source.updateLink(
+      {
+        linkId: supplierLink.id,
+        expectedRevisionNumber: 1,
+        metadata: { contract: 'NL-7' },
+      },
+      'operations-probe',
+    );
+    source.recordFeedback({
+      memoryId: lease.id,
+      scope: 'content',
+      signal: 'verified',
+      actorType: 'user',
+    });
+    source.mergeMemories({
+      canonicalMemoryId: lease.id,
+      expectedCanonicalRevisionId: revised.revision.id,
+      duplicates: [{ memoryId: duplicate.id, expectedRevisionId: duplicate.revision.id }],
+    });
+    snapshot = JSON.parse(JSON.stringify(source.exportSnapshot()));
+  } finally {
+    await source.close();
+  }
+
+  const target = createMemoryService(targetConfig);
+  try {
+    const imported = await target.importSnapshot(snapshot, { conflict: 'skip' });
+    assert(imported.memories.imported === 3, 'snapshot import must restore every memory');
+    assert(imported.revisions === 4 && imported.failed === 0, 'imported revisions must index');
+    assert(
+      imported.links.imported === 1 &&
+        imported.feedback.imported === 1 &&
+        imported.mergeOperations.imported === 1 &&
+        imported.redirectEvents.imported === 1,
+      'snapshot import must restore links, feedback, merges and redirects',
+    );
+    const [restoredLink] = snapshot.links;
+    const restoredLinkHistory = target.getLinkHistory(restoredLink.id);
+    assert(
+      target.getLink(restoredLink.id).revisionNumber === 2 &&
+        restoredLinkHistory.length === 2 &&
+        restoredLinkHistory[0].recordedAt === restoredLink.history[0].recordedAt &&
+        restoredLinkHistory[1].actor === 'operations-probe',
+      'snapshot import must preserve link revisions',
+    );
+    const restoredLease = target.getMemory(lease.id);
+    assert(
+      restoredLease.revision.revisionNumber === 2 &&
+        restoredLease.revision.recordedAt === revised.revision.recordedAt &&
+        restoredLease.revision.contentHash === revised.revision.contentHash &&
+        restoredLease.indexStatus === 'lexical-only',
+      'snapshot import must preserve revision numbers, timestamps and content hashes',
+    );
+    assert(
+      restoredLease.feedbackSummary.feedbackStatus === 'verified',
+      'snapshot import must preserve revision feedback',
+    );
+    assert(
+      target.getMemory(duplicate.id).canonicalMemoryId === lease.id &&
+        target.getMemoryByLogicalKey('snapshot-team', 'warehouse-lease').memory.id === lease.id,
+      'snapshot import must preserve merge redirects and logical keys',
+    );
+
+    const repeated = await target.importSnapshot(snapshot, { conflict: 'skip' });
+    assert(
+      repeated.memories.imported === 0 && repeated.memories.skipped === 3,
+      'skip policy must leave existing memories untouched',
+    );
+
+    const remapped = await target.importSnapshot(snapshot, { conflict: 'remap' });
+    const remappedLeaseId = remapped.memoryIdMap[lease.id];
+    assert(
+      remapped.memories.remapped === 3 && remapped.memories.clearedLogicalKeys === 1,
+      'remap policy must assign fresh identifiers and release held logical keys',
+    );
+    assert(
+      remappedLeaseId !== undefined &&
+        target.getMemory(remappedLeaseId).revision.revisionNumber === 2 &&
+        target.getMemory(remapped.memoryIdMap[duplicate.id]).canonicalMemoryId === remappedLeaseId,
+      'remap policy must rewrite revision, merge and redirect references',
+    );
+
+    target.recordFeedback({
+      memoryId: lease.id,
+      scope: 'content',
+      signal: 'stale',
+      actorType: 'user',
+    });
+    const overwritten = await target.importSnapshot(snapshot, { conflict: 'overwrite' });
+    assert(
+      overwritten.memories.overwritten === 3 &&
+        target.getMemory(lease.id).feedbackSummary.feedbackStatus === 'verified',
+      'overwrite policy must replace existing memories with the snapshot state',
+    );
+
+    const foreignSnapshot = JSON.parse(
+      JSON.stringify(snapshot).replaceAll('"snapshot-team"', '"snapshot-foreign"'),
+    );
+    const foreign = await target.importSnapshot(foreignSnapshot, {
+      spaceIds: ['snapshot-foreign'],
+      conflict: 'overwrite',
+    });
+    const foreignLeaseId = foreign.memoryIdMap[lease.id];
+    assert(
+      foreign.memories.overwritten === 0 &&
+        foreign.memories.remapped === 3 &&
+        foreignLeaseId !== undefined &&
+        target.getMemory(foreignLeaseId).spaceId === 'snapshot-foreign',
+      'overwrite must remap identifiers held by memories outside the imported spaces',
+    );
+    const survivingLease = target.getMemory(lease.id);
+    assert(
+      survivingLease.spaceId === 'snapshot-team' &&
+        survivingLease.revision.id === revised.revision.id &&
+        target.getLink(restoredLink.id).fromMemoryId === lease.id,
+      'overwrite must never delete memories or links outside the imported spaces',
+    );
+
+    const craftedSnapshot = JSON.parse(
+      JSON.stringify(snapshot).replaceAll('"snapshot-team"', '"snapshot-crafted"'),
+    );
+    for (const record of [...craftedSnapshot.links, ...craftedSnapshot.mergeOperations]) {
+      record.spaceId = 'snapshot-team';
+    }
+    let changeHead;
+    let changePage;
+    do {
+      changePage = target.listChanges({
+        ...(changeHead ? { since: changeHead } : {}),
+        limit: 1000,
+      });
+      changeHead = changePage.cursor;
+    } while (changePage.hasMore);
+    const crafted = await target.importSnapshot(craftedSnapshot, {
+      spaceIds: ['snapshot-crafted'],
+      conflict: 'remap',
+    });
+    const craftedChanges = target.listChanges({ since: changeHead, limit: 1000 }).items;
+    assert(
+      crafted.links.imported === 1 &&
+        crafted.mergeOperations.imported === 1 &&
+        craftedChanges.some((change) => change.type === 'link') &&
+        craftedChanges.some((change) => change.type === 'merge') &&
+        craftedChanges.every((change) => change.spaceId === 'snapshot-crafted'),
+      'imported links and merges must belong to the space of their memories, not the snapshot row',
+    );
+
+    const scoped = target.exportSnapshot({
+      spaceIds: ['snapshot-team'],
+      atTime: revised.revision.recordedAt,
+    });
+    const scopedLease = scoped.memories.find((memory) => memory.id === lease.id);
+    assert(
+      scoped.spaces.length === 1 &&
+        scopedLease?.history.length === 2 &&
+        scopedLease.currentRevisionId === revised.revision.id &&
+        scoped.mergeOperations.length === 0 &&
+        scoped.memories.every((memory) => memory.spaceId === 'snapshot-team'),
+      'scoped export must contain only the selected spaces as recorded at the requested time',
+    );
+    const archiveConfig = { ...config, databasePath: path.join(dataDir, 'snapshot-archive.db') };
+    const archive = createMemoryService(archiveConfig);
+    try {
+      let missingSpaceRejected = false;
+      try {
+        await archive.importSnapshot(scoped, { spaceIds: ['snapshot-missing'] });
+      } catch {
+        missingSpaceRejected = true;
+      }
+      assert(missingSpaceRejected, 'scoped import must reject spaces absent from the snapshot');
+      const archived = await archive.importSnapshot(scoped, { spaceIds: ['snapshot-team'] });
+      assert(
+        archived.memories.imported === scoped.memories.length &&
+          archived.crossingLinks.length === 0 &&
+          archive.getMemory(lease.id).revision.revisionNumber === 2,
+        'scoped import must restore the selected space at its exported time',
+      );
+    } finally {
+      await archive.close();
+    }
+  } finally {
+    await target.close();
+  }
+}
+
+async function probeChangeFeed(config) {
+  const changesConfig = { ...config, databasePath: path.join(dataDir, 'changes.db') };
+  let service = createMemoryService(changesConfig);
+  let initial;
+  let erased;
+  try {
+    service.createSpace({ id: 'changes-team', name: 'Change feed team' });
+    const vendor = await service.createMemory({
+      spaceId: 'changes-team',
+      title: 'Vendor',
+      content: 'Harbor Freight delivers on Tuesdays.',
+    });
+    erased = await service.createMemory({
+      spaceId: 'changes-team',
+      title: 'Temporary note',
+      content: 'Remove after the audit.',
+    });
+    initial = service.listChanges({ spaceIds: ['changes-team'] });
+    const link = service.createLink({
+      fromMemoryId: vendor.id,
+      toMemoryId: erased.id,
+      relation: 'mentions',
+    });
+    service.unlink(link.id);
+    service.setState(vendor.id, 'archived');
+    service.deleteMemory(erased.id, { force: true });
+  } finally {
+    await service.close();
+  }
+  assert(
+    initial.items.map((change) => change.type).join(',') ===
+      'space-created,state,revision,state,revision' && !initial.hasMore,
+    'change feed must record space creation, initial states, and revisions in order',
+  );
+
+  const followed = spawnSync(
+    process.execPath,
+    [path.join(root, 'dist', 'cli.js'), 'changes', '--since', initial.cursor],
+    {
+      cwd: root,
+      env: {
+        ...process.env,
+        SIMPLE_MEMORY_DATA_DIR: dataDir,
+        SIMPLE_MEMORY_DB_PATH: changesConfig.databasePath,
+        SIMPLE_MEMORY_MODELS: 'disabled',
+      },
+      encoding: 'utf8',
+    },
+  );
+  assert(followed.status === 0, 'memoryctl changes must succeed');
+  const lines = followed.stdout
+    .trim()
+    .split('\n')
+    .map((line) => JSON.parse(line));
+  assert(
+    lines.map((change) => change.type).join(',') === 'link,unlink,state,erasure' &&
+      lines.at(-1).memoryId === erased.id,
+    'memoryctl changes must print later changes as NDJSON, including erasures',
+  );
+
+  let latestCursor;
+  service = createMemoryService(changesConfig);
+  try {
+    service.createSpace({ id: 'changes-archive', name: 'Change feed archive' });
+    const moved = await service.createMemory({
+      spaceId: 'changes-team',
+      title: 'Dock schedule',
+      content: 'Dock two opens at six.',
+    });
+    const beforeMove = service.listChanges({}).cursor;
+    service.moveMemory({ memoryId: moved.id, targetSpaceId: 'changes-archive' });
+    const sourceMoves = service.listChanges({ since: beforeMove, spaceIds: ['changes-team'] });
+    const targetMoves = service.listChanges({ since: beforeMove, spaceIds: ['changes-archive'] });
+    assert(
+      sourceMoves.items.length === 1 &&
+        sourceMoves.items[0].type === 'move' &&
+        sourceMoves.items[0].memoryId === moved.id &&
+        targetMoves.items.length === 1 &&
+        targetMoves.items[0].type === 'move' &&
+        targetMoves.items[0].memoryId === moved.id,
+      'moves must appear in the change feeds of both the source and the target space',
+    );
+    latestCursor = service.listChanges({ since: beforeMove }).cursor;
+  } finally {
+    await service.close();
+  }
+
+  service = createMemoryService({ ...changesConfig, changeRetentionDays: 0 });
+  try {
+    assert(
+      service.pruneChanges() > 0 && service.listChanges({}).items.length === 0,
+      'retention must prune expired change log entries',
+    );
+    let expiredRejected = false;
+    try {
+      service.listChanges({ since: initial.cursor });
+    } catch (error) {
+      expiredRejected = String(error).includes('older than the retained change log');
+    }
+    assert(expiredRejected, 'pruned cursors must be rejected instead of skipping changes');
+    assert(
+      service.listChanges({ since: latestCursor }).items.length === 0,
+      'cursors at the retention boundary must remain valid',
+    );
+  } finally {
+    await service.close();
+  }
+}
+
+async function probeMoveRelationTypes(config) {
+  const service = createMemoryService({
+    ...config,
+    databasePath: path.join(dataDir, 'move-relations.db'),
+  });
+  try {
+    service.createSpace({ id: 'move-source', name: 'Move source' });
+    service.createSpace({ id: 'move-target', name: 'Move target' });
+    service.defineRelationType({
+      spaceId: 'move-target',
+      relation: 'runs_on',
+      fromKinds: ['service'],
+      toKinds: ['host'],
+    });
+    const checkout = await service.createMemory({
+      spaceId: 'move-source',
+      kind: 'service',
+      title: 'Checkout service',
+      content: { name: 'checkout' },
+    });
+    const note = await service.createMemory({
+      spaceId: 'move-source',
+      kind: 'note',
+      title: 'Checkout note',
+      content: { name: 'checkout' },
+    });
+    const carried = service.createLink({
+      fromMemoryId: checkout.id,
+      toMemoryId: note.id,
+      relation: 'runs_on',
+    });
+    service.mergeMemories({
+      canonicalMemoryId: checkout.id,
+      expectedCanonicalRevisionId: checkout.revision.id,
+      duplicates: [{ memoryId: note.id, expectedRevisionId: note.revision.id }],
+    });
+    let rejected = false;
+    try {
+      service.moveMemory({ memoryId: checkout.id, targetSpaceId: 'move-target' });
+    } catch (error) {
+      rejected = String(error).includes(`Link ${carried.id} violates relation type runs_on`);
+    }
+    assert(
+      rejected && service.getMemory(checkout.id).spaceId === 'move-source',
+      'moves must reject carried links that violate the target relation types',
+    );
+    service.unlink(carried.id);
+    const moved = service.moveMemory({ memoryId: checkout.id, targetSpaceId: 'move-target' });
+    assert(
+      moved.movedMemoryIds.length === 2 && moved.memory.spaceId === 'move-target',
+      'moves must succeed once the violating link is removed',
+    );
+  } finally {
+    await service.close();
+  }
+}
+
+async function probeMemoryExpiry(config) {
+  const expiryConfig = { ...config, databasePath: path.join(dataDir, 'expiry.db') };
+  const service = createMemoryService(expiryConfig);
+  let scratch;
+  let kept;
+  let current;
+  try {
+    service.createSpace({ id: 'expiry-scratch', name: 'Scratch', expiryAction: 'delete' });
+    scratch = await service.createMemory({
+      spaceId: 'expiry-scratch',
+      title: 'Scratch calculation',
+      content: 'Intermediate totals for the audit.',
+      expiresAt: '2020-01-01T00:00:00.000Z',
+    });
+    kept = await service.createMemory({
+      title: 'Expired reminder',
+      content: 'Renew the parking permit.',
+      expiresAt: '2020-01-01T00:00:00.000Z',
+    });
+    current = await service.createMemory({
+      title: 'Current reminder',
+      content: 'Renew the parking permit next year.',
+      expiresAt: '2999-01-01T00:00:00.000Z',
+    });
+    const preview = service.expireMemories(true);
+    assert(
+      preview.dryRun && preview.archived === 1 && preview.deleted === 1,
+      'expiry dry run must report every expired memory by space policy',
+    );
+    assert(
+      service.getMemory(kept.id).state === 'active',
+      'expiry dry run must not change memory state',
+    );
+  } finally {
+    await service.close();
+  }
+
+  const swept = spawnSync(process.execPath, [path.join(root, 'dist', 'cli.js'), 'expire'], {
+    cwd: root,
+    env: {
+      ...process.env,
+      SIMPLE_MEMORY_DATA_DIR: dataDir,
+      SIMPLE_MEMORY_DB_PATH: expiryConfig.databasePath,
+      SIMPLE_MEMORY_MODELS: 'disabled',
+    },
+    encoding: 'utf8',
+  });
+  assert(swept.status === 0, 'memoryctl expire must succeed');
+  const report = JSON.parse(swept.stdout);
+  assert(
+    report.archived === 1 &&
+      report.deleted === 1 &&
+      report.memories.some((memory) => memory.id === scratch.id && memory.state === 'deleted'),
+    'memoryctl expire must archive or delete expired memories by space policy',
+  );
+
+  const reopened = createMemoryService(expiryConfig);
+  try {
+    assert(
+      reopened.getMemory(kept.id).state === 'archived' &&
+        reopened.getMemory(current.id).state === 'active',
+      'expiry must archive only memories whose current revision has expired',
+    );
+    const events = reopened.exportSnapshot().stateEvents;
+    assert(
+      events.filter((event) => event.actor === 'system:expiry').length === 2,
+      'expiry state events must record the system actor',
+    );
+    assert(reopened.expireMemories().memories.length === 0, 'expiry sweeps must be idempotent');
+    assert(
+      reopened.purgeDeleted() === 0 && reopened.getMemory(scratch.id).state === 'deleted',
+      'purge must keep deleted memories within the grace period',
+    );
+  } finally {
+    await reopened.close();
+  }
+
+  const purging = createMemoryService({ ...expiryConfig, deleteGraceDays: 0 });
+  try {
+    assert(purging.purgeDeleted() === 1, 'purge must erase deleted memories past the grace period');
+    let erased = false;
+    try {
+      purging.getMemory(scratch.id);
+    } catch {
+      erased = true;
+    }
+    assert(erased, 'purged memories must be erased');
+
+    const archivedByHand = await purging.createMemory({
+      title: 'Archived reminder',
+      content: 'Renew the storage lease.',
+      expiresAt: '2020-01-01T00:00:00.000Z',
+    });
+    purging.setState(archivedByHand.id, 'archived', 'operations-probe');
+    const mergedDuplicate = await purging.createMemory({
+      title: 'Duplicate reminder',
+      content: 'Renew the parking permit soon.',
+      expiresAt: '2020-01-01T00:00:00.000Z',
+    });
+    assert(purging.expireMemories().archived === 1, 'expiry must archive the duplicate first');
+    purging.mergeMemories({
+      canonicalMemoryId: current.id,
+      expectedCanonicalRevisionId: current.revision.id,
+      duplicates: [
+        { memoryId: mergedDuplicate.id, expectedRevisionId: mergedDuplicate.revision.id },
+      ],
+    });
+
+    const defaultSpace = purging.getSpace('default');
+    const updated = purging.updateSpace(
+      {
+        spaceId: 'default',
+        expectedRevisionNumber: defaultSpace.revisionNumber,
+        expiryAction: 'delete',
+      },
+      'operations-probe',
+    );
+    const spaceHistory = purging.getSpaceHistory('default');
+    assert(
+      updated.expiryAction === 'delete' &&
+        updated.revisionNumber === defaultSpace.revisionNumber + 1 &&
+        spaceHistory.at(-2)?.expiryAction === 'archive' &&
+        spaceHistory.at(-1)?.expiryAction === 'delete',
+      'space updates must change the expiry action and record it in the space history',
+    );
+    const escalated = purging.expireMemories();
+    assert(
+      escalated.deleted === 1 && purging.getMemory(kept.id).state === 'deleted',
+      'expiry must delete memories it archived once their space switches to deletion',
+    );
+    assert(
+      purging.getMemory(archivedByHand.id).state === 'archived' &&
+        purging.getMemory(mergedDuplicate.id).state === 'archived' &&
+        purging.getMemory(mergedDuplicate.id).canonicalMemoryId === current.id,
+      'expiry must not delete memories archived by hand or merged into a canonical memory',
+    );
+  } finally {
+    await purging.close();
+  }
+}
+
+async function probeSpaceClone(config) {
+  const cloneConfig = { ...config, databasePath: path.join(dataDir, 'clone.db') };
+  let service = createMemoryService(cloneConfig);
+  let policy;
+  let revised;
+  let duplicate;
+  let archived;
+  try {
+    service.createSpace({ id: 'product-knowledge', name: 'Product knowledge' });
+    policy = await service.createMemory({
+      spaceId: 'product-knowledge',
+      logicalKey: 'refund-policy',
+      title: 'Refund policy',
+      content: 'Refunds are accepted within 14 days.',
+    });
+    revised = await service.reviseMemory(
+      policy.id,
+      { title: 'Refund policy', content: 'Refunds are accepted within 30 days.' },
+      policy.revision.id,
+    );
+    const channel = await service.createMemory({
+      spaceId: 'product-knowledge',
+      title: 'Support channel',
+      content: 'Refund requests go through the billing desk.',
+    });
+    service.createLink({ fromMemoryId: channel.id, toMemoryId: policy.id, relation: 'applies' });
+    duplicate = await service.createMemory({
+      spaceId: 'product-knowledge',
+      title: 'Refund note',
+      content: 'Refunds take a month.',
+    });
+    service.mergeMemories({
+      canonicalMemoryId: policy.id,
+      expectedCanonicalRevisionId: revised.revision.id,
+      duplicates: [{ memoryId: duplicate.id, expectedRevisionId: duplicate.revision.id }],
+    });
+    archived = await service.createMemory({
+      spaceId: 'product-knowledge',
+      title: 'Retired promotion',
+      content: 'Spring refunds are doubled.',
+    });
+    service.setState(archived.id, 'archived');
+  } finally {
+    await service.close();
+  }
+
+  const cloned = spawnSync(
+    process.execPath,
+    [
+      path.join(root, 'dist', 'cli.js'),
+      'space',
+      'clone',
+      'product-knowledge',
+      'product-knowledge-draft',
+      '--name',
+      'Product knowledge draft',
+    ],
+    {
+      cwd: root,
+      env: {
+        ...process.env,
+        SIMPLE_MEMORY_DATA_DIR: dataDir,
+        SIMPLE_MEMORY_DB_PATH: cloneConfig.databasePath,
+        SIMPLE_MEMORY_MODELS: 'disabled',
+      },
+      encoding: 'utf8',
+    },
+  );
+  assert(cloned.status === 0, 'memoryctl space clone must succeed');
+  const report = JSON.parse(cloned.stdout);
+  assert(
+    report.memories === 3 &&
+      report.revisions === 3 &&
+      report.links === 1 &&
+      report.reusedIndexRevisions === 3 &&
+      report.indexed === 0,
+    'space clone must copy current unmerged memories and links and reuse their index',
+  );
+  assert(
+    report.space.name === 'Product knowledge draft' &&
+      report.space.metadata.clonedFrom.spaceId === 'product-knowledge',
+    'space clone must record the origin space in the new space metadata',
+  );
+
+  service = createMemoryService(cloneConfig);
+  try {
+    const clonedPolicyId = report.memoryIdMap[policy.id];
+    const resolved = service.getMemoryByLogicalKey('product-knowledge-draft', 'refund-policy');
+    assert(
+      resolved.memory.id === clonedPolicyId &&
+        resolved.memory.revision.revisionNumber === 1 &&
+        resolved.memory.revision.contentHash === revised.revision.contentHash &&
+        resolved.memory.indexStatus === 'lexical-only',
+      'space clone must keep logical keys and copy only the current revision',
+    );
+    const found = await service.search({
+      query: '30 days',
+      spaceIds: ['product-knowledge-draft'],
+      mode: 'lexical',
+    });
+    assert(
+      found.results.some((entry) => entry.memory.id === clonedPolicyId),
+      'cloned memories must be searchable from the reused segments',
+    );
+    assert(
+      service.getMemory(report.memoryIdMap[archived.id]).state === 'archived' &&
+        report.memoryIdMap[duplicate.id] === undefined &&
+        service.getMemory(policy.id).spaceId === 'product-knowledge',
+      'space clone must keep states, skip merged duplicates and leave the source untouched',
+    );
+
+    const full = await service.cloneSpace({
+      sourceSpaceId: 'product-knowledge',
+      targetSpaceId: 'product-knowledge-history',
+      includeHistory: true,
+    });
+    assert(
+      full.memories === 4 && full.revisions === 5 && full.indexed === 0,
+      'history clones must copy every memory and revision',
+    );
+    const historyPolicy = service.getMemory(full.memoryIdMap[policy.id]);
+    assert(
+      historyPolicy.revision.revisionNumber === 2 &&
+        service.getMemory(full.memoryIdMap[duplicate.id]).canonicalMemoryId === historyPolicy.id &&
+        service.getMemory(full.memoryIdMap[archived.id]).state === 'archived',
+      'history clones must preserve revisions, merges and states',
+    );
+
+    const earlier = await service.cloneSpace({
+      sourceSpaceId: 'product-knowledge',
+      targetSpaceId: 'product-knowledge-earlier',
+      atTime: policy.revision.recordedAt,
+    });
+    assert(
+      earlier.memories === 1 &&
+        service.getMemory(earlier.memoryIdMap[policy.id]).revision.contentHash ===
+          policy.revision.contentHash,
+      'atTime clones must copy the memories as recorded then',
+    );
+
+    let existingRejected = false;
+    try {
+      await service.cloneSpace({
+        sourceSpaceId: 'product-knowledge',
+        targetSpaceId: 'product-knowledge-draft',
+      });
+    } catch (error) {
+      existingRejected = String(error).includes('already exists');
+    }
+    assert(existingRejected, 'space clone must not write into an existing space');
+  } finally {
+    await service.close();
+  }
+}
+
+async function probeGraph(config) {
+  const graphConfig = { ...config, databasePath: path.join(dataDir, 'graph.db') };
+  const service = createMemoryService(graphConfig);
+  let checkout;
+  let database;
+  let orphan;
+  try {
+    service.createSpace({ id: 'architecture', name: 'Architecture' });
+    checkout = await service.createMemory({
+      spaceId: 'architecture',
+      title: 'Checkout "v2"',
+      kind: 'service',
+      content: 'Checkout service.',
+      tags: ['payments'],
+    });
+    database = await service.createMemory({
+      spaceId: 'architecture',
+      title: 'Orders <db>',
+      kind: 'database',
+      content: 'Orders database.',
+    });
+    orphan = await service.createMemory({
+      spaceId: 'architecture',
+      title: 'Unrelated note',
+      content: 'No links.',
+    });
+    service.createLink({ fromMemoryId: checkout.id, toMemoryId: database.id, relation: 'reads' });
+    service.createLink({ fromMemoryId: checkout.id, toMemoryId: database.id, relation: 'writes' });
+  } finally {
+    await service.close();
+  }
+
+  const graph = (subcommand, ...options) =>
+    spawnSync(
+      process.execPath,
+      [
+        path.join(root, 'dist', 'cli.js'),
+        'graph',
+        subcommand,
+        '--space',
+        'architecture',
+        ...options,
+      ],
+      {
+        cwd: root,
+        env: {
+          ...process.env,
+          SIMPLE_MEMORY_DATA_DIR: dataDir,
+          SIMPLE_MEMORY_DB_PATH: graphConfig.databasePath,
+          SIMPLE_MEMORY_MODELS: 'disabled',
+        },
+        encoding: 'utf8',
+      },
+    );
+  const jsonl = graph('export', '--format', 'jsonl', '--relation', 'writes');
+  assert(jsonl.status === 0, 'memoryctl graph export must succeed');
+  const records = jsonl.stdout
+    .trim()
+    .split('\n')
+    .map((line) => JSON.parse(line));
+  assert(
+    records.filter((record) => record.type === 'node').length === 3 &&
+      records
+        .filter((record) => record.type === 'edge')
+        .map((edge) => edge.relation)
+        .join() === 'writes' &&
+      records.some((record) => record.id === orphan.id),
+    'graph export must emit every memory as a node and only links of the chosen relations',
+  );
+  const dot = graph('export', '--format', 'dot', '--kind', 'service', '--kind', 'database');
+  assert(
+    dot.stdout.startsWith('digraph "architecture" {') &&
+      dot.stdout.includes('label="Checkout \\"v2\\" (service)"') &&
+      dot.stdout.includes(`"${checkout.id}" -> "${database.id}" [label="reads"`) &&
+      !dot.stdout.includes(orphan.id),
+    'dot export must escape labels and filter memories by kind',
+  );
+  const graphml = graph('export', '--format', 'graphml', '--tag', 'payments');
+  assert(
+    graphml.stdout.includes('Checkout &quot;v2&quot; (service)') &&
+      !graphml.stdout.includes('<edge'),
+    'graphml export must escape text and drop links to filtered-out memories',
+  );
+  const mermaid = graph('export', '--format', 'mermaid');
+  assert(
+    mermaid.stdout.includes('["Orders #lt;db#gt; (database)"]') &&
+      mermaid.stdout.includes('-->|"writes"|'),
+    'mermaid export must label nodes by title and kind and edges by relation',
+  );
+  const earlier = graph('export', '--format', 'jsonl', '--at', checkout.revision.recordedAt);
+  assert(
+    earlier.stdout.trim().split('\n').length === 2,
+    'graph export must show the space as recorded at the requested time',
+  );
+  const invalid = graph('export', '--format', 'svg');
+  assert(
+    invalid.status !== 0 && invalid.stderr.includes('Usage: memoryctl graph export'),
+    'graph export must reject unknown formats',
+  );
+
+  const statsOf = () => {
+    const stats = graph('stats', '--limit', '5');
+    assert(stats.status === 0, 'memoryctl graph stats must succeed');
+    return JSON.parse(stats.stdout);
+  };
+  const healthy = statsOf();
+  assert(
+    healthy.memoryCount === 3 &&
+      healthy.linkCount === 2 &&
+      healthy.componentCount === 2 &&
+      healthy.components[0].size === 2 &&
+      healthy.orphans.map((entry) => entry.memoryId).join() === orphan.id &&
+      healthy.hubs[0].memoryId === checkout.id &&
+      healthy.hubs[0].outDegree === 2 &&
+      healthy.hubs[0].centrality === 1 &&
+      healthy.relations.map((entry) => `${entry.relation}:${entry.count}`).join() ===
+        'reads:1,writes:1',
+    'graph stats must report components, orphans, hubs and relation counts',
+  );
+  const archiving = createMemoryService(graphConfig);
+  try {
+    archiving.setState(database.id, 'archived');
+  } finally {
+    await archiving.close();
+  }
+  const dangling = statsOf();
+  assert(
+    dangling.danglingLinkCount === 2 &&
+      dangling.danglingLinks[0].inactiveEndpoints[0].memoryId === database.id &&
+      dangling.orphanCount === 2 &&
+      dangling.hubs.length === 0,
+    'graph stats must report live links to archived memories as dangling',
+  );
+}
+
+async function probeUnmerge(config) {
+  const service = createMemoryService({
+    ...config,
+    databasePath: path.join(dataDir, 'unmerge.db'),
+  });
+  try {
+    service.createSpace({ id: 'unmerge', name: 'Unmerge' });
+    const [first, middle, canonical] = await Promise.all(
+      ['first', 'middle', 'canonical'].map((logicalKey) =>
+        service.createMemory({ spaceId: 'unmerge', logicalKey, content: `${logicalKey} note` }),
+      ),
+    );
+    service.mergeMemories({
+      canonicalMemoryId: middle.id,
+      expectedCanonicalRevisionId: middle.revision.id,
+      duplicates: [{ memoryId: first.id, expectedRevisionId: first.revision.id }],
+    });
+    const merge = service.mergeMemories({
+      canonicalMemoryId: canonical.id,
+      expectedCanonicalRevisionId: canonical.revision.id,
+      duplicates: [{ memoryId: middle.id, expectedRevisionId: middle.revision.id }],
+    });
+    assert(
+      service.getMemoryByLogicalKey('unmerge', 'first').memory.id === canonical.id &&
+        service.getMemory(canonical.id).mergedMemoryCount === 2,
+      'a chained merge must redirect earlier duplicates to the latest canonical memory',
+    );
+
+    const unmerge = service.unmergeMemories({ memoryId: middle.id, reason: 'Different topics' });
+    assert(
+      unmerge.operationId === merge.operationId &&
+        unmerge.canonicalMemory.mergedMemoryCount === 0 &&
+        unmerge.releasedRedirectCount === 2,
+      'unmerge must release the duplicate and redirects inherited through it',
+    );
+    const restored = service.getMemoryByLogicalKey('unmerge', 'middle');
+    const fallback = service.getMemoryByLogicalKey('unmerge', 'first');
+    assert(
+      !restored.redirected &&
+        restored.memory.state === 'active' &&
+        restored.memory.mergedMemoryCount === 1 &&
+        fallback.memory.id === middle.id,
+      'released duplicates must become active and keep their own earlier merges',
+    );
+    assert(
+      service.getMemoryByLogicalKey('unmerge', 'first', merge.createdAt).memory.id === canonical.id,
+      'historical reads must still see the merge as it was',
+    );
+    const snapshot = service.exportSnapshot({ spaceIds: ['unmerge'] });
+    assert(
+      snapshot.mergeOperations.some((operation) => operation.id === merge.operationId) &&
+        snapshot.redirectEvents.filter((event) => event.releasedAt).length === 2,
+      'exports must keep the merge and record when its redirects were released',
+    );
+  } finally {
+    await service.close();
+  }
 }
 
 async function run() {
@@ -150,6 +1063,13 @@ async function run() {
     await service.close();
   }
 
+  await probeSnapshotImport(config);
+  await probeChangeFeed(config);
+  await probeMoveRelationTypes(config);
+  await probeMemoryExpiry(config);
+  await probeSpaceClone(config);
+  await probeGraph(config);
+  await probeUnmerge(config);
   probeInvalidConfiguration();
   probeCliSurface();
   return {
@@ -158,6 +1078,12 @@ async function run() {
     restoreOwnershipGuard: true,
     invalidRestoreValidation: true,
     strictConfiguration: true,
+    snapshotImport: true,
+    changeFeed: true,
+    moveRelationTypes: true,
+    memoryExpiry: true,
+    graph: true,
+    unmerge: true,
     cliSurface: true,
   };
 }
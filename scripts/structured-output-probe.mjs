@@ -66,7 +66,7 @@ try {
   await client.connect(transport);
   const listed = await client.listTools(undefined, { cacheMode: 'refresh' });
   advertisedTools = new Map(listed.tools.map((tool) => [tool.name, tool]));
-  assert.equal(advertisedTools.size, 21, 'all Simple Memory tools must be advertised');
+  assert.equal(advertisedTools.size, 51, 'all Simple Memory tools must be advertised');
   for (const tool of advertisedTools.values()) {
     assert(tool.outputSchema, `${tool.name} must advertise outputSchema`);
     z.fromJSONSchema(tool.outputSchema);
@@ -88,12 +88,54 @@ try {
     name: 'Structured output probe',
     description: 'Exercises every MCP tool output contract.',
     metadata: { fixture: true },
+    expiryAction: 'delete',
   });
   const spaces = await call('space_list', {
     id: space.id,
     includeMetadata: true,
   });
   assert.deepEqual(spaces.items[0]?.metadata, { fixture: true }, 'space metadata opt-in');
+  assert.equal(spaces.items[0]?.expiryAction, 'delete', 'non-default expiry policy output');
+  const updatedSpace = await call('space_update', {
+    spaceId: space.id,
+    expectedRevisionNumber: spaces.items[0]?.revisionNumber,
+    description: 'Exercises every MCP tool output contract, including space updates.',
+  });
+  assert.equal(updatedSpace.revisionNumber, 2, 'space update must advance the revision');
+
+  const decisionSchema = {
+    type: 'object',
+    properties: { decision: { type: 'string' } },
+    required: ['decision'],
+  };
+  await call('kind_define', {
+    spaceId: space.id,
+    kind: 'structured-decision',
+    schema: decisionSchema,
+    description: 'A recorded decision.',
+  });
+  const kinds = await call('kind_list', { spaceId: space.id });
+  assert.deepEqual(
+    kinds.items.map((item) => [item.kind, item.description]),
+    [['structured-decision', 'A recorded decision.']],
+    'kind list must summarize registered kinds',
+  );
+  const kind = await call('kind_get', { spaceId: space.id, kind: 'structured-decision' });
+  assert.deepEqual(kind.schema, decisionSchema, 'kind get must return the registered schema');
+  const relationType = await call('relation_define', {
+    spaceId: space.id,
+    relation: 'depends_on',
+    inverse: 'required_by',
+    cardinality: 'many-to-many',
+  });
+  assert.equal(relationType.inverse, 'required_by', 'relation define must echo the inverse name');
+  assert.equal(relationType.symmetric, undefined, 'compact relation output omits false symmetry');
+  const relationTypes = await call('relation_list', { spaceId: space.id });
+  assert.deepEqual(
+    relationTypes.items.map((item) => item.relation),
+    ['depends_on'],
+    'relation list must summarize defined relations',
+  );
 
   const canonical = await call('memory_create', {
     spaceId: space.id,
@@ -213,16 +255,70 @@ try {
     relation: 'duplicates',
     metadata: { fixture: true },
   });
+  const suggested = await call('memory_suggest_links', { memoryId: canonical.id });
+  assert.deepEqual(suggested.suggestions, [], 'link suggestions need current vectors');
+  const accepted = await call('memory_accept_link_suggestions', {
+    suggestions: [
+      {
+        fromMemoryId: canonical.id,
+        toMemoryId: duplicate.id,
+        relation: 'duplicates',
+        metadata: { fixture: true },
+      },
+      { fromMemoryId: canonical.id, toMemoryId: duplicate.id, relation: 'merged-into' },
+    ],
+  });
+  assert.deepEqual(
+    [accepted.linked, accepted.rejected, accepted.results[0]?.linkId],
+    [1, 1, link.id],
+    'accepting suggestions must reuse existing links and report rejected ones',
+  );
   const traversal = await call('memory_traverse', {
     memoryId: canonical.id,
     maxDepth: 1,
     explain: true,
   });
   assert.equal(traversal.items.length, 2, 'traversal must include root and linked memory');
+  const connection = await call('memory_path', {
+    fromMemoryId: canonical.id,
+    toMemoryId: duplicate.id,
+  });
+  assert.deepEqual(
+    connection.paths.map((path) => path.steps.map((step) => step.linkId)),
+    [[link.id]],
+    'path search must return the connecting link',
+  );
+  const updatedLink = await call('memory_link_update', {
+    linkId: link.id,
+    expectedRevisionNumber: link.revisionNumber,
+    validTo: '2099-01-01T00:00:00.000Z',
+  });
+  assert.equal(updatedLink.revisionNumber, 2, 'link update must advance the revision');
+  const linkHistory = await call('memory_link_history', { linkId: link.id });
+  assert.deepEqual(
+    linkHistory.items.map((item) => [item.revisionNumber, item.validTo]),
+    [
+      [1, undefined],
+      [2, '2099-01-01T00:00:00.000Z'],
+    ],
+    'link history must list every revision',
+  );
+  const graphStats = await call('memory_graph_stats', { spaceId: space.id });
+  assert.deepEqual(
+    graphStats.relations,
+    [{ relation: 'duplicates', count: 1 }],
+    'graph statistics must count links by relation',
+  );
+  assert.equal(graphStats.hubs[0]?.degree, 1, 'graph statistics must rank linked memories');
   await call('memory_unlink', { linkId: link.id });
 
   await call('memory_archive', { memoryId: duplicate.id });
   await call('memory_restore', { memoryId: duplicate.id });
+  const duplicates = await call('memory_find_duplicates', {
+    spaceId: space.id,
+    threshold: 0.5,
+  });
+  assert.equal(duplicates.scannedMemories, 2, 'duplicate detection must scan active memories');
   await call('memory_merge', {
     canonicalMemoryId: canonical.id,
     expectedCanonicalRevisionId: revised.revisionId,
@@ -239,6 +335,140 @@ try {
     logicalKey: 'structured/duplicate',
   });
   assert.equal(redirected.redirectedFromMemoryId, duplicate.id, 'logical-key redirect output');
+  const mergedDiff = await call('memory_diff', {
+    memoryId: duplicate.id,
+    fromRevisionId: duplicate.revisionId,
+  });
+  assert.deepEqual(
+    [mergedDiff.memoryId, mergedDiff.fromMemoryId, mergedDiff.toRevisionId],
+    [canonical.id, duplicate.id, revised.revisionId],
+    'merged memory diff must compare against the canonical current revision',
+  );
+
+  const exported = await call('space_export', { spaceIds: [space.id] });
+  assert.equal(exported.memories.length, 2, 'space export must include every space memory');
+  const imported = await call('space_import', {
+    snapshot: exported,
+    spaceIds: [space.id],
+    conflict: 'skip',
+  });
+  assert.equal(imported.memories.skipped, 2, 'space import must skip existing memories');
+  const cloned = await call('space_clone', {
+    sourceSpaceId: space.id,
+    targetSpaceId: `${space.id}-clone`,
+    includeHistory: true,
+  });
+  assert.equal(cloned.memories, 2, 'space clone must copy every space memory');
+
+  const changes = await call('memory_changes', { spaceIds: [space.id], limit: 500 });
+  assert(
+    changes.items.some((change) => change.type === 'merge' && change.memoryId === canonical.id),
+    'change feed must record merges',
+  );
+  const unmerged = await call('memory_unmerge', {
+    memoryId: duplicate.id,
+    reason: 'Structured output fixture unmerge.',
+  });
+  assert.deepEqual(
+    [unmerged.unmergedMemoryIds, unmerged.mergedMemoryCount],
+    [[duplicate.id], 0],
+    'unmerge output must release the duplicate',
+  );
+  const consistency = await call('memory_check_consistency', { spaceId: space.id });
+  assert.equal(consistency.checkedMemories, 2, 'consistency check must cover active memories');
+
+  const snoozed = await call('memory_review', {
+    memoryId: canonical.id,
+    expectedRevisionId: revised.revisionId,
+    action: 'snooze',
+    reviewAfter: '2000-01-01T00:00:00.000Z',
+  });
+  assert.equal(snoozed.revised, true, 'snoozing must revise reviewAfter');
+  const reviewQueue = await call('memory_review_queue', { spaceIds: [space.id] });
+  assert.deepEqual(
+    reviewQueue.items.map((item) => [item.id, item.reviewReasons]),
+    [[canonical.id, ['review-due']]],
+    'review queue must list the due memory',
+  );
+  const reviewed = await call('memory_review', {
+    memoryId: canonical.id,
+    expectedRevisionId: snoozed.revisionId,
+    action: 'reviewed',
+  });
+  assert.equal(reviewed.reviewAfter, undefined, 'reviewing must clear an elapsed reviewAfter');
+  assert.equal(typeof reviewed.feedbackId, 'string', 'reviewing must record feedback');
+  const reverted = await call('memory_revert', {
+    memoryId: canonical.id,
+    revisionId: revised.revisionId,
+    expectedRevisionId: reviewed.revisionId,
+  });
+  assert.equal(reverted.revertedToRevisionId, revised.revisionId, 'revert output');
+  const patched = await call('memory_patch', {
+    memoryId: canonical.id,
+    expectedRevisionId: reverted.revisionId,
+    content: { format: 'json-patch', operations: [{ op: 'replace', path: '/version', value: 3 }] },
+    addTags: ['patched'],
+  });
+  const rebased = await call('memory_patch', {
+    memoryId: canonical.id,
+    expectedRevisionId: reverted.revisionId,
+    metadata: { format: 'merge-patch', patch: { reviewer: 'probe' } },
+    rebase: true,
+  });
+  assert.equal(rebased.rebasedOnRevisionId, patched.revisionId, 'disjoint patch must rebase');
+  const patchedMemory = await call('memory_get', { memoryId: canonical.id });
+  assert.deepEqual(
+    [patchedMemory.revision.content, patchedMemory.revision.metadata, patchedMemory.revision.tags],
+    [
+      { marker: 'STRUCTURED-OUTPUT-PROBE', version: 3 },
+      { owner: 'probe', reviewer: 'probe' },
+      ['patched', 'structured-output'],
+    ],
+    'patches must apply on top of the current revision',
+  );
+
+  const batch = await call('memory_batch', {
+    operations: [
+      { op: 'create', spaceId: space.id, title: 'Batch note', content: 'Structured batch note.' },
+      { op: 'create', spaceId: space.id, content: 'Structured batch follow-up.' },
+      { op: 'link', fromMemoryId: { $ref: 0 }, toMemoryId: { $ref: 1 }, relation: 'follows' },
+    ],
+    idempotencyKey: 'structured-output-batch',
+  });
+  assert.deepEqual(
+    batch.items.map((item) => item.op),
+    ['create', 'create', 'link'],
+    'batch output must report every operation in order',
+  );
+
+  const tags = await call('memory_tags', { spaceIds: [space.id], prefix: 'pat' });
+  assert.deepEqual(
+    tags.items,
+    [{ tag: 'patched', spaceId: space.id, memoryCount: 1 }],
+    'tag catalogue must count active memories per tag',
+  );
+  const renamed = await call('tag_rename', { spaceId: space.id, tag: 'patched', newTag: 'edited' });
+  assert.equal(renamed.memoriesUpdated, 1, 'tag rename must revise the tagged memory');
+  const mergedTags = await call('tag_merge', {
+    spaceId: space.id,
+    tags: ['edited'],
+    into: 'structured-output',
+  });
+  assert.equal(mergedTags.memoriesUpdated, 1, 'tag merge must revise the tagged memory');
+
+  const targetSpace = await call('space_create', { name: 'Structured output target' });
+  const copied = await call('memory_copy', {
+    memoryId: canonical.id,
+    targetSpaceId: targetSpace.id,
+  });
+  assert.equal(copied.sourceMemoryId, canonical.id, 'copy output must name its source');
+  const moved = await call('memory_move', {
+    memoryId: copied.id,
+    targetSpaceId: space.id,
+    onKeyConflict: 'drop-key',
+  });
+  assert.deepEqual(moved.clearedLogicalKeyMemoryIds, [copied.id], 'move must report dropped keys');
+  await call('memory_delete', { memoryId: copied.id });
 
   await call('space_delete', { spaceId: space.id });
   await call('space_restore', { spaceId: space.id });
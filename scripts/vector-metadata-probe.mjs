@@ -4,6 +4,7 @@ import { mkdtempSync, rmSync } from 'node:fs';
 import { tmpdir } from 'node:os';
 import path from 'node:path';
 import { loadConfig } from '../dist/config.js';
+import { Indexer } from '../dist/indexing/indexer.js';
 import { Logger } from '../dist/logger.js';
 import { MemoryStore } from '../dist/storage/memory-store.js';
 
@@ -30,13 +31,13 @@ function segmentFor(memory, text) {
   };
 }
 
-function run() {
+async function run() {
   const config = loadConfig();
   const store = new MemoryStore(config, new Logger('error'));
   try {
     assert(store.vectorAvailable, 'sqlite-vec should be available');
     const profileId = store.ensureModelProfile({
-      provider: 'probe',
+      provider: 'huggingface',
       model: 'probe',
       modelRevision: '1',
       dimensions: config.embeddingDimension,
@@ -59,6 +60,111 @@ function run() {
       assert(store.setState(memory.id, 'active').state === 'active', 'restore should succeed');
     }
 
+    store.createSpace({ id: 'neighbours', name: 'Neighbours' });
+    const axis = (weights) => {
+      const vector = new Array(config.embeddingDimension).fill(0);
+      const length = Math.hypot(...weights);
+      weights.forEach((weight, index) => {
+        vector[index] = weight / length;
+      });
+      return vector;
+    };
+    const [subject, close, distant] = [
+      [1, 0],
+      [1, 0.2],
+      [0, 1],
+    ].map((weights, index) => {
+      const memory = store.createMemory({
+        spaceId: 'neighbours',
+        content: `Neighbour fixture ${String(index)}.`,
+      });
+      const segment = segmentFor(memory, String(memory.revision.content));
+      store.indexSegments(memory.currentRevisionId, [segment], null, []);
+      store.indexVectors([segment], [axis(weights)], profileId);
+      return memory;
+    });
+    const neighbours = store.linkNeighbours(subject.id, 5);
+    assert(
+      neighbours.semanticAvailable &&
+        neighbours.neighbours.map((entry) => entry.memoryId).join() ===
+          [close.id, distant.id].join() &&
+        neighbours.neighbours[0].similarity > 0.98,
+      'link neighbours should rank memories by current vector similarity',
+    );
+    store.createLink({ fromMemoryId: close.id, toMemoryId: subject.id, relation: 'related_to' });
+    assert(
+      store
+        .linkNeighbours(subject.id, 5)
+        .neighbours.map((entry) => entry.memoryId)
+        .join() === distant.id,
+      'link neighbours should leave out memories that are already linked',
+    );
+
+    let embeddedTexts = 0;
+    const models = {
+      countTokens: async (texts) => texts.map((text) => text.split(/\s+/u).length),
+      embedDocuments: async (texts) => {
+        embeddedTexts += texts.length;
+        return texts.map((text) => axis(text.includes('harbour') ? [1, 0.05] : [0, 0, 1]));
+      },
+      embeddingProfile: async () => ({
+        embedding_model: 'probe',
+        embedding_revision: '1',
+        embedding_dimension: config.embeddingDimension,
+        query_instruction_hash: 'probe',
+      }),
+    };
+    const indexer = new Indexer(
+      { ...config, modelsEnabled: true },
+      store,
+      models,
+      new Logger('error'),
+    );
+    const hooked = [];
+    indexer.onSemanticIndex(async (record) => {
+      hooked.push(record.id);
+    });
+    const queued = store.createMemory({ spaceId: 'neighbours', content: 'Queued hook fixture.' });
+    const indexed = await indexer.indexRevision(queued.currentRevisionId);
+    assert(
+      indexed.indexStatus === 'ready' && hooked.length === 0,
+      'post-index hooks should run after the indexing call returns',
+    );
+    await indexer.drainPostIndex();
+    assert(hooked.join() === queued.id, 'draining should run every queued post-index hook');
+
+    const input = { spaceId: 'neighbours', content: 'An unrelated draft about harbour tides.' };
+    const draft = await indexer.indexDraft(store.draftProjection(input));
+    const draftMatches = store.similarToDraft(input, draft);
+    assert(
+      draft.vectors?.modelProfileId === profileId &&
+        draftMatches.length === 2 &&
+        draftMatches[0].memoryId === subject.id &&
+        draftMatches[0].semanticSimilarity > 0.99 &&
+        draftMatches[0].contentHashMatch === false,
+      'unsaved drafts should be scored against current vectors before they are stored',
+    );
+    assert(
+      store.similarToDraft(input, { ...draft, vectors: null }).length === 0,
+      'drafts without vectors should fall back to lexical evidence',
+    );
+    const embeddedBeforeIndexing = embeddedTexts;
+    const drafted = store.createMemory(input);
+    const draftIndexed = await indexer.indexRevision(
+      drafted.currentRevisionId,
+      false,
+      drafted,
+      undefined,
+      draft,
+    );
+    assert(
+      draftIndexed.indexStatus === 'ready' &&
+        embeddedTexts === embeddedBeforeIndexing &&
+        store.segmentsForRevision(drafted.currentRevisionId).length === draft.segments.length,
+      'indexing a checked draft should reuse its segments and vectors',
+    );
+    await indexer.drainPostIndex();
+
     return { status: 'ok', fixtures: fixtures.length, vectorAvailable: store.vectorAvailable };
   } finally {
     store.close();
@@ -67,7 +173,7 @@ function run() {
 
 let outcome;
 try {
-  outcome = run();
+  outcome = await run();
 } finally {
   rmSync(dataDir, { recursive: true, force: true, maxRetries: 5, retryDelay: 250 });
 }
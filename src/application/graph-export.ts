@@ -0,0 +1,129 @@
+import type { MemoryGraph, MemoryGraphFormat, MemoryGraphNode } from '../domain/types.js';
+
+export const memoryGraphFormats = ['dot', 'graphml', 'mermaid', 'jsonl'] as const;
+
+export const memoryGraphMimeTypes: Record<MemoryGraphFormat, string> = {
+  dot: 'text/vnd.graphviz',
+  graphml: 'application/graphml+xml',
+  mermaid: 'text/vnd.mermaid',
+  jsonl: 'application/jsonl',
+};
+
+export function isMemoryGraphFormat(value: string): value is MemoryGraphFormat {
+  return (memoryGraphFormats as readonly string[]).includes(value);
+}
+
+function nodeLabel(node: MemoryGraphNode): string {
+  const title = node.title?.trim() || node.id;
+  return node.kind ? `${title} (${node.kind})` : title;
+}
+
+function dotString(value: string): string {
+  return `"${value.replace(/\\/gu, '\\\\').replace(/"/gu, '\\"').replace(/\r?\n/gu, '\\n')}"`;
+}
+
+function renderDot(graph: MemoryGraph): string {
+  const lines = [`digraph ${dotString(graph.spaceId)} {`];
+  for (const node of graph.nodes) {
+    const attributes = [`label=${dotString(nodeLabel(node))}`];
+    if (node.kind) attributes.push(`kind=${dotString(node.kind)}`);
+    lines.push(`  ${dotString(node.id)} [${attributes.join(', ')}];`);
+  }
+  for (const edge of graph.edges) {
+    lines.push(
+      `  ${dotString(edge.fromMemoryId)} -> ${dotString(edge.toMemoryId)} [label=${dotString(edge.relation)}, id=${dotString(edge.id)}];`,
+    );
+  }
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+}
+
+function xmlText(value: string): string {
+  // XML 1.0 cannot carry most control characters, even as character references.
+  return value
+    .replace(/(?![\t\n\r])\p{Cc}/gu, '')
+    .replace(/&/gu, '&amp;')
+    .replace(/</gu, '&lt;')
+    .replace(/>/gu, '&gt;')
+    .replace(/"/gu, '&quot;')
+    .replace(/'/gu, '&apos;');
+}
+
+function renderGraphml(graph: MemoryGraph): string {
+  const data = (key: string, value: string | null) =>
+    value === null ? [] : [`<data key="${key}">${xmlText(value)}</data>`];
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="title" for="node" attr.name="title" attr.type="string"/>',
+    '  <key id="kind" for="node" attr.name="kind" attr.type="string"/>',
+    '  <key id="relation" for="edge" attr.name="relation" attr.type="string"/>',
+    `  <graph id="${xmlText(graph.spaceId)}" edgedefault="directed">`,
+  ];
+  for (const node of graph.nodes) {
+    const values = [
+      ...data('label', nodeLabel(node)),
+      ...data('title', node.title),
+      ...data('kind', node.kind),
+    ];
+    lines.push(`    <node id="${xmlText(node.id)}">${values.join('')}</node>`);
+  }
+  for (const edge of graph.edges) {
+    lines.push(
+      `    <edge id="${xmlText(edge.id)}" source="${xmlText(edge.fromMemoryId)}" target="${xmlText(edge.toMemoryId)}">${data('relation', edge.relation).join('')}</edge>`,
+    );
+  }
+  lines.push('  </graph>', '</graphml>');
+  return `${lines.join('\n')}\n`;
+}
+
+function mermaidString(value: string): string {
+  const escaped = value
+    .replace(/\s+/gu, ' ')
+    .replace(/#/gu, '#35;')
+    .replace(/"/gu, '#quot;')
+    .replace(/</gu, '#lt;')
+    .replace(/>/gu, '#gt;');
+  return `"${escaped}"`;
+}
+
+function renderMermaid(graph: MemoryGraph): string {
+  // Memory ids are not valid Mermaid identifiers everywhere, so nodes get positional names.
+  const names = new Map(graph.nodes.map((node, index) => [node.id, `n${String(index)}`]));
+  const lines = ['graph LR'];
+  for (const node of graph.nodes) {
+    lines.push(`  ${names.get(node.id) ?? ''}[${mermaidString(nodeLabel(node))}]`);
+  }
+  for (const edge of graph.edges) {
+    const from = names.get(edge.fromMemoryId);
+    const to = names.get(edge.toMemoryId);
+    if (from && to) lines.push(`  ${from} -->|${mermaidString(edge.relation)}| ${to}`);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+function renderJsonl(graph: MemoryGraph): string {
+  const records: unknown[] = [
+    { type: 'graph', spaceId: graph.spaceId, atTime: graph.atTime, truncated: graph.truncated },
+    ...graph.nodes.map((node) => ({ type: 'node', ...node })),
+    ...graph.edges.map((edge) => ({
+      type: 'edge',
+      id: edge.id,
+      fromMemoryId: edge.fromMemoryId,
+      toMemoryId: edge.toMemoryId,
+      relation: edge.relation,
+      validFrom: edge.validFrom,
+      validTo: edge.validTo,
+    })),
+  ];
+  return records.map((record) => `${JSON.stringify(record)}\n`).join('');
+}
+
+/** Renders memories as labelled nodes and links as relation-typed directed edges. */
+export function renderMemoryGraph(graph: MemoryGraph, format: MemoryGraphFormat): string {
+  if (format === 'dot') return renderDot(graph);
+  if (format === 'graphml') return renderGraphml(graph);
+  if (format === 'mermaid') return renderMermaid(graph);
+  return renderJsonl(graph);
+}
@@ -1,28 +1,78 @@
 import { createHash } from 'node:crypto';
 import * as z from 'zod/v4';
 import type { AppConfig } from '../config.js';
+import { MemoryContentSchemaError, MemoryDuplicateError } from '../domain/errors.js';
+import { compileJsonSchema } from '../domain/json.js';
 import type {
   JsonObject,
+  JsonValue,
+  MemoryBatchInput,
+  MemoryBatchResult,
+  MemoryChangeFilters,
+  MemoryConflict,
+  MemoryConflictReason,
+  MemoryConsistencyOptions,
+  MemoryConsistencyReport,
+  MemoryCopyInput,
   MemoryCreateInput,
+  MemoryDedupeMode,
+  MemoryDeleteResult,
+  MemoryDuplicateMatch,
+  MemoryGraph,
+  MemoryGraphOptions,
+  MemoryGraphStats,
+  MemoryGraphStatsOptions,
   MemoryInput,
+  MemoryKindDefinition,
+  MemoryKindInput,
+  MemoryLink,
   MemoryLinkDirection,
+  MemoryLinkRevision,
+  MemoryLinkSuggestion,
+  MemoryLinkSuggestionAcceptance,
+  MemoryLinkSuggestionOptions,
+  MemoryLinkSuggestionOutcome,
+  MemoryLinkSuggestionReport,
+  MemoryLinkUpdateInput,
   MemoryListFilters,
+  MemoryMoveInput,
+  MemoryMoveResult,
+  MemoryPatchInput,
+  MemoryPathOptions,
+  MemoryPathResult,
   MemoryRecord,
+  MemoryRelationTypeDefinition,
+  MemoryRelationTypeInput,
+  MemoryReviewInput,
+  MemoryReviewQueueFilters,
+  MemoryReviewResult,
+  MemoryRevision,
+  MemoryTagFilters,
+  MemoryTagRewriteInput,
+  MemoryTagRewriteResult,
   MemoryTraversalEntry,
   MemoryTraversalOptions,
   MemoryTraversalPage,
   SearchOptions,
+  SpaceCloneInput,
+  SpaceCloneResult,
+  SpaceExpiryAction,
   SpaceListFilters,
+  SpaceRecord,
+  SpaceRevision,
+  SpaceUpdateInput,
 } from '../domain/types.js';
 import type { Indexer } from '../indexing/indexer.js';
 import type { Logger } from '../logger.js';
 import type { ModelClient } from '../models/model-client.js';
 import type { SearchEngine } from '../retrieval/search-engine.js';
 import type {
+  DraftIndex,
   EmbeddingGenerationProgress,
   EmbeddingIndexProfile,
   MemoryStore,
 } from '../storage/memory-store.js';
+import type { SnapshotImportOptions, SnapshotImportResult } from '../storage/snapshot.js';
 
 const traversalCursorSchema = z.object({
   offset: z.number().int().min(1).max(10_000),
@@ -34,6 +84,26 @@ const DEFAULT_TRAVERSAL_LIMIT = 20;
 const MAX_TRAVERSAL_LIMIT = 200;
 const MAX_TRAVERSAL_OFFSET = 10_000;
 const RANKED_TRAVERSAL_CANDIDATES = 500;
+const DEFAULT_PATH_DEPTH = 3;
+const DEFAULT_PATH_LIMIT = 3;
+const MAX_PATH_LIMIT = 20;
+const DEFAULT_PATH_FAN_OUT = 50;
+const MAX_PATH_FAN_OUT = 500;
+const DEFAULT_GRAPH_DEPTH = 2;
+const DEFAULT_ROOTED_GRAPH_LIMIT = 100;
+const MAX_ROOTED_GRAPH_LIMIT = 1_000;
+const DEFAULT_GRAPH_STATS_LIMIT = 20;
+const MAX_GRAPH_STATS_LIMIT = 200;
+const DEFAULT_CONSISTENCY_LIMIT = 20;
+const MAX_CONSISTENCY_LIMIT = 50;
+const DEFAULT_CONSISTENCY_NEIGHBORS = 5;
+const MAX_CONSISTENCY_NEIGHBORS = 20;
+const DEFAULT_CONFLICT_RELEVANCE = 0.5;
+const DEFAULT_LINK_SUGGESTION_LIMIT = 5;
+const MAX_LINK_SUGGESTION_LIMIT = 20;
+const AUTO_LINK_SUGGESTION_LIMIT = 3;
+const DEFAULT_SUGGESTED_RELATION = 'related_to';
+const AUTO_LINK_ACTOR = 'system:link-suggestions';
 
 function decodeTraversalCursor(cursor: string): z.infer<typeof traversalCursorSchema> {
   try {
@@ -78,6 +148,74 @@ function traversalRerankDocument(entry: MemoryTraversalEntry): string {
   return `${path}${entry.memory.revision.searchableText}`.slice(0, 16_000);
 }
 
+function consistencyDocument(memory: MemoryRecord): string {
+  const validity: string[] = [];
+  if (memory.revision.validFrom) validity.push(`Valid from: ${memory.revision.validFrom}`);
+  if (memory.revision.validTo) validity.push(`Valid to: ${memory.revision.validTo}`);
+  return [...validity, memory.revision.searchableText].join('\n').slice(0, 8_000);
+}
+
+function linkSuggestionDocument(memory: MemoryRecord): string {
+  return memory.revision.searchableText.slice(0, 8_000);
+}
+
+/**
+ * Picks the first defined relation whose endpoint kinds fit the pair, in either direction;
+ * relations without kind restrictions say nothing about the pair and are skipped.
+ */
+function suggestedRelation(
+  subject: MemoryRecord,
+  other: MemoryRecord,
+  definitions: MemoryRelationTypeDefinition[],
+): { relation: string; reversed: boolean } {
+  const accepts = (kinds: string[], memory: MemoryRecord) =>
+    kinds.length === 0 || (memory.revision.kind !== null && kinds.includes(memory.revision.kind));
+  for (const definition of definitions) {
+    if (definition.fromKinds.length === 0 && definition.toKinds.length === 0) continue;
+    if (accepts(definition.fromKinds, subject) && accepts(definition.toKinds, other)) {
+      return { relation: definition.relation, reversed: false };
+    }
+    if (accepts(definition.fromKinds, other) && accepts(definition.toKinds, subject)) {
+      return { relation: definition.relation, reversed: true };
+    }
+  }
+  return { relation: DEFAULT_SUGGESTED_RELATION, reversed: false };
+}
+
+function scalarLeaves(
+  value: JsonValue,
+  path = '',
+  leaves = new Map<string, string>(),
+): Map<string, string> {
+  if (value === null || typeof value !== 'object') {
+    leaves.set(path, JSON.stringify(value));
+    return leaves;
+  }
+  const entries = Array.isArray(value)
+    ? value.map((item, index) => [String(index), item] as const)
+    : Object.entries(value);
+  for (const [key, item] of entries) {
+    scalarLeaves(item, `${path}/${key.replaceAll('~', '~0').replaceAll('/', '~1')}`, leaves);
+  }
+  return leaves;
+}
+
+/** JSON Pointers present in both contents whose values differ. */
+function differingPaths(left: JsonValue, right: JsonValue): string[] {
+  const rightLeaves = scalarLeaves(right);
+  return [...scalarLeaves(left)]
+    .filter(([path, value]) => rightLeaves.has(path) && rightLeaves.get(path) !== value)
+    .map(([path]) => path);
+}
+
+function validityOverlaps(left: MemoryRevision, right: MemoryRevision): boolean {
+  const startsBeforeEnd = (validFrom: string | null, validTo: string | null) =>
+    validFrom === null || validTo === null || validFrom < validTo;
+  return (
+    startsBeforeEnd(left.validFrom, right.validTo) && startsBeforeEnd(right.validFrom, left.validTo)
+  );
+}
+
 export class MemoryService {
   public constructor(
     private readonly config: AppConfig,
@@ -86,13 +224,19 @@ export class MemoryService {
     private readonly searchEngine: SearchEngine,
     private readonly models: ModelClient,
     private readonly logger: Logger,
-  ) {}
+  ) {
+    const autoLinkMinScore = config.autoLinkMinScore;
+    if (autoLinkMinScore !== null) {
+      indexer.onSemanticIndex((record) => this.autoLink(record, autoLinkMinScore));
+    }
+  }
 
   public createSpace(input: {
     id?: string;
     name: string;
     description?: string;
     metadata?: JsonObject;
+    expiryAction?: SpaceExpiryAction;
   }): ReturnType<MemoryStore['createSpace']> {
     return this.store.createSpace(input);
   }
@@ -101,6 +245,25 @@ export class MemoryService {
     return this.store.listSpaces(filters);
   }
 
+  public getSpace(spaceId: string): SpaceRecord | null {
+    return this.store.getSpace(spaceId);
+  }
+
+  public getSpaceHistory(spaceId: string): SpaceRevision[] {
+    return this.store.getSpaceHistory(spaceId);
+  }
+
+  public updateSpace(input: SpaceUpdateInput, actor: string | null = null): SpaceRecord {
+    return this.store.updateSpace(input, actor);
+  }
+
+  public async cloneSpace(
+    input: SpaceCloneInput,
+  ): Promise<SpaceCloneResult & { indexed: number; failed: number }> {
+    const cloned = this.store.cloneSpace(input);
+    return { ...cloned, ...(await this.indexer.indexPending()) };
+  }
+
   public spaceState(spaceId: string): ReturnType<MemoryStore['spaceState']> {
     return this.store.spaceState(spaceId);
   }
@@ -121,21 +284,81 @@ export class MemoryService {
     return this.store.linkSpaceId(linkId);
   }
 
+  public defineKind(input: MemoryKindInput): MemoryKindDefinition {
+    return this.store.defineKind(input);
+  }
+
+  public getKind(spaceId: string, kind: string): MemoryKindDefinition | null {
+    return this.store.getKind(spaceId, kind);
+  }
+
+  public listKinds(spaceId: string): MemoryKindDefinition[] {
+    return this.store.listKinds(spaceId);
+  }
+
+  public defineRelationType(input: MemoryRelationTypeInput): MemoryRelationTypeDefinition {
+    return this.store.defineRelationType(input);
+  }
+
+  public listRelationTypes(spaceId: string): MemoryRelationTypeDefinition[] {
+    return this.store.listRelationTypes(spaceId);
+  }
+
+  private assertKindContent(spaceId: string, input: MemoryInput): void {
+    if (input.kind === undefined) return;
+    const definition = this.store.getKind(spaceId, input.kind);
+    if (!definition) return;
+    const issues = compileJsonSchema(definition.schema)(input.content);
+    if (issues.length > 0) {
+      throw new MemoryContentSchemaError({ spaceId, kind: input.kind, issues });
+    }
+  }
+
+  /**
+   * With dedupe reject, the memory is segmented, embedded and compared against its space before
+   * anything is stored, a likely duplicate is refused, and indexing reuses those vectors. With warn, it is compared once indexed, so the stored segment
+   * vectors are reused, and the matches are returned with it.
+   */
   public async createMemory(
     input: MemoryCreateInput,
     actor: string | null = null,
-  ): Promise<MemoryRecord> {
+    options: { dedupe?: MemoryDedupeMode } = {},
+  ): Promise<MemoryRecord & { similarMemories?: MemoryDuplicateMatch[] }> {
+    const spaceId = input.spaceId ?? 'default';
+    this.assertKindContent(spaceId, input);
+    const replayed =
+      input.idempotencyKey !== undefined &&
+      this.store.idempotentMemoryId(spaceId, input.idempotencyKey) !== null;
+    const dedupe = options.dedupe ?? 'off';
+    let draft: DraftIndex | undefined;
+    if (dedupe === 'reject' && !replayed) {
+      draft = await this.indexer.indexDraft(this.store.draftProjection(input));
+      const similarMemories = this.store.similarToDraft(input, draft);
+      if (similarMemories.length > 0) {
+        throw new MemoryDuplicateError({ spaceId, similarMemories });
+      }
+    }
     const created = this.store.createMemory(input, actor);
+    let memory: MemoryRecord;
     try {
-      return await this.indexer.indexRevision(created.revision.id, false, created);
+      memory = await this.indexer.indexRevision(
+        created.revision.id,
+        false,
+        created,
+        undefined,
+        draft,
+      );
     } catch (error) {
       this.logger.error('Memory was stored but indexing failed', {
         memoryId: created.id,
         error: String(error),
       });
       this.store.markIndexStatus(created.revision.id, 'failed', String(error));
-      return this.store.getMemory(created.id);
+      memory = this.store.getMemory(created.id);
     }
+    if (dedupe !== 'warn' || replayed) return memory;
+    const similarMemories = this.store.similarMemories(memory.id);
+    return similarMemories.length > 0 ? { ...memory, similarMemories } : memory;
   }
 
   public async reviseMemory(
@@ -144,6 +367,8 @@ export class MemoryService {
     expectedRevisionId: string,
     actor: string | null = null,
   ): Promise<MemoryRecord> {
+    const spaceId = this.store.memorySpaceId(memoryId);
+    if (spaceId !== null) this.assertKindContent(spaceId, input);
     const revised = this.store.reviseMemory(memoryId, input, expectedRevisionId, actor);
     try {
       return await this.indexer.indexRevision(revised.revision.id, false, revised);
@@ -157,6 +382,103 @@ export class MemoryService {
     }
   }
 
+  public async runBatch(
+    input: MemoryBatchInput,
+    actor: string | null = null,
+  ): Promise<MemoryBatchResult & { indexed: number; failed: number }> {
+    // The space of each memory operation, following $ref chains through earlier operations.
+    const spaceIds: Array<string | null> = [];
+    for (const operation of input.operations) {
+      let spaceId: string | null = null;
+      if (operation.op === 'create') {
+        spaceId = operation.input.spaceId ?? 'default';
+        this.assertKindContent(spaceId, operation.input);
+      } else if (operation.op === 'revise' || operation.op === 'archive') {
+        spaceId =
+          typeof operation.memoryId === 'string'
+            ? this.store.memorySpaceId(operation.memoryId)
+            : (spaceIds[operation.memoryId.$ref] ?? null);
+        if (operation.op === 'revise' && spaceId) this.assertKindContent(spaceId, operation.input);
+      }
+      spaceIds.push(spaceId);
+    }
+    const batch = this.store.runBatch(input, actor);
+    return { ...batch, ...(await this.indexer.indexPending()) };
+  }
+
+  public async patchMemory(
+    input: MemoryPatchInput,
+    actor: string | null = null,
+  ): Promise<MemoryRecord> {
+    const spaceId = this.store.memorySpaceId(input.memoryId);
+    if (spaceId !== null) this.assertKindContent(spaceId, this.store.patchedInput(input));
+    const patched = this.store.patchMemory(input, actor);
+    try {
+      return await this.indexer.indexRevision(patched.revision.id, false, patched);
+    } catch (error) {
+      this.logger.error('Patch was stored but indexing failed', {
+        memoryId: input.memoryId,
+        error: String(error),
+      });
+      this.store.markIndexStatus(patched.revision.id, 'failed', String(error));
+      return this.store.getMemory(input.memoryId);
+    }
+  }
+
+  public async revertMemory(
+    memoryId: string,
+    revisionId: string,
+    expectedRevisionId: string,
+    actor: string | null = null,
+  ): Promise<MemoryRecord> {
+    const spaceId = this.store.memorySpaceId(memoryId);
+    if (spaceId !== null) {
+      this.assertKindContent(spaceId, this.store.revertedInput(memoryId, revisionId));
+    }
+    const reverted = this.store.revertMemory(memoryId, revisionId, expectedRevisionId, actor);
+    try {
+      return await this.indexer.indexRevision(reverted.revision.id, false, reverted);
+    } catch (error) {
+      this.logger.error('Revert was stored but indexing failed', {
+        memoryId,
+        error: String(error),
+      });
+      this.store.markIndexStatus(reverted.revision.id, 'failed', String(error));
+      return this.store.getMemory(memoryId);
+    }
+  }
+
+  public moveMemory(input: MemoryMoveInput): MemoryMoveResult {
+    const { revision } = this.store.getMemory(input.memoryId);
+    this.assertKindContent(input.targetSpaceId, {
+      content: revision.content,
+      ...(revision.kind !== null ? { kind: revision.kind } : {}),
+    });
+    return this.store.moveMemory(input);
+  }
+
+  public async copyMemory(
+    input: MemoryCopyInput,
+    actor: string | null = null,
+  ): Promise<MemoryRecord> {
+    const { revision } = this.store.getMemory(input.memoryId);
+    this.assertKindContent(input.targetSpaceId, {
+      content: revision.content,
+      ...(revision.kind !== null ? { kind: revision.kind } : {}),
+    });
+    const copied = this.store.copyMemory(input, actor);
+    try {
+      return await this.indexer.indexRevision(copied.revision.id, false, copied);
+    } catch (error) {
+      this.logger.error('Memory copy was stored but indexing failed', {
+        memoryId: copied.id,
+        error: String(error),
+      });
+      this.store.markIndexStatus(copied.revision.id, 'failed', String(error));
+      return this.store.getMemory(copied.id);
+    }
+  }
+
   public getMemory(
     memoryId: string,
     options: { revisionId?: string; atTime?: string } = {},
@@ -183,20 +505,222 @@ export class MemoryService {
     return this.store.getHistoryPage(memoryId, options);
   }
 
+  public diffRevisions(
+    memoryId: string,
+    fromRevisionId: string,
+    toRevisionId?: string,
+  ): ReturnType<MemoryStore['diffRevisions']> {
+    return this.store.diffRevisions(memoryId, fromRevisionId, toRevisionId);
+  }
+
   public listMemories(filters: MemoryListFilters): ReturnType<MemoryStore['listMemories']> {
     return this.store.listMemories(filters);
   }
 
+  public listTags(filters: MemoryTagFilters): ReturnType<MemoryStore['listTags']> {
+    return this.store.listTags(filters);
+  }
+
+  public async rewriteTags(
+    input: MemoryTagRewriteInput,
+    actor: string | null = null,
+  ): Promise<MemoryTagRewriteResult & { indexed: number; failed: number }> {
+    const rewritten = this.store.rewriteTags(input, actor);
+    return { ...rewritten, ...(await this.indexer.indexPending()) };
+  }
+
   public search(options: SearchOptions): ReturnType<SearchEngine['search']> {
     return this.searchEngine.search(options);
   }
 
-  public setState(memoryId: string, state: 'active' | 'archived'): MemoryRecord {
-    return this.store.setState(memoryId, state);
+  /**
+   * Finds close memories with search, scores each pair with the reranker in both directions,
+   * and reports pairs that overlap in validity yet hold different values at the same paths.
+   * Without the reranker only pairs sharing a title or kind are reported.
+   */
+  public async checkConsistency(
+    options: MemoryConsistencyOptions,
+  ): Promise<MemoryConsistencyReport> {
+    const neighbors = Math.min(
+      options.neighbors ?? DEFAULT_CONSISTENCY_NEIGHBORS,
+      MAX_CONSISTENCY_NEIGHBORS,
+    );
+    const minRelevance = options.minRelevance ?? DEFAULT_CONFLICT_RELEVANCE;
+    let subjects: MemoryRecord[];
+    if (options.memoryId) {
+      const memory = this.store.getMemory(options.memoryId);
+      if (memory.spaceId !== options.spaceId) {
+        throw new Error(`Memory not found in space ${options.spaceId}: ${options.memoryId}`);
+      }
+      subjects = [memory];
+    } else {
+      subjects = this.store
+        .listMemories({
+          spaceId: options.spaceId,
+          state: 'active',
+          limit: Math.min(options.limit ?? DEFAULT_CONSISTENCY_LIMIT, MAX_CONSISTENCY_LIMIT),
+        })
+        .items.map((item) => this.store.getMemory(item.id));
+    }
+
+    let degraded = false;
+    let degradationReason: string | undefined;
+    const compared = new Set<string>();
+    const conflicts: MemoryConflict[] = [];
+    for (const subject of subjects) {
+      const search = await this.searchEngine.search({
+        query: subject.revision.searchableText.slice(0, 1_000),
+        spaceIds: [subject.spaceId],
+        topK: neighbors + 1,
+        mode: 'fast',
+      });
+      if (search.degraded) {
+        degraded = true;
+        degradationReason ??= search.degradationReason;
+      }
+      const others: MemoryRecord[] = [];
+      for (const candidate of search.results) {
+        const pair = [subject.id, candidate.memory.id].sort().join(':');
+        if (candidate.memory.id === subject.id || compared.has(pair)) continue;
+        compared.add(pair);
+        others.push(this.store.getMemory(candidate.memory.id));
+      }
+      if (others.length === 0) continue;
+
+      let relevance: number[] | null = null;
+      try {
+        if (!this.config.modelsEnabled) throw new Error('Model inference is disabled');
+        const subjectDocument = consistencyDocument(subject);
+        const otherDocuments = others.map((other) => consistencyDocument(other));
+        // Both directions of every pair go to the reranker in one call.
+        const scores = await this.models.rerankPairs([
+          ...otherDocuments.map((document) => ({ query: subjectDocument, document })),
+          ...otherDocuments.map((query) => ({ query, document: subjectDocument })),
+        ]);
+        relevance = others.map((_, index) =>
+          Math.min(scores[index] ?? 0, scores[others.length + index] ?? 0),
+        );
+      } catch (error) {
+        degraded = true;
+        degradationReason ??= `Consistency reranking unavailable: ${String(error)}`;
+        this.logger.warn('Consistency check degraded to title and kind matching', {
+          error: String(error),
+        });
+      }
+
+      const links = this.store.linksFor(subject.id);
+      for (const [index, other] of others.entries()) {
+        const reasons: MemoryConflictReason[] = [];
+        const title = subject.revision.title?.trim().toLocaleLowerCase();
+        if (title && title === other.revision.title?.trim().toLocaleLowerCase()) {
+          reasons.push('same-title');
+        }
+        if (subject.revision.kind !== null && subject.revision.kind === other.revision.kind) {
+          reasons.push('same-kind');
+        }
+        if (!validityOverlaps(subject.revision, other.revision)) continue;
+        reasons.push('overlapping-validity');
+        const paths = differingPaths(subject.revision.content, other.revision.content);
+        if (paths.length === 0) continue;
+        reasons.push('different-values');
+        const score = relevance?.[index];
+        if (score === undefined) {
+          if (!reasons.includes('same-title') && !reasons.includes('same-kind')) continue;
+        } else if (score < minRelevance) {
+          continue;
+        }
+        const linkedRelations = links
+          .filter((link) => link.fromMemoryId === other.id || link.toMemoryId === other.id)
+          .map((link) => link.relation);
+        if (linkedRelations.includes('contradicts')) continue;
+        conflicts.push({
+          memoryId: subject.id,
+          revisionId: subject.revision.id,
+          otherMemoryId: other.id,
+          otherRevisionId: other.revision.id,
+          relevance: score === undefined ? null : Math.round(score * 1_000_000) / 1_000_000,
+          reasons,
+          differingPaths: paths.slice(0, 20),
+          linkedRelations: [...new Set(linkedRelations)],
+        });
+      }
+    }
+    conflicts.sort(
+      (left, right) =>
+        (right.relevance ?? 0) - (left.relevance ?? 0) ||
+        left.memoryId.localeCompare(right.memoryId) ||
+        left.otherMemoryId.localeCompare(right.otherMemoryId),
+    );
+    return {
+      checkedMemories: subjects.length,
+      comparedPairs: compared.size,
+      degraded,
+      ...(degradationReason ? { degradationReason } : {}),
+      conflicts,
+    };
   }
 
-  public deleteMemory(memoryId: string): boolean {
-    return this.store.deleteMemory(memoryId);
+  public reviewQueue(filters: MemoryReviewQueueFilters): ReturnType<MemoryStore['reviewQueue']> {
+    return this.store.reviewQueue(filters);
+  }
+
+  public async reviewMemory(
+    input: MemoryReviewInput,
+    actor: string | null = null,
+  ): Promise<MemoryReviewResult> {
+    const reviewed = this.store.reviewMemory(input, actor);
+    if (!reviewed.revised) return reviewed;
+    try {
+      const memory = await this.indexer.indexRevision(
+        reviewed.memory.revision.id,
+        false,
+        reviewed.memory,
+      );
+      return { ...reviewed, memory };
+    } catch (error) {
+      this.logger.error('Review revision was stored but indexing failed', {
+        memoryId: input.memoryId,
+        error: String(error),
+      });
+      this.store.markIndexStatus(reviewed.memory.revision.id, 'failed', String(error));
+      return { ...reviewed, memory: this.store.getMemory(input.memoryId) };
+    }
+  }
+
+  public setState(
+    memoryId: string,
+    state: 'active' | 'archived',
+    actor: string | null = null,
+  ): MemoryRecord {
+    return this.store.setState(memoryId, state, actor);
+  }
+
+  public expireMemories(dryRun = false): ReturnType<MemoryStore['expireMemories']> {
+    return this.store.expireMemories(new Date().toISOString(), dryRun);
+  }
+
+  public restoreMemory(memoryId: string, actor: string | null = null): MemoryRecord {
+    return this.store.restoreMemory(memoryId, actor);
+  }
+
+  public deleteMemory(
+    memoryId: string,
+    options: { force?: boolean; actor?: string | null } = {},
+  ): MemoryDeleteResult {
+    if (this.store.memorySpaceId(memoryId) === null)
+      throw new Error(`Memory not found: ${memoryId}`);
+    if (options.force) {
+      this.store.deleteMemory(memoryId);
+      return { memoryId, erased: true };
+    }
+    const memory = this.store.setState(memoryId, 'deleted', options.actor ?? null);
+    return {
+      memoryId,
+      erased: false,
+      purgeAfter: new Date(
+        Date.parse(memory.updatedAt) + this.config.deleteGraceDays * 86_400_000,
+      ).toISOString(),
+    };
   }
 
   public mergeMemories(
@@ -205,16 +729,210 @@ export class MemoryService {
     return this.store.mergeMemories(input);
   }
 
+  public findDuplicates(
+    filters: Parameters<MemoryStore['findDuplicates']>[0],
+  ): ReturnType<MemoryStore['findDuplicates']> {
+    return this.store.findDuplicates(filters);
+  }
+
+  public getMergeOperation(operationId: string): ReturnType<MemoryStore['getMergeOperation']> {
+    return this.store.getMergeOperation(operationId);
+  }
+
+  public unmergeMemories(
+    input: Parameters<MemoryStore['unmergeMemories']>[0],
+  ): ReturnType<MemoryStore['unmergeMemories']> {
+    return this.store.unmergeMemories(input);
+  }
+
   public createLink(
     input: Parameters<MemoryStore['createLink']>[0],
   ): ReturnType<MemoryStore['createLink']> {
     return this.store.createLink(input);
   }
 
+  public updateLink(input: MemoryLinkUpdateInput, actor: string | null = null): MemoryLink {
+    return this.store.updateLink(input, actor);
+  }
+
+  public getLink(linkId: string): MemoryLink {
+    return this.store.getLink(linkId);
+  }
+
+  public getLinkHistory(linkId: string, atTime?: string): MemoryLinkRevision[] {
+    return this.store.getLinkHistory(linkId, atTime);
+  }
+
+  /**
+   * Proposes links from a memory to its closest semantic neighbours in the same space. The
+   * reranker scores each neighbour against the memory; without it the vector similarity is used.
+   */
+  public async suggestLinks(
+    options: MemoryLinkSuggestionOptions,
+  ): Promise<MemoryLinkSuggestionReport> {
+    const subject = this.store.getMemory(options.memoryId);
+    if (subject.state !== 'active') {
+      throw new Error(`Only active memories can receive link suggestions: ${subject.id}`);
+    }
+    const limit = Math.max(
+      1,
+      Math.min(options.limit ?? DEFAULT_LINK_SUGGESTION_LIMIT, MAX_LINK_SUGGESTION_LIMIT),
+    );
+    const found = this.store.linkNeighbours(subject.id, limit * 2);
+    const neighbours = found.neighbours.map((neighbour) => ({
+      ...neighbour,
+      memory: this.store.getMemory(neighbour.memoryId),
+    }));
+    let rerankerScores: number[] | null = null;
+    let degradationReason: string | undefined;
+    if (neighbours.length > 0) {
+      try {
+        if (!this.config.modelsEnabled) throw new Error('Model inference is disabled');
+        rerankerScores = await this.models.rerank(
+          linkSuggestionDocument(subject),
+          neighbours.map((neighbour) => linkSuggestionDocument(neighbour.memory)),
+        );
+      } catch (error) {
+        degradationReason = `Link suggestion reranking unavailable: ${String(error)}`;
+        this.logger.warn('Link suggestions degraded to vector similarity', {
+          error: String(error),
+        });
+      }
+    }
+    const relation = options.relation?.trim();
+    const definitions = relation ? [] : this.store.listRelationTypes(subject.spaceId);
+    const suggestions = neighbours.map((neighbour, index): MemoryLinkSuggestion => {
+      const suggested = relation
+        ? { relation, reversed: false }
+        : suggestedRelation(subject, neighbour.memory, definitions);
+      const rerankerScore = rerankerScores?.[index];
+      return {
+        fromMemoryId: suggested.reversed ? neighbour.memoryId : subject.id,
+        toMemoryId: suggested.reversed ? subject.id : neighbour.memoryId,
+        relation: suggested.relation,
+        memoryId: neighbour.memoryId,
+        title: neighbour.memory.revision.title,
+        score: Math.round((rerankerScore ?? neighbour.similarity) * 10_000) / 10_000,
+        similarity: neighbour.similarity,
+        rerankerScore:
+          rerankerScore === undefined ? null : Math.round(rerankerScore * 10_000) / 10_000,
+      };
+    });
+    return {
+      memoryId: subject.id,
+      semanticAvailable: found.semanticAvailable,
+      degraded: degradationReason !== undefined,
+      ...(degradationReason !== undefined ? { degradationReason } : {}),
+      suggestions: suggestions
+        .filter((suggestion) => suggestion.score >= (options.minScore ?? 0))
+        .sort(
+          (left, right) => right.score - left.score || left.memoryId.localeCompare(right.memoryId),
+        )
+        .slice(0, limit),
+    };
+  }
+
+  /** Creates each accepted suggestion through createLink; one rejected link does not stop the rest. */
+  public acceptLinkSuggestions(
+    suggestions: MemoryLinkSuggestionAcceptance[],
+  ): MemoryLinkSuggestionOutcome[] {
+    return suggestions.map((suggestion) => {
+      try {
+        return { ...suggestion, link: this.store.createLink(suggestion), error: null };
+      } catch (error) {
+        return {
+          ...suggestion,
+          link: null,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    });
+  }
+
+  private async autoLink(record: MemoryRecord, minScore: number): Promise<void> {
+    // The hook runs after the indexing request returned, so the memory may have moved on since.
+    const current = this.store.getMemory(record.id);
+    if (current.state !== 'active' || current.revision.id !== record.revision.id) return;
+    const report = await this.suggestLinks({
+      memoryId: record.id,
+      limit: AUTO_LINK_SUGGESTION_LIMIT,
+      minScore,
+    });
+    // Raw vector similarity is too coarse to link without review.
+    if (report.degraded || report.suggestions.length === 0) return;
+    const outcomes = this.acceptLinkSuggestions(
+      report.suggestions.map((suggestion) => ({
+        fromMemoryId: suggestion.fromMemoryId,
+        toMemoryId: suggestion.toMemoryId,
+        relation: suggestion.relation,
+        metadata: { suggestedBy: AUTO_LINK_ACTOR, score: suggestion.score },
+      })),
+    );
+    this.logger.info('Linked memory to suggested neighbours', {
+      memoryId: record.id,
+      linked: outcomes.filter((outcome) => outcome.link !== null).length,
+      rejected: outcomes.filter((outcome) => outcome.error !== null).length,
+    });
+  }
+
   public unlink(linkId: string): ReturnType<MemoryStore['unlink']> {
     return this.store.unlink(linkId);
   }
 
+  public findPaths(options: MemoryPathOptions): MemoryPathResult {
+    const atTime = options.atTime ?? new Date().toISOString();
+    const found = this.store.findPaths({
+      fromMemoryId: options.fromMemoryId,
+      toMemoryId: options.toMemoryId,
+      maxDepth: Math.max(0, Math.min(options.maxDepth ?? DEFAULT_PATH_DEPTH, 5)),
+      atTime,
+      relations: [
+        ...new Set(
+          (options.relations ?? [])
+            .map((relation) => relation.trim().toLocaleLowerCase())
+            .filter(Boolean),
+        ),
+      ],
+      direction: options.direction ?? 'both',
+      maxPaths: Math.max(1, Math.min(options.limit ?? DEFAULT_PATH_LIMIT, MAX_PATH_LIMIT)),
+      maxFanOut: Math.max(1, Math.min(options.maxFanOut ?? DEFAULT_PATH_FAN_OUT, MAX_PATH_FAN_OUT)),
+    });
+    return {
+      paths: found.paths,
+      memories: [...found.memories.values()],
+      truncated: found.truncated,
+      atTime,
+    };
+  }
+
+  public exportGraph(options: MemoryGraphOptions): MemoryGraph {
+    const normalize = (values: string[] | undefined) => [
+      ...new Set((values ?? []).map((value) => value.trim()).filter(Boolean)),
+    ];
+    const rooted = options.rootMemoryId !== undefined;
+    const limit = rooted
+      ? Math.max(1, Math.min(options.limit ?? DEFAULT_ROOTED_GRAPH_LIMIT, MAX_ROOTED_GRAPH_LIMIT))
+      : options.limit;
+    const graph = this.store.memoryGraph({
+      spaceId: options.spaceId,
+      relations: normalize(options.relations).map((relation) => relation.toLocaleLowerCase()),
+      kinds: normalize(options.kinds),
+      tags: normalize(options.tags),
+      maxDepth: Math.max(0, Math.min(options.maxDepth ?? DEFAULT_GRAPH_DEPTH, 5)),
+      ...(options.atTime !== undefined ? { atTime: options.atTime } : {}),
+      ...(options.rootMemoryId !== undefined ? { rootMemoryId: options.rootMemoryId } : {}),
+      ...(limit !== undefined ? { limit: Math.max(1, limit) } : {}),
+    });
+    return { spaceId: options.spaceId, atTime: options.atTime ?? null, ...graph };
+  }
+
+  public graphStats(options: MemoryGraphStatsOptions): MemoryGraphStats {
+    return this.store.graphStats(
+      options.spaceId,
+      Math.max(1, Math.min(options.limit ?? DEFAULT_GRAPH_STATS_LIMIT, MAX_GRAPH_STATS_LIMIT)),
+    );
+  }
+
   public async traverse(options: MemoryTraversalOptions): Promise<MemoryTraversalPage> {
     const cursor = options.cursor ? decodeTraversalCursor(options.cursor) : undefined;
     const maxDepth = Math.max(0, Math.min(options.maxDepth ?? 2, 5));
@@ -348,6 +1066,15 @@ export class MemoryService {
     return this.store.listFeedback(filters);
   }
 
+  public listChanges(filters: MemoryChangeFilters): ReturnType<MemoryStore['listChanges']> {
+    return this.store.listChanges(filters);
+  }
+
+  public pruneChanges(): number {
+    const cutoff = Date.now() - this.config.changeRetentionDays * 86_400_000;
+    return this.store.pruneChanges(new Date(cutoff).toISOString());
+  }
+
   public async status(
     probeModels = false,
     options: { administrative?: boolean; includeDetails?: boolean; spaceIds?: string[] } = {},
@@ -579,8 +1306,18 @@ export class MemoryService {
     };
   }
 
-  public exportSnapshot(): ReturnType<MemoryStore['exportSnapshot']> {
-    return this.store.exportSnapshot();
+  public exportSnapshot(
+    options: Parameters<MemoryStore['exportSnapshot']>[0] = {},
+  ): ReturnType<MemoryStore['exportSnapshot']> {
+    return this.store.exportSnapshot(options);
+  }
+
+  public async importSnapshot(
+    snapshot: unknown,
+    options: SnapshotImportOptions = {},
+  ): Promise<SnapshotImportResult & { indexed: number; failed: number }> {
+    const imported = this.store.importSnapshot(snapshot, options);
+    return { ...imported, ...(await this.indexer.indexPending()) };
   }
 
   public compact(): void {
@@ -588,10 +1325,12 @@ export class MemoryService {
   }
 
   public purgeDeleted(): number {
-    return this.store.purgeDeleted();
+    const cutoff = Date.now() - this.config.deleteGraceDays * 86_400_000;
+    return this.store.purgeDeleted(new Date(cutoff).toISOString());
   }
 
   public async close(): Promise<void> {
+    await this.indexer.drainPostIndex();
     await this.models.stop();
     this.store.close();
   }
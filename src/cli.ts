@@ -1,7 +1,8 @@
 #!/usr/bin/env node
-import { writeFile } from 'node:fs/promises';
+import { readFile, writeFile } from 'node:fs/promises';
 import path from 'node:path';
 import { createMemoryService } from './application/create-service.js';
+import { isMemoryGraphFormat, renderMemoryGraph } from './application/graph-export.js';
 import { loadConfig, publicConfig } from './config.js';
 import { backupDatabase, restoreDatabase } from './operations/database-operations.js';
 import { SIMPLE_MEMORY_VERSION } from './version.js';
@@ -10,6 +11,13 @@ function print(value: unknown): void {
   process.stdout.write(`${JSON.stringify(value, null, 2)}\n`);
 }
 
+function optionValues(arguments_: string[], name: string): string[] {
+  return arguments_.flatMap((value, index) => {
+    const next = arguments_[index + 1];
+    return value === name && next !== undefined && !next.startsWith('--') ? [next] : [];
+  });
+}
+
 async function withModelProgress<T>(
   operation: (reportProgress: (message: string) => void) => Promise<T>,
 ): Promise<T> {
@@ -36,7 +44,7 @@ async function withModelProgress<T>(
 
 async function main(): Promise<void> {
   const arguments_ = process.argv.slice(2);
-  const [command = 'doctor', subcommand, argument] = arguments_;
+  const [command = 'doctor', subcommand] = arguments_;
   if (command === '--help' || command === '-h' || command === 'help') {
     process.stdout.write(`Simple Memory administration CLI
 
@@ -50,7 +58,14 @@ Usage:
   memoryctl embedding upgrade
   memoryctl migrate
   memoryctl reindex
-  memoryctl export [file]
+  memoryctl export [file] [--space <id>]... [--at <ISO time>]
+  memoryctl import <file> [--space <id>]... [--conflict skip|overwrite|remap]
+  memoryctl space clone <source id> <target id> [--name <name>] [--at <ISO time>] [--history]
+  memoryctl changes [--since <cursor>] [--space <id>]... [--limit <n>]
+  memoryctl changes --prune
+  memoryctl graph export --space <id> --format dot|graphml|mermaid|jsonl [--at <ISO time>] [--relation <name>]... [--kind <kind>]... [--tag <tag>]...
+  memoryctl graph stats --space <id> [--limit <n>]
+  memoryctl expire [--dry-run]
   memoryctl compact
   memoryctl purge --deleted
   memoryctl --version
@@ -125,9 +140,132 @@ Usage:
       return;
     }
     if (command === 'export') {
-      const destination = path.resolve(subcommand ?? argument ?? 'simple-memory-export.json');
-      await writeFile(destination, JSON.stringify(service.exportSnapshot(), null, 2), 'utf8');
-      print({ exported: destination });
+      const file = subcommand?.startsWith('--') ? undefined : subcommand;
+      const spaceIds = optionValues(arguments_, '--space');
+      const atTime = optionValues(arguments_, '--at').at(-1);
+      if (atTime !== undefined && Number.isNaN(Date.parse(atTime))) {
+        throw new Error('Usage: memoryctl export [file] [--space <id>]... [--at <ISO time>]');
+      }
+      const destination = path.resolve(file ?? 'simple-memory-export.json');
+      const snapshot = service.exportSnapshot({
+        ...(spaceIds.length > 0 ? { spaceIds } : {}),
+        ...(atTime !== undefined ? { atTime: new Date(atTime).toISOString() } : {}),
+      });
+      await writeFile(destination, JSON.stringify(snapshot, null, 2), 'utf8');
+      print({ exported: destination, crossingLinks: snapshot.crossingLinks });
+      return;
+    }
+    if (command === 'import') {
+      const conflict = optionValues(arguments_, '--conflict').at(-1) ?? 'skip';
+      const spaceIds = optionValues(arguments_, '--space');
+      if (
+        !subcommand ||
+        subcommand.startsWith('--') ||
+        (conflict !== 'skip' && conflict !== 'overwrite' && conflict !== 'remap')
+      ) {
+        throw new Error(
+          'Usage: memoryctl import <file> [--space <id>]... [--conflict skip|overwrite|remap]',
+        );
+      }
+      const snapshot: unknown = JSON.parse(await readFile(path.resolve(subcommand), 'utf8'));
+      print(
+        await service.importSnapshot(snapshot, {
+          conflict,
+          ...(spaceIds.length > 0 ? { spaceIds } : {}),
+        }),
+      );
+      return;
+    }
+    if (command === 'space' && subcommand === 'clone') {
+      const [sourceSpaceId, targetSpaceId] = arguments_.slice(2);
+      const name = optionValues(arguments_, '--name').at(-1);
+      const atTime = optionValues(arguments_, '--at').at(-1);
+      if (
+        !sourceSpaceId ||
+        !targetSpaceId ||
+        sourceSpaceId.startsWith('--') ||
+        targetSpaceId.startsWith('--') ||
+        (atTime !== undefined && Number.isNaN(Date.parse(atTime)))
+      ) {
+        throw new Error(
+          'Usage: memoryctl space clone <source id> <target id> [--name <name>] [--at <ISO time>] [--history]',
+        );
+      }
+      print(
+        await service.cloneSpace({
+          sourceSpaceId,
+          targetSpaceId,
+          includeHistory: arguments_.includes('--history'),
+          ...(name !== undefined ? { name } : {}),
+          ...(atTime !== undefined ? { atTime: new Date(atTime).toISOString() } : {}),
+        }),
+      );
+      return;
+    }
+    if (command === 'changes') {
+      if (arguments_.includes('--prune')) {
+        print({ pruned: service.pruneChanges(), retentionDays: config.changeRetentionDays });
+        return;
+      }
+      const spaceIds = optionValues(arguments_, '--space');
+      const limit = optionValues(arguments_, '--limit').at(-1);
+      if (limit !== undefined && !/^[1-9]\d*$/u.test(limit)) {
+        throw new Error(
+          'Usage: memoryctl changes [--since <cursor>] [--space <id>]... [--limit <n>]',
+        );
+      }
+      let since = optionValues(arguments_, '--since').at(-1);
+      let remaining = limit === undefined ? Number.POSITIVE_INFINITY : Number(limit);
+      while (remaining > 0) {
+        const page = service.listChanges({
+          ...(spaceIds.length > 0 ? { spaceIds } : {}),
+          ...(since !== undefined ? { since } : {}),
+          limit: Math.min(remaining, 1000),
+        });
+        for (const change of page.items) process.stdout.write(`${JSON.stringify(change)}\n`);
+        remaining -= page.items.length;
+        since = page.cursor;
+        if (!page.hasMore) break;
+      }
+      return;
+    }
+    if (command === 'graph' && subcommand === 'export') {
+      const spaceId = optionValues(arguments_, '--space').at(-1);
+      const format = optionValues(arguments_, '--format').at(-1);
+      const atTime = optionValues(arguments_, '--at').at(-1);
+      if (
+        spaceId === undefined ||
+        format === undefined ||
+        !isMemoryGraphFormat(format) ||
+        (atTime !== undefined && Number.isNaN(Date.parse(atTime)))
+      ) {
+        throw new Error(
+          'Usage: memoryctl graph export --space <id> --format dot|graphml|mermaid|jsonl [--at <ISO time>] [--relation <name>]... [--kind <kind>]... [--tag <tag>]...',
+        );
+      }
+      const graph = service.exportGraph({
+        spaceId,
+        relations: optionValues(arguments_, '--relation'),
+        kinds: optionValues(arguments_, '--kind'),
+        tags: optionValues(arguments_, '--tag'),
+        ...(atTime !== undefined ? { atTime: new Date(atTime).toISOString() } : {}),
+      });
+      process.stdout.write(renderMemoryGraph(graph, format));
+      return;
+    }
+    if (command === 'graph' && subcommand === 'stats') {
+      const spaceId = optionValues(arguments_, '--space').at(-1);
+      const limit = optionValues(arguments_, '--limit').at(-1);
+      if (spaceId === undefined || (limit !== undefined && !/^[1-9]\d*$/u.test(limit))) {
+        throw new Error('Usage: memoryctl graph stats --space <id> [--limit <n>]');
+      }
+      print(
+        service.graphStats({ spaceId, ...(limit !== undefined ? { limit: Number(limit) } : {}) }),
+      );
+      return;
+    }
+    if (command === 'expire') {
+      print(service.expireMemories(arguments_.includes('--dry-run')));
       return;
     }
     if (command === 'compact') {
@@ -136,7 +274,7 @@ Usage:
       return;
     }
     if (command === 'purge' && subcommand === '--deleted') {
-      print({ purged: service.purgeDeleted() });
+      print({ purged: service.purgeDeleted(), graceDays: config.deleteGraceDays });
       return;
     }
     throw new Error('Unknown command. Run memoryctl --help for available commands.');
@@ -42,6 +42,10 @@ export interface AppConfig {
   rerankCandidates: number;
   lexicalCandidates: number;
   semanticCandidates: number;
+  changeRetentionDays: number;
+  deleteGraceDays: number;
+  expirySweepIntervalMs: number;
+  autoLinkMinScore: number | null;
   logLevel: 'debug' | 'info' | 'warn' | 'error';
   access: AccessConfiguration;
 }
@@ -83,6 +87,19 @@ function integerEnvironment(name: string, fallback: number): number {
   return parsed;
 }
 
+// Node timers overflow to a 1 ms delay beyond a signed 32-bit millisecond count.
+const MAX_TIMER_DELAY_MS = 2_147_483_647;
+
+function timerEnvironment(name: string, fallback: number): number {
+  const delay = integerEnvironment(name, fallback);
+  if (delay > MAX_TIMER_DELAY_MS) {
+    throw new Error(
+      `${name} must be at most ${String(MAX_TIMER_DELAY_MS)} milliseconds; received ${String(delay)}`,
+    );
+  }
+  return delay;
+}
+
 function portEnvironment(): number {
   const port = integerEnvironment('SIMPLE_MEMORY_HTTP_PORT', 3_000);
   if (port > 65_535) {
@@ -99,6 +116,16 @@ function booleanEnvironment(name: string, fallback: boolean): boolean {
   throw new Error(`${name} must be true, false, 1, or 0`);
 }
 
+function scoreEnvironment(name: string): number | null {
+  const value = process.env[name];
+  if (value === undefined) return null;
+  const score = Number(value);
+  if (!value.trim() || !Number.isFinite(score) || score < 0 || score > 1) {
+    throw new Error(`${name} must be a number between 0 and 1`);
+  }
+  return score;
+}
+
 function nonEmptyEnvironment(name: string, fallback: string): string {
   const value = process.env[name];
   if (value === undefined) return fallback;
@@ -308,12 +335,16 @@ export function loadConfig(): AppConfig {
     ),
     embeddingBatchSize: integerEnvironment('SIMPLE_MEMORY_EMBED_BATCH_SIZE', 8),
     rerankBatchSize: integerEnvironment('SIMPLE_MEMORY_RERANK_BATCH_SIZE', 4),
-    modelTimeoutMs: integerEnvironment('SIMPLE_MEMORY_MODEL_TIMEOUT_MS', 600_000),
+    modelTimeoutMs: timerEnvironment('SIMPLE_MEMORY_MODEL_TIMEOUT_MS', 600_000),
     inferenceQueueLimit: integerEnvironment('SIMPLE_MEMORY_INFERENCE_QUEUE_LIMIT', 128),
-    inferenceQueueTimeoutMs: integerEnvironment('SIMPLE_MEMORY_INFERENCE_QUEUE_TIMEOUT_MS', 30_000),
+    inferenceQueueTimeoutMs: timerEnvironment('SIMPLE_MEMORY_INFERENCE_QUEUE_TIMEOUT_MS', 30_000),
     rerankCandidates: integerEnvironment('SIMPLE_MEMORY_RERANK_CANDIDATES', 30),
     lexicalCandidates: integerEnvironment('SIMPLE_MEMORY_LEXICAL_CANDIDATES', 100),
     semanticCandidates: integerEnvironment('SIMPLE_MEMORY_SEMANTIC_CANDIDATES', 100),
+    changeRetentionDays: integerEnvironment('SIMPLE_MEMORY_CHANGE_RETENTION_DAYS', 90),
+    deleteGraceDays: integerEnvironment('SIMPLE_MEMORY_DELETE_GRACE_DAYS', 30),
+    expirySweepIntervalMs: timerEnvironment('SIMPLE_MEMORY_EXPIRY_SWEEP_INTERVAL_MS', 3_600_000),
+    autoLinkMinScore: scoreEnvironment('SIMPLE_MEMORY_AUTO_LINK_MIN_SCORE'),
     logLevel,
     access,
   };
@@ -350,6 +381,18 @@ export function publicConfig(config: AppConfig): Record<string, unknown> {
       semanticCandidates: config.semanticCandidates,
       rerankCandidates: config.rerankCandidates,
     },
+    changes: {
+      retentionDays: config.changeRetentionDays,
+    },
+    expiry: {
+      sweepIntervalMs: config.expirySweepIntervalMs,
+    },
+    deletion: {
+      graceDays: config.deleteGraceDays,
+    },
+    linkSuggestions: {
+      autoLinkMinScore: config.autoLinkMinScore,
+    },
     inference: {
       modelTimeoutMs: config.modelTimeoutMs,
       queueLimit: config.inferenceQueueLimit,
@@ -1,4 +1,4 @@
-import type { MemoryState } from './types.js';
+import type { JsonSchemaIssue, MemoryDuplicateMatch, MemoryState } from './types.js';
 
 export interface MemoryIdentityConflictDetails {
   spaceId: string;
@@ -15,3 +15,28 @@ export class MemoryIdentityConflictError extends Error {
     this.name = 'MemoryIdentityConflictError';
   }
 }
+
+export interface MemoryContentSchemaDetails {
+  spaceId: string;
+  kind: string;
+  issues: JsonSchemaIssue[];
+}
+
+export class MemoryContentSchemaError extends Error {
+  public constructor(public readonly details: MemoryContentSchemaDetails) {
+    super(`Content does not match the schema for kind ${details.kind}`);
+    this.name = 'MemoryContentSchemaError';
+  }
+}
+
+export interface MemoryDuplicateDetails {
+  spaceId: string;
+  similarMemories: MemoryDuplicateMatch[];
+}
+
+export class MemoryDuplicateError extends Error {
+  public constructor(public readonly details: MemoryDuplicateDetails) {
+    super(`Memory duplicates ${String(details.similarMemories.length)} existing memories`);
+    this.name = 'MemoryDuplicateError';
+  }
+}
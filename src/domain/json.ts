@@ -1,6 +1,6 @@
 import { createHash } from 'node:crypto';
 import * as z from 'zod/v4';
-import type { JsonValue } from './types.js';
+import type { JsonObject, JsonPatchOperation, JsonSchemaIssue, JsonValue } from './types.js';
 
 export function stableStringify(value: JsonValue): string {
   if (value === null || typeof value !== 'object') return JSON.stringify(value);
@@ -16,3 +16,184 @@ export function contentHash(value: JsonValue): string {
 export function parseJsonValue(value: string): JsonValue {
   return z.json().parse(JSON.parse(value));
 }
+
+function escapePointerToken(token: string): string {
+  return token.replaceAll('~', '~0').replaceAll('/', '~1');
+}
+
+function isJsonObject(value: JsonValue): value is JsonObject {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Builds an RFC 6902 patch that turns `from` into `to`. Arrays are compared by
+ * position, so an insertion near the front is reported as replacements plus a
+ * trailing add rather than a minimal edit script.
+ */
+export function jsonPatch(from: JsonValue, to: JsonValue, path = ''): JsonPatchOperation[] {
+  if (stableStringify(from) === stableStringify(to)) return [];
+  if (Array.isArray(from) && Array.isArray(to)) {
+    const operations: JsonPatchOperation[] = [];
+    const shared = Math.min(from.length, to.length);
+    for (let index = 0; index < shared; index += 1) {
+      operations.push(...jsonPatch(from[index] ?? null, to[index] ?? null, `${path}/${index}`));
+    }
+    for (let index = shared; index < to.length; index += 1) {
+      operations.push({ op: 'add', path: `${path}/${index}`, value: to[index] ?? null });
+    }
+    for (let index = from.length - 1; index >= shared; index -= 1) {
+      operations.push({ op: 'remove', path: `${path}/${index}` });
+    }
+    return operations;
+  }
+  if (isJsonObject(from) && isJsonObject(to)) {
+    const operations: JsonPatchOperation[] = [];
+    for (const key of Object.keys(from).sort()) {
+      const childPath = `${path}/${escapePointerToken(key)}`;
+      const next = to[key];
+      if (next === undefined) operations.push({ op: 'remove', path: childPath });
+      else operations.push(...jsonPatch(from[key] ?? null, next, childPath));
+    }
+    for (const key of Object.keys(to).sort()) {
+      if (from[key] === undefined) {
+        operations.push({
+          op: 'add',
+          path: `${path}/${escapePointerToken(key)}`,
+          value: to[key] ?? null,
+        });
+      }
+    }
+    return operations;
+  }
+  return [{ op: 'replace', path, value: to }];
+}
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) throw new Error(`Invalid JSON Pointer: ${pointer}`);
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((token) => token.replaceAll('~1', '/').replaceAll('~0', '~'));
+}
+
+function arrayIndex(array: JsonValue[], token: string, allowEnd: boolean): number {
+  if (allowEnd && token === '-') return array.length;
+  if (!/^(0|[1-9][0-9]*)$/u.test(token)) throw new Error(`Invalid array index: ${token}`);
+  const index = Number(token);
+  if (index > array.length || (!allowEnd && index === array.length)) {
+    throw new Error(`Array index out of range: ${token}`);
+  }
+  return index;
+}
+
+function resolvePointer(document: JsonValue, tokens: string[]): JsonValue {
+  let current = document;
+  for (const token of tokens) {
+    if (Array.isArray(current)) current = current[arrayIndex(current, token, false)] ?? null;
+    else if (isJsonObject(current) && Object.hasOwn(current, token)) {
+      current = current[token] ?? null;
+    } else throw new Error(`Path does not exist: /${tokens.join('/')}`);
+  }
+  return current;
+}
+
+function parentOf(document: JsonValue, tokens: string[]): JsonValue[] | JsonObject {
+  const parent = resolvePointer(document, tokens.slice(0, -1));
+  if (Array.isArray(parent) || isJsonObject(parent)) return parent;
+  throw new Error(`Path parent is not a container: /${tokens.join('/')}`);
+}
+
+function addValue(document: JsonValue, tokens: string[], value: JsonValue): JsonValue {
+  const key = tokens.at(-1);
+  if (key === undefined) return value;
+  const parent = parentOf(document, tokens);
+  if (Array.isArray(parent)) parent.splice(arrayIndex(parent, key, true), 0, value);
+  else parent[key] = value;
+  return document;
+}
+
+function removeValue(document: JsonValue, tokens: string[]): JsonValue {
+  const key = tokens.at(-1);
+  if (key === undefined) throw new Error('The document root cannot be removed');
+  const parent = parentOf(document, tokens);
+  if (Array.isArray(parent)) parent.splice(arrayIndex(parent, key, false), 1);
+  else if (Object.hasOwn(parent, key)) delete parent[key];
+  else throw new Error(`Path does not exist: /${tokens.join('/')}`);
+  return document;
+}
+
+/** Applies an RFC 6902 patch without mutating `document`; any failed operation aborts it. */
+export function applyJsonPatch(document: JsonValue, operations: JsonPatchOperation[]): JsonValue {
+  let result = structuredClone(document);
+  operations.forEach((operation, index) => {
+    try {
+      const tokens = parsePointer(operation.path);
+      if (operation.op === 'add') {
+        result = addValue(result, tokens, structuredClone(operation.value));
+      } else if (operation.op === 'remove') {
+        result = removeValue(result, tokens);
+      } else if (operation.op === 'replace') {
+        resolvePointer(result, tokens);
+        const value = structuredClone(operation.value);
+        result = tokens.length === 0 ? value : addValue(removeValue(result, tokens), tokens, value);
+      } else if (operation.op === 'test') {
+        if (stableStringify(resolvePointer(result, tokens)) !== stableStringify(operation.value)) {
+          throw new Error(`Value at ${operation.path} does not match`);
+        }
+      } else if (operation.op === 'move' || operation.op === 'copy') {
+        const from = parsePointer(operation.from);
+        const value = structuredClone(resolvePointer(result, from));
+        if (operation.op === 'move') {
+          if (operation.path.startsWith(`${operation.from}/`)) {
+            throw new Error('A value cannot be moved into one of its children');
+          }
+          result = removeValue(result, from);
+        }
+        result = addValue(result, tokens, value);
+      }
+    } catch (error) {
+      throw new Error(
+        `JSON Patch operation ${index} (${operation.op} ${operation.path}) failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+  });
+  return result;
+}
+
+/** Applies an RFC 7396 merge patch: objects merge recursively and null removes a member. */
+export function applyMergePatch(target: JsonValue, patch: JsonValue): JsonValue {
+  if (!isJsonObject(patch)) return structuredClone(patch);
+  const result: JsonObject = isJsonObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) delete result[key];
+    else result[key] = applyMergePatch(result[key] ?? null, value);
+  }
+  return result;
+}
+
+/**
+ * Compiles a JSON Schema (draft 2020-12, draft-07 or draft-04) into a validator
+ * that reports every violation with a JSON Pointer path. Throws when the schema
+ * is malformed or relies on unsupported features such as external `$ref`s.
+ */
+export function compileJsonSchema(schema: JsonObject): (value: JsonValue) => JsonSchemaIssue[] {
+  let validator: z.ZodType;
+  try {
+    validator = z.fromJSONSchema(schema);
+  } catch (error) {
+    throw new Error(
+      `Invalid JSON Schema: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  return (value) => {
+    const parsed = validator.safeParse(value);
+    if (parsed.success) return [];
+    return parsed.error.issues.map((issue) => ({
+      path: issue.path.map((token) => `/${escapePointerToken(String(token))}`).join(''),
+      message: issue.message,
+    }));
+  };
+}
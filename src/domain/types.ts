@@ -3,14 +3,112 @@ export type JsonValue = JsonPrimitive | JsonValue[] | { [key: string]: JsonValue
 export type JsonObject = { [key: string]: JsonValue };
 
 export type SpaceState = 'active' | 'deleted';
+export type SpaceExpiryAction = 'archive' | 'delete';
 
 export interface SpaceRecord {
   id: string;
   name: string;
   description: string | null;
   metadata: JsonObject;
+  expiryAction: SpaceExpiryAction;
   createdAt: string;
   deletedAt: string | null;
+  revisionNumber: number;
+}
+
+/** One immutable version of a space's descriptive fields. */
+export interface SpaceRevision {
+  spaceId: string;
+  revisionNumber: number;
+  name: string;
+  description: string | null;
+  metadata: JsonObject;
+  expiryAction: SpaceExpiryAction;
+  recordedAt: string;
+  actor: string | null;
+}
+
+/** Omitted fields carry over from the current revision; a null description clears it. */
+export interface SpaceUpdateInput {
+  spaceId: string;
+  expectedRevisionNumber: number;
+  name?: string;
+  description?: string | null;
+  metadata?: JsonObject;
+  expiryAction?: SpaceExpiryAction;
+}
+
+/** Without includeHistory only the current (or atTime) revision of each live memory is copied. */
+export interface SpaceCloneInput {
+  sourceSpaceId: string;
+  targetSpaceId: string;
+  name?: string;
+  atTime?: string;
+  includeHistory?: boolean;
+}
+
+export interface SpaceCloneResult {
+  space: SpaceRecord;
+  sourceSpaceId: string;
+  memories: number;
+  revisions: number;
+  links: number;
+  kinds: number;
+  relationTypes: number;
+  reusedIndexRevisions: number;
+  memoryIdMap: Record<string, string>;
+}
+
+/** A JSON Schema that content of the given kind must satisfy within one space. */
+export interface MemoryKindDefinition {
+  spaceId: string;
+  kind: string;
+  description: string | null;
+  schema: JsonObject;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MemoryKindInput {
+  spaceId: string;
+  kind: string;
+  schema: JsonObject;
+  description?: string;
+}
+
+export type MemoryRelationCardinality =
+  | 'one-to-one'
+  | 'one-to-many'
+  | 'many-to-one'
+  | 'many-to-many';
+
+/**
+ * How links of one relation behave within a space. A link written with the inverse name is the
+ * same edge as the relation with its endpoints swapped; a symmetric relation has no direction.
+ * Empty kind lists accept memories of any kind.
+ */
+export interface MemoryRelationTypeDefinition {
+  spaceId: string;
+  relation: string;
+  inverse: string | null;
+  symmetric: boolean;
+  fromKinds: string[];
+  toKinds: string[];
+  cardinality: MemoryRelationCardinality;
+  description: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MemoryRelationTypeInput {
+  spaceId: string;
+  relation: string;
+  inverse?: string;
+  symmetric?: boolean;
+  fromKinds?: string[];
+  toKinds?: string[];
+  cardinality?: MemoryRelationCardinality;
+  description?: string;
 }
 
 export interface SpaceListFilters {
@@ -73,6 +171,7 @@ export interface MemoryRevision {
   memoryId: string;
   revisionNumber: number;
   parentRevisionId: string | null;
+  revertedToRevisionId: string | null;
   title: string | null;
   kind: string | null;
   content: JsonValue;
@@ -92,6 +191,100 @@ export interface MemoryRevision {
   searchableText: string;
 }
 
+export type JsonPatchOperation =
+  | { op: 'add' | 'replace' | 'test'; path: string; value: JsonValue }
+  | { op: 'remove'; path: string }
+  | { op: 'move' | 'copy'; from: string; path: string };
+
+export interface JsonSchemaIssue {
+  /** JSON Pointer to the offending value within the validated document. */
+  path: string;
+  message: string;
+}
+
+export type MemoryDocumentPatch =
+  | { format: 'json-patch'; operations: JsonPatchOperation[] }
+  | { format: 'merge-patch'; patch: JsonValue };
+
+export interface MemoryPatchInput {
+  memoryId: string;
+  expectedRevisionId: string;
+  content?: MemoryDocumentPatch;
+  metadata?: MemoryDocumentPatch;
+  addTags?: string[];
+  removeTags?: string[];
+  addSources?: SourceInput[];
+  removeSourceUris?: string[];
+  rebase?: boolean;
+}
+
+export type MemoryDiffField =
+  | 'title'
+  | 'kind'
+  | 'tags'
+  | 'sources'
+  | 'salience'
+  | 'confidence'
+  | 'observedAt'
+  | 'validFrom'
+  | 'validTo'
+  | 'expiresAt'
+  | 'reviewAfter';
+
+export interface MemoryFieldChange {
+  field: MemoryDiffField;
+  from: JsonValue;
+  to: JsonValue;
+}
+
+export interface MemoryRevisionDiff {
+  memoryId: string;
+  from: { memoryId: string; revisionId: string; revisionNumber: number };
+  to: { memoryId: string; revisionId: string; revisionNumber: number };
+  content: JsonPatchOperation[];
+  metadata: JsonPatchOperation[];
+  fields: MemoryFieldChange[];
+}
+
+export type MemoryBatchTarget = string | { $ref: number };
+
+export type MemoryBatchOperation =
+  | { op: 'create'; input: MemoryCreateInput }
+  | {
+      op: 'revise';
+      memoryId: MemoryBatchTarget;
+      expectedRevisionId?: string;
+      input: MemoryInput;
+    }
+  | { op: 'archive'; memoryId: MemoryBatchTarget }
+  | {
+      op: 'link';
+      fromMemoryId: MemoryBatchTarget;
+      toMemoryId: MemoryBatchTarget;
+      relation: string;
+      metadata?: JsonObject;
+      validFrom?: string;
+      validTo?: string;
+    }
+  | { op: 'unlink'; linkId: MemoryBatchTarget };
+
+export interface MemoryBatchInput {
+  operations: MemoryBatchOperation[];
+  idempotencyKey?: string;
+}
+
+export interface MemoryBatchItem {
+  op: MemoryBatchOperation['op'];
+  memoryId: string | null;
+  revisionId: string | null;
+  linkId: string | null;
+}
+
+export interface MemoryBatchResult {
+  items: MemoryBatchItem[];
+  replayed: boolean;
+}
+
 export interface MemoryRecord {
   id: string;
   spaceId: string;
@@ -150,6 +343,7 @@ export interface MemoryHistoryRevision {
   id: string;
   revisionNumber: number;
   parentRevisionId: string | null;
+  revertedToRevisionId: string | null;
   title: string | null;
   kind: string | null;
   tags: string[];
@@ -202,6 +396,122 @@ export interface MemoryMergeResult {
   createdAt: string;
 }
 
+/** Names the merge operation, one duplicate of it, or both; omitting memoryId releases every duplicate. */
+export interface MemoryUnmergeInput {
+  operationId?: string;
+  memoryId?: string;
+  actorId?: string;
+  reason?: string;
+}
+
+export interface MemoryUnmergeResult {
+  unmergeId: string;
+  operationId: string;
+  canonicalMemory: MemoryRecord;
+  unmergedMemoryIds: string[];
+  releasedRedirectCount: number;
+  createdAt: string;
+}
+
+/** How memory_create treats existing memories that look like the new one. */
+export type MemoryDedupeMode = 'warn' | 'reject' | 'off';
+
+/** Scans a whole space, or only the pairs involving memoryId when it is given. */
+export interface MemoryDuplicateFilters {
+  spaceId: string;
+  memoryId?: string;
+  threshold?: number;
+  limit?: number;
+}
+
+export interface MemoryDuplicateMatch {
+  memoryId: string;
+  expectedRevisionId: string;
+  title: string | null;
+  similarity: number;
+  contentHashMatch: boolean;
+  semanticSimilarity: number | null;
+  lexicalOverlap: number;
+}
+
+/** A group of likely duplicates; canonical and duplicates are shaped for memory_merge. */
+export interface MemoryDuplicateCluster {
+  canonicalMemoryId: string;
+  expectedCanonicalRevisionId: string;
+  title: string | null;
+  score: number;
+  duplicates: MemoryDuplicateMatch[];
+}
+
+export interface MemoryDuplicateReport {
+  spaceId: string;
+  threshold: number;
+  scannedMemories: number;
+  truncated: boolean;
+  semanticAvailable: boolean;
+  clusters: MemoryDuplicateCluster[];
+}
+
+export type MemoryConflictReason =
+  | 'same-title'
+  | 'same-kind'
+  | 'overlapping-validity'
+  | 'different-values';
+
+/** Checks one memory, or the most recently updated active memories of a space. */
+export interface MemoryConsistencyOptions {
+  spaceId: string;
+  memoryId?: string;
+  limit?: number;
+  neighbors?: number;
+  minRelevance?: number;
+}
+
+export interface MemoryConflict {
+  memoryId: string;
+  revisionId: string;
+  otherMemoryId: string;
+  otherRevisionId: string;
+  relevance: number | null;
+  reasons: MemoryConflictReason[];
+  differingPaths: string[];
+  linkedRelations: string[];
+}
+
+export interface MemoryConsistencyReport {
+  checkedMemories: number;
+  comparedPairs: number;
+  degraded: boolean;
+  degradationReason?: string;
+  conflicts: MemoryConflict[];
+}
+
+/** How a move or copy treats a logical key that already exists in the target space. */
+export type MemoryKeyConflictPolicy = 'fail' | 'drop-key';
+
+export interface MemoryMoveInput {
+  memoryId: string;
+  targetSpaceId: string;
+  onKeyConflict?: MemoryKeyConflictPolicy;
+  /** Soft-deletes active links to memories that stay behind instead of rejecting the move. */
+  unlinkExternalLinks?: boolean;
+}
+
+export interface MemoryMoveResult {
+  memory: MemoryRecord;
+  fromSpaceId: string;
+  /** The memory and every merged duplicate redirected to it. */
+  movedMemoryIds: string[];
+  clearedLogicalKeyMemoryIds: string[];
+  unlinkedLinkIds: string[];
+}
+
+export interface MemoryCopyInput {
+  memoryId: string;
+  targetSpaceId: string;
+  onKeyConflict?: MemoryKeyConflictPolicy;
+}
+
 export interface FeedbackSummary {
   revisionId: string;
   feedbackStatus: FeedbackStatus;
@@ -254,6 +564,98 @@ export interface MemoryFeedbackListPage {
   nextCursor: string | null;
 }
 
+export type MemoryChangeType =
+  | 'space-created'
+  | 'space-deleted'
+  | 'space-restored'
+  | 'revision'
+  | 'state'
+  | 'link'
+  | 'unlink'
+  | 'merge'
+  | 'feedback'
+  | 'erasure'
+  | 'move';
+
+export interface MemoryChange {
+  sequence: number;
+  type: MemoryChangeType;
+  spaceId: string;
+  memoryId: string | null;
+  recordId: string;
+  changedAt: string;
+  cursor: string;
+}
+
+export interface MemoryChangeFilters {
+  spaceIds?: string[];
+  since?: string;
+  limit?: number;
+}
+
+export interface MemoryChangePage {
+  items: MemoryChange[];
+  cursor: string;
+  hasMore: boolean;
+}
+
+export type MemoryReviewReason = 'needs-review' | 'review-due' | 'stale-sources';
+export type MemoryReviewAction = 'snooze' | 'reviewed';
+
+export interface MemoryReviewQueueFilters {
+  spaceIds?: string[];
+  sourceAgeDays?: number;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface MemoryReviewQueueItem {
+  memory: MemorySummaryRecord;
+  reasons: MemoryReviewReason[];
+  sourcesObservedAt: string | null;
+}
+
+export interface MemoryReviewQueuePage {
+  items: MemoryReviewQueueItem[];
+  nextCursor: string | null;
+}
+
+export interface MemoryReviewInput {
+  memoryId: string;
+  expectedRevisionId: string;
+  action: MemoryReviewAction;
+  reviewAfter?: string;
+  actorType?: FeedbackActorType;
+  actorId?: string;
+  note?: string;
+}
+
+export interface MemoryReviewResult {
+  memory: MemoryRecord;
+  revised: boolean;
+  feedback: MemoryFeedback | null;
+}
+
+export interface MemoryExpiryResult {
+  sweptAt: string;
+  dryRun: boolean;
+  archived: number;
+  deleted: number;
+  memories: Array<{
+    id: string;
+    spaceId: string;
+    state: 'archived' | 'deleted';
+    expiresAt: string;
+  }>;
+}
+
+/** Trashed memories stay restorable until purgeAfter; erased memories are gone immediately. */
+export interface MemoryDeleteResult {
+  memoryId: string;
+  erased: boolean;
+  purgeAfter?: string;
+}
+
 export interface MemoryListFilters {
   spaceId?: string;
   spaceIds?: string[];
@@ -270,6 +672,38 @@ export interface MemoryListPage {
   nextCursor: string | null;
 }
 
+export interface MemoryTagFilters {
+  spaceIds?: string[];
+  prefix?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface MemoryTagCount {
+  tag: string;
+  spaceId: string;
+  memoryCount: number;
+}
+
+export interface MemoryTagPage {
+  items: MemoryTagCount[];
+  nextCursor: string | null;
+}
+
+export interface MemoryTagRewriteInput {
+  spaceId: string;
+  tags: string[];
+  into: string;
+  /** Rejects the rewrite when `into` is already in use, as a rename must not merge. */
+  requireUnusedTarget?: boolean;
+}
+
+export interface MemoryTagRewriteResult {
+  tags: string[];
+  into: string;
+  memoriesUpdated: number;
+}
+
 export interface SearchOptions {
   query: string;
   spaceIds?: string[];
@@ -322,6 +756,27 @@ export interface MemoryLink {
   validTo: string | null;
   createdAt: string;
   deletedAt: string | null;
+  revisionNumber: number;
+}
+
+/** The metadata and validity window a link carried from recordedAt until its next revision. */
+export interface MemoryLinkRevision {
+  linkId: string;
+  revisionNumber: number;
+  metadata: JsonObject;
+  validFrom: string | null;
+  validTo: string | null;
+  recordedAt: string;
+  actor: string | null;
+}
+
+/** Omitted fields carry over from the current revision; null clears a validity bound. */
+export interface MemoryLinkUpdateInput {
+  linkId: string;
+  expectedRevisionNumber: number;
+  metadata?: JsonObject;
+  validFrom?: string | null;
+  validTo?: string | null;
 }
 
 export type MemoryLinkDirection = 'outgoing' | 'incoming' | 'both';
@@ -361,6 +816,146 @@ export interface MemoryTraversalPage {
   degradationReason?: string;
 }
 
+export interface MemoryPathOptions {
+  fromMemoryId: string;
+  toMemoryId: string;
+  maxDepth?: number;
+  atTime?: string;
+  relations?: string[];
+  direction?: MemoryLinkDirection;
+  limit?: number;
+  maxFanOut?: number;
+}
+
+/** A simple chain of links from the start memory to the target, in walking order. */
+export interface MemoryPath {
+  memoryIds: string[];
+  steps: MemoryTraversalPathStep[];
+}
+
+export interface MemoryPathResult {
+  paths: MemoryPath[];
+  memories: MemorySearchRecord[];
+  truncated: boolean;
+  atTime: string;
+}
+
+export type MemoryGraphFormat = 'dot' | 'graphml' | 'mermaid' | 'jsonl';
+
+export interface MemoryGraphOptions {
+  spaceId: string;
+  atTime?: string;
+  relations?: string[];
+  kinds?: string[];
+  tags?: string[];
+  /** Limits the graph to memories reachable from this memory within maxDepth links. */
+  rootMemoryId?: string;
+  maxDepth?: number;
+  limit?: number;
+}
+
+export interface MemoryGraphNode {
+  id: string;
+  revisionId: string;
+  title: string | null;
+  kind: string | null;
+}
+
+/** Memories as nodes and the live links between them as typed edges. */
+export interface MemoryGraph {
+  spaceId: string;
+  atTime: string | null;
+  nodes: MemoryGraphNode[];
+  edges: MemoryLink[];
+  truncated: boolean;
+}
+
+export interface MemoryGraphStatsOptions {
+  spaceId: string;
+  /** Entries returned per ranking; counts always cover the whole space. */
+  limit?: number;
+}
+
+export interface MemoryGraphDegree {
+  memoryId: string;
+  title: string | null;
+  inDegree: number;
+  outDegree: number;
+  degree: number;
+  /** Degree divided by the number of other active memories in the space. */
+  centrality: number;
+}
+
+export interface MemoryGraphComponent {
+  size: number;
+  linkCount: number;
+  memoryIds: string[];
+}
+
+/** A live link with at least one endpoint that is archived or in the trash. */
+export interface MemoryDanglingLink {
+  linkId: string;
+  fromMemoryId: string;
+  toMemoryId: string;
+  relation: string;
+  inactiveEndpoints: Array<{ memoryId: string; state: Exclude<MemoryState, 'active'> }>;
+}
+
+export interface MemoryGraphStats {
+  spaceId: string;
+  memoryCount: number;
+  linkCount: number;
+  componentCount: number;
+  components: MemoryGraphComponent[];
+  orphanCount: number;
+  orphans: Array<{ memoryId: string; title: string | null }>;
+  hubs: MemoryGraphDegree[];
+  danglingLinkCount: number;
+  danglingLinks: MemoryDanglingLink[];
+  relations: Array<{ relation: string; count: number }>;
+}
+
+export interface MemoryLinkSuggestionOptions {
+  memoryId: string;
+  limit?: number;
+  minScore?: number;
+  /** Proposes this relation for every suggestion instead of inferring one from relation types. */
+  relation?: string;
+}
+
+export interface MemoryLinkSuggestion {
+  fromMemoryId: string;
+  toMemoryId: string;
+  relation: string;
+  /** The suggested neighbour, whichever end of the link it is on. */
+  memoryId: string;
+  title: string | null;
+  /** Reranker relevance when available, otherwise the vector similarity. */
+  score: number;
+  similarity: number;
+  rerankerScore: number | null;
+}
+
+export interface MemoryLinkSuggestionReport {
+  memoryId: string;
+  semanticAvailable: boolean;
+  degraded: boolean;
+  degradationReason?: string;
+  suggestions: MemoryLinkSuggestion[];
+}
+
+export interface MemoryLinkSuggestionAcceptance {
+  fromMemoryId: string;
+  toMemoryId: string;
+  relation: string;
+  metadata?: JsonObject;
+}
+
+export interface MemoryLinkSuggestionOutcome extends MemoryLinkSuggestionAcceptance {
+  link: MemoryLink | null;
+  error: string | null;
+}
+
 export interface SegmentRecord {
   id: string;
   memoryId: string;
@@ -21,6 +21,31 @@ async function main(): Promise<void> {
     await serverLease.release();
     throw error;
   }
+  const runRetentionSweep = (): void => {
+    try {
+      const { archived, deleted } = service.expireMemories();
+      if (archived > 0 || deleted > 0) {
+        logger.info('Applied memory expiry policies', { archived, deleted });
+      }
+    } catch (error) {
+      logger.warn('Memory expiry sweep failed', { error: String(error) });
+    }
+    try {
+      const purged = service.purgeDeleted();
+      if (purged > 0) logger.info('Erased deleted memories past the grace period', { purged });
+    } catch (error) {
+      logger.warn('Deleted memory purge failed', { error: String(error) });
+    }
+    try {
+      const pruned = service.pruneChanges();
+      if (pruned > 0) logger.info('Pruned expired change log entries', { pruned });
+    } catch (error) {
+      logger.warn('Change log retention was not applied', { error: String(error) });
+    }
+  };
+  runRetentionSweep();
+  const expirySweep = setInterval(runRetentionSweep, config.expirySweepIntervalMs);
+  expirySweep.unref();
   let closeTransport = async (): Promise<void> => {};
   let pendingIndexDrain = Promise.resolve();
   const startPendingIndexDrain = (): void => {
@@ -39,6 +64,7 @@ async function main(): Promise<void> {
   const close = async (): Promise<void> => {
     if (closing) return;
     closing = true;
+    clearInterval(expirySweep);
     try {
       await closeTransport();
       await pendingIndexDrain;
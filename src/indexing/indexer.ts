@@ -3,8 +3,13 @@ import type { AppConfig } from '../config.js';
 import type { MemoryRecord, SegmentRecord } from '../domain/types.js';
 import type { Logger } from '../logger.js';
 import type { ModelClient } from '../models/model-client.js';
-import type { ClaimedIndexJob, MemoryStore } from '../storage/memory-store.js';
-import { createSegments } from './projector.js';
+import type {
+  ClaimedIndexJob,
+  DraftIndex,
+  DraftVectors,
+  MemoryStore,
+} from '../storage/memory-store.js';
+import { createSegments, type ProjectionInput } from './projector.js';
 
 const MAX_SEGMENT_TOKENS = 1_200;
 
@@ -19,6 +24,26 @@ function splitAtBoundary(text: string): [string, string] {
   return [text.slice(0, boundary + 1).trim(), text.slice(boundary + 1).trim()];
 }
 
+function recordProjection(record: MemoryRecord): ProjectionInput {
+  return {
+    memoryId: record.id,
+    revisionId: record.revision.id,
+    spaceId: record.spaceId,
+    title: record.revision.title,
+    kind: record.revision.kind,
+    content: record.revision.content,
+    tags: record.revision.tags,
+    metadata: record.revision.metadata,
+    sources: record.revision.sources,
+  };
+}
+
+/** Whether two projections segment identically, apart from the ids they stamp on segments. */
+function sameProjection(left: ProjectionInput, right: ProjectionInput): boolean {
+  const comparable = ({ memoryId, revisionId, ...rest }: ProjectionInput) => JSON.stringify(rest);
+  return comparable(left) === comparable(right);
+}
+
 function rebuildSegments(base: SegmentRecord[]): SegmentRecord[] {
   return base.map((segment, ordinal) => ({
     ...segment,
@@ -29,6 +54,9 @@ function rebuildSegments(base: SegmentRecord[]): SegmentRecord[] {
 }
 
 export class Indexer {
+  private postIndexHook: ((record: MemoryRecord) => Promise<void>) | undefined;
+  private postIndexQueue = Promise.resolve();
+
   public constructor(
     private readonly config: AppConfig,
     private readonly store: MemoryStore,
@@ -36,6 +64,38 @@ export class Indexer {
     private readonly logger: Logger,
   ) {}
 
+  /** Registers work to run once a revision has fresh vectors, such as suggesting links. */
+  public onSemanticIndex(hook: (record: MemoryRecord) => Promise<void>): void {
+    this.postIndexHook = hook;
+  }
+
+  /**
+   * Queues the post-index hook behind earlier ones. It starts on a later turn of the event loop,
+   * so the request that indexed the revision returns without waiting for it.
+   */
+  private schedulePostIndex(record: MemoryRecord): void {
+    const hook = this.postIndexHook;
+    if (!hook) return;
+    this.postIndexQueue = this.postIndexQueue
+      .then(() => new Promise<void>((resolve) => setImmediate(resolve)))
+      .then(() => hook(record))
+      .catch((error: unknown) => {
+        this.logger.warn('Post-index hook failed; the revision remains indexed', {
+          revisionId: record.revision.id,
+          error: String(error),
+        });
+      });
+  }
+
+  /** Resolves once every queued post-index hook, including any queued meanwhile, has finished. */
+  public async drainPostIndex(): Promise<void> {
+    let queue: Promise<void>;
+    do {
+      queue = this.postIndexQueue;
+      await queue;
+    } while (queue !== this.postIndexQueue);
+  }
+
   private async exactTokenize(segments: SegmentRecord[]): Promise<SegmentRecord[]> {
     if (!this.config.modelsEnabled) return segments;
     let working = segments;
@@ -65,35 +125,89 @@ export class Indexer {
     return working;
   }
 
+  /** Checks embeddings against the configured dimension and returns the loaded model profile. */
+  private async modelProfileFor(vectors: number[][]): Promise<string> {
+    for (const vector of vectors) {
+      if (vector.length !== this.config.embeddingDimension) {
+        throw new Error(
+          `Embedding dimension ${vector.length} does not match configured ${this.config.embeddingDimension}`,
+        );
+      }
+    }
+    const profile = await this.models.embeddingProfile();
+    if (profile.embedding_dimension !== this.config.embeddingDimension) {
+      throw new Error(
+        `Embedding model reports dimension ${String(profile.embedding_dimension)}; expected ${this.config.embeddingDimension}`,
+      );
+    }
+    return this.store.ensureModelProfile({
+      provider: 'huggingface',
+      model: profile.embedding_model,
+      modelRevision: profile.embedding_revision,
+      dimensions: profile.embedding_dimension,
+      instructionHash: profile.query_instruction_hash,
+    });
+  }
+
+  private async projectSegments(projection: ProjectionInput): Promise<SegmentRecord[]> {
+    const segments = createSegments(projection);
+    try {
+      return await this.exactTokenize(segments);
+    } catch (error) {
+      this.logger.warn('Exact model token counting failed; retaining deterministic estimates', {
+        revisionId: projection.revisionId,
+        error: String(error),
+      });
+      return segments;
+    }
+  }
+
+  /**
+   * Segments and embeds a memory that is not stored yet, exactly as indexRevision would. Vectors
+   * are null when semantic indexing is unavailable, leaving callers with lexical evidence only.
+   */
+  public async indexDraft(projection: ProjectionInput): Promise<DraftIndex> {
+    const segments = await this.projectSegments(projection);
+    if (!this.config.modelsEnabled || !this.store.vectorAvailable || segments.length === 0) {
+      return { projection, segments, vectors: null };
+    }
+    try {
+      const embeddings = await this.models.embedDocuments(segments.map((segment) => segment.text));
+      const modelProfileId = await this.modelProfileFor(embeddings);
+      return { projection, segments, vectors: { modelProfileId, embeddings } };
+    } catch (error) {
+      this.logger.warn('Draft embedding failed; the duplicate check uses lexical evidence only', {
+        error: String(error),
+      });
+      return { projection, segments, vectors: null };
+    }
+  }
+
   public async indexRevision(
     revisionId: string,
     alreadyClaimed = false,
     preparedRecord?: MemoryRecord,
     claimedJob?: ClaimedIndexJob,
+    draft?: DraftIndex,
   ): Promise<MemoryRecord> {
     if (!alreadyClaimed) this.store.markRevisionIndexRunning(revisionId);
     const record = preparedRecord ?? this.store.revisionForIndex(revisionId);
     const requiresSemanticIndex = claimedJob?.embeddingGenerationId != null;
     let segments = requiresSemanticIndex ? this.store.segmentsForRevision(revisionId) : [];
+    let draftVectors: DraftVectors | null = null;
     if (segments.length === 0) {
-      segments = createSegments({
-        memoryId: record.id,
-        revisionId: record.revision.id,
-        spaceId: record.spaceId,
-        title: record.revision.title,
-        kind: record.revision.kind,
-        content: record.revision.content,
-        tags: record.revision.tags,
-        metadata: record.revision.metadata,
-        sources: record.revision.sources,
-      });
-      try {
-        segments = await this.exactTokenize(segments);
-      } catch (error) {
-        this.logger.warn('Exact model token counting failed; retaining deterministic estimates', {
-          revisionId,
-          error: String(error),
-        });
+      const projection = recordProjection(record);
+      if (draft && sameProjection(draft.projection, projection)) {
+        segments = rebuildSegments(
+          draft.segments.map((segment) => ({
+            ...segment,
+            memoryId: record.id,
+            revisionId: record.revision.id,
+          })),
+        );
+        draftVectors = draft.vectors;
+      } else {
+        segments = await this.projectSegments(projection);
       }
       this.store.indexSegments(revisionId, segments, record.revision.title, record.revision.tags);
     }
@@ -110,28 +224,12 @@ export class Indexer {
       if (requiresSemanticIndex) throw new Error(error);
       return this.store.revisionForIndex(revisionId);
     }
+    let semanticallyIndexed = false;
     try {
-      const vectors = await this.models.embedDocuments(segments.map((segment) => segment.text));
-      for (const vector of vectors) {
-        if (vector.length !== this.config.embeddingDimension) {
-          throw new Error(
-            `Embedding dimension ${vector.length} does not match configured ${this.config.embeddingDimension}`,
-          );
-        }
-      }
-      const profile = await this.models.embeddingProfile();
-      if (profile.embedding_dimension !== this.config.embeddingDimension) {
-        throw new Error(
-          `Embedding model reports dimension ${String(profile.embedding_dimension)}; expected ${this.config.embeddingDimension}`,
-        );
-      }
-      const modelProfileId = this.store.ensureModelProfile({
-        provider: 'huggingface',
-        model: profile.embedding_model,
-        modelRevision: profile.embedding_revision,
-        dimensions: profile.embedding_dimension,
-        instructionHash: profile.query_instruction_hash,
-      });
+      const vectors =
+        draftVectors?.embeddings ??
+        (await this.models.embedDocuments(segments.map((segment) => segment.text)));
+      const modelProfileId = draftVectors?.modelProfileId ?? (await this.modelProfileFor(vectors));
       if (
         claimedJob?.embeddingGenerationId &&
         modelProfileId !== claimedJob.embeddingGenerationId
@@ -147,6 +245,7 @@ export class Indexer {
         undefined,
         claimedJob ? { id: claimedJob.id, status: 'complete' } : undefined,
       );
+      semanticallyIndexed = true;
     } catch (error) {
       this.logger.warn('Semantic indexing degraded; lexical index remains available', {
         revisionId,
@@ -162,7 +261,10 @@ export class Indexer {
       );
       if (requiresSemanticIndex) throw error;
     }
-    return this.store.revisionForIndex(revisionId);
+    const indexed = this.store.revisionForIndex(revisionId);
+    // Embedding generation upgrades re-embed unchanged revisions, so only new revisions qualify.
+    if (semanticallyIndexed && !requiresSemanticIndex) this.schedulePostIndex(indexed);
+    return indexed;
   }
 
   public async indexPending(
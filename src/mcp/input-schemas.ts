@@ -30,7 +30,24 @@ const feedbackSignalSchema = z.enum([
 const feedbackActorTypeSchema = z.enum(['user', 'agent', 'system', 'external']);
 const feedbackStatusSchema = z.enum(['unreviewed', 'supported', 'verified', 'needs-review']);
 const actorIdSchema = z.string().min(1).max(200);
+const jsonPointerSchema = z.string().max(4_000);
+const jsonPatchOperationSchema = z.discriminatedUnion('op', [
+  z.object({ op: z.literal('add'), path: jsonPointerSchema, value: z.json() }),
+  z.object({ op: z.literal('remove'), path: jsonPointerSchema }),
+  z.object({ op: z.literal('replace'), path: jsonPointerSchema, value: z.json() }),
+  z.object({ op: z.literal('move'), from: jsonPointerSchema, path: jsonPointerSchema }),
+  z.object({ op: z.literal('copy'), from: jsonPointerSchema, path: jsonPointerSchema }),
+  z.object({ op: z.literal('test'), path: jsonPointerSchema, value: z.json() }),
+]);
+const documentPatchSchema = z.discriminatedUnion('format', [
+  z.object({
+    format: z.literal('json-patch'),
+    operations: z.array(jsonPatchOperationSchema).min(1).max(500),
+  }),
+  z.object({ format: z.literal('merge-patch'), patch: contentSchema }),
+]);
 const logicalKeySchema = z.string().min(1).max(500);
+const keyConflictPolicySchema = z.enum(['fail', 'drop-key']);
 
 const memoryInputSchema = z.object({
   spaceId: z.string().min(1).max(200).optional(),
@@ -52,12 +69,41 @@ const memoryInputSchema = z.object({
 
 export type MemoryInputArguments = z.output<typeof memoryInputSchema>;
 
+const batchTargetSchema = z.union([
+  z.string().uuid(),
+  z.object({ $ref: z.number().int().min(0).max(99) }).strict(),
+]);
+const batchMemoryInputSchema = memoryInputSchema.omit({ idempotencyKey: true });
+const batchOperationSchema = z.discriminatedUnion('op', [
+  batchMemoryInputSchema.extend({
+    op: z.literal('create'),
+    logicalKey: logicalKeySchema.optional(),
+  }),
+  batchMemoryInputSchema.extend({
+    op: z.literal('revise'),
+    memoryId: batchTargetSchema,
+    expectedRevisionId: z.string().uuid().optional(),
+  }),
+  z.object({ op: z.literal('archive'), memoryId: batchTargetSchema }),
+  z.object({
+    op: z.literal('link'),
+    fromMemoryId: batchTargetSchema,
+    toMemoryId: batchTargetSchema,
+    relation: z.string().min(1).max(200),
+    metadata: jsonObjectSchema.optional(),
+    validFrom: dateSchema.optional(),
+    validTo: dateSchema.optional(),
+  }),
+  z.object({ op: z.literal('unlink'), linkId: batchTargetSchema }),
+]);
+
 export const toolInputSchemas = {
   space_create: z.object({
     id: z.string().min(1).max(200).optional(),
     name: z.string().min(1).max(200),
     description: z.string().max(2_000).optional(),
     metadata: jsonObjectSchema.optional(),
+    expiryAction: z.enum(['archive', 'delete']).optional(),
   }),
   space_list: z.object({
     id: z.string().min(1).max(200).optional(),
@@ -67,17 +113,102 @@ export const toolInputSchemas = {
     limit: z.number().int().min(1).max(100).optional(),
     cursor: z.string().max(2_000).optional(),
   }),
+  space_update: z.object({
+    spaceId: z.string().min(1).max(200),
+    expectedRevisionNumber: z.number().int().positive(),
+    name: z.string().min(1).max(200).optional(),
+    description: z.string().max(2_000).nullable().optional(),
+    metadata: jsonObjectSchema.optional(),
+    expiryAction: z.enum(['archive', 'delete']).optional(),
+    actorId: actorIdSchema.optional(),
+  }),
   space_delete: z.object({ spaceId: z.string().min(1).max(200) }),
   space_restore: z.object({ spaceId: z.string().min(1).max(200) }),
+  space_export: z.object({
+    spaceIds: z.array(z.string().min(1).max(200)).min(1).max(100),
+    atTime: dateSchema.optional(),
+  }),
+  space_import: z.object({
+    snapshot: jsonObjectSchema,
+    spaceIds: z.array(z.string().min(1).max(200)).min(1).max(100),
+    conflict: z.enum(['skip', 'overwrite', 'remap']).optional(),
+  }),
+  space_clone: z.object({
+    sourceSpaceId: z.string().min(1).max(200),
+    targetSpaceId: z.string().min(1).max(200),
+    name: z.string().min(1).max(200).optional(),
+    atTime: dateSchema.optional(),
+    includeHistory: z.boolean().optional(),
+  }),
+  kind_define: z.object({
+    spaceId: z.string().min(1).max(200).optional(),
+    kind: z.string().min(1).max(100),
+    schema: jsonObjectSchema.refine((value) => JSON.stringify(value).length <= 100_000, {
+      message: 'Kind schema must serialize to at most 100000 characters',
+    }),
+    description: z.string().max(2_000).optional(),
+  }),
+  kind_list: z.object({ spaceId: z.string().min(1).max(200).optional() }),
+  kind_get: z.object({
+    spaceId: z.string().min(1).max(200).optional(),
+    kind: z.string().min(1).max(100),
+  }),
+  relation_define: z.object({
+    spaceId: z.string().min(1).max(200).optional(),
+    relation: z.string().min(1).max(200),
+    inverse: z.string().min(1).max(200).optional(),
+    symmetric: z.boolean().optional(),
+    fromKinds: z.array(z.string().min(1).max(100)).max(100).optional(),
+    toKinds: z.array(z.string().min(1).max(100)).max(100).optional(),
+    cardinality: z.enum(['one-to-one', 'one-to-many', 'many-to-one', 'many-to-many']).optional(),
+    description: z.string().max(2_000).optional(),
+  }),
+  relation_list: z.object({ spaceId: z.string().min(1).max(200).optional() }),
   memory_create: memoryInputSchema.extend({
     logicalKey: logicalKeySchema.optional(),
     actorId: actorIdSchema.optional(),
+    dedupe: z.enum(['warn', 'reject', 'off']).optional(),
   }),
   memory_revise: memoryInputSchema.extend({
     memoryId: z.string().uuid(),
     expectedRevisionId: z.string().uuid(),
     actorId: actorIdSchema.optional(),
   }),
+  memory_patch: z.object({
+    memoryId: z.string().uuid(),
+    expectedRevisionId: z.string().uuid(),
+    content: documentPatchSchema.optional(),
+    metadata: documentPatchSchema.optional(),
+    addTags: z.array(z.string().min(1).max(100)).max(100).optional(),
+    removeTags: z.array(z.string().min(1).max(100)).max(100).optional(),
+    addSources: z.array(sourceSchema).max(100).optional(),
+    removeSourceUris: z.array(z.string().max(4_000)).max(100).optional(),
+    rebase: z.boolean().optional(),
+    actorId: actorIdSchema.optional(),
+  }),
+  memory_revert: z.object({
+    memoryId: z.string().uuid(),
+    revisionId: z.string().uuid(),
+    expectedRevisionId: z.string().uuid(),
+    actorId: actorIdSchema.optional(),
+  }),
+  memory_batch: z.object({
+    operations: z.array(batchOperationSchema).min(1).max(100),
+    idempotencyKey: z.string().min(1).max(500).optional(),
+    actorId: actorIdSchema.optional(),
+  }),
+  memory_move: z.object({
+    memoryId: z.string().uuid(),
+    targetSpaceId: z.string().min(1).max(200),
+    onKeyConflict: keyConflictPolicySchema.optional(),
+    unlinkExternalLinks: z.boolean().optional(),
+  }),
+  memory_copy: z.object({
+    memoryId: z.string().uuid(),
+    targetSpaceId: z.string().min(1).max(200),
+    onKeyConflict: keyConflictPolicySchema.optional(),
+    actorId: actorIdSchema.optional(),
+  }),
   memory_merge: z.object({
     canonicalMemoryId: z.string().uuid(),
     expectedCanonicalRevisionId: z.string().uuid(),
@@ -95,6 +226,25 @@ export const toolInputSchemas = {
     metadata: jsonObjectSchema.optional(),
     idempotencyKey: z.string().min(1).max(500).optional(),
   }),
+  memory_find_duplicates: z.object({
+    spaceId: z.string().min(1).max(200).optional(),
+    memoryId: z.string().uuid().optional(),
+    threshold: z.number().min(0.5).max(1).optional(),
+    limit: z.number().int().min(1).max(100).optional(),
+  }),
+  memory_check_consistency: z.object({
+    spaceId: z.string().min(1).max(200).optional(),
+    memoryId: z.string().uuid().optional(),
+    limit: z.number().int().min(1).max(50).optional(),
+    neighbors: z.number().int().min(1).max(20).optional(),
+    minRelevance: z.number().min(0).max(1).optional(),
+  }),
+  memory_unmerge: z.object({
+    operationId: z.string().uuid().optional(),
+    memoryId: z.string().uuid().optional(),
+    actorId: actorIdSchema.optional(),
+    reason: z.string().max(4_000).optional(),
+  }),
   memory_get: z.object({
     memoryId: z.string().uuid(),
     revisionId: z.string().uuid().optional(),
@@ -111,9 +261,14 @@ export const toolInputSchemas = {
     limit: z.number().int().min(1).max(100).optional(),
     cursor: z.string().max(2_000).optional(),
   }),
+  memory_diff: z.object({
+    memoryId: z.string().uuid(),
+    fromRevisionId: z.string().uuid(),
+    toRevisionId: z.string().uuid().optional(),
+  }),
   memory_list: z.object({
     spaceId: z.string().max(200).optional(),
-    state: z.enum(['active', 'archived']).optional(),
+    state: z.enum(['active', 'archived', 'deleted']).optional(),
     kind: z.string().max(100).optional(),
     tags: z.array(z.string()).max(100).optional(),
     feedbackStatus: feedbackStatusSchema.optional(),
@@ -142,7 +297,7 @@ export const toolInputSchemas = {
   }),
   memory_archive: z.object({ memoryId: z.string().uuid() }),
   memory_restore: z.object({ memoryId: z.string().uuid() }),
-  memory_delete: z.object({ memoryId: z.string().uuid() }),
+  memory_delete: z.object({ memoryId: z.string().uuid(), force: z.boolean().optional() }),
   memory_link: z.object({
     fromMemoryId: z.string().uuid(),
     toMemoryId: z.string().uuid(),
@@ -151,6 +306,37 @@ export const toolInputSchemas = {
     validFrom: dateSchema.optional(),
     validTo: dateSchema.optional(),
   }),
+  memory_suggest_links: z.object({
+    memoryId: z.string().uuid(),
+    limit: z.number().int().min(1).max(20).optional(),
+    minScore: z.number().min(0).max(1).optional(),
+    relation: z.string().min(1).max(200).optional(),
+  }),
+  memory_accept_link_suggestions: z.object({
+    suggestions: z
+      .array(
+        z.object({
+          fromMemoryId: z.string().uuid(),
+          toMemoryId: z.string().uuid(),
+          relation: z.string().min(1).max(200),
+          metadata: jsonObjectSchema.optional(),
+        }),
+      )
+      .min(1)
+      .max(100),
+  }),
+  memory_link_update: z.object({
+    linkId: z.string().uuid(),
+    expectedRevisionNumber: z.number().int().positive(),
+    metadata: jsonObjectSchema.optional(),
+    validFrom: dateSchema.nullable().optional(),
+    validTo: dateSchema.nullable().optional(),
+    actorId: actorIdSchema.optional(),
+  }),
+  memory_link_history: z.object({
+    linkId: z.string().uuid(),
+    atTime: dateSchema.optional(),
+  }),
   memory_unlink: z.object({ linkId: z.string().uuid() }),
   memory_traverse: z.object({
     memoryId: z.string().uuid(),
@@ -163,6 +349,20 @@ export const toolInputSchemas = {
     limit: z.number().int().min(1).max(200).optional(),
     cursor: z.string().max(2_000).optional(),
   }),
+  memory_path: z.object({
+    fromMemoryId: z.string().uuid(),
+    toMemoryId: z.string().uuid(),
+    maxDepth: z.number().int().min(0).max(5).optional(),
+    atTime: dateSchema.optional(),
+    relations: z.array(z.string().min(1).max(200)).max(50).optional(),
+    direction: z.enum(['outgoing', 'incoming', 'both']).optional(),
+    limit: z.number().int().min(1).max(20).optional(),
+    maxFanOut: z.number().int().min(1).max(500).optional(),
+  }),
+  memory_graph_stats: z.object({
+    spaceId: z.string().min(1).max(200).optional(),
+    limit: z.number().int().min(1).max(200).optional(),
+  }),
   memory_feedback: z.object({
     memoryId: z.string().uuid(),
     revisionId: z.string().uuid().optional(),
@@ -184,6 +384,44 @@ export const toolInputSchemas = {
     cursor: z.string().max(2_000).optional(),
     includeDetails: z.boolean().optional(),
   }),
+  memory_changes: z.object({
+    spaceIds: z.array(z.string().min(1).max(200)).max(100).optional(),
+    cursor: z.string().max(2_000).optional(),
+    limit: z.number().int().min(1).max(500).optional(),
+  }),
+  memory_review_queue: z.object({
+    spaceIds: z.array(z.string().min(1).max(200)).max(100).optional(),
+    sourceAgeDays: z.number().int().min(1).max(36_500).optional(),
+    limit: z.number().int().min(1).max(100).optional(),
+    cursor: z.string().max(2_000).optional(),
+  }),
+  memory_review: z.object({
+    memoryId: z.string().uuid(),
+    expectedRevisionId: z.string().uuid(),
+    action: z.enum(['snooze', 'reviewed']),
+    reviewAfter: dateSchema.optional(),
+    actorType: feedbackActorTypeSchema.optional(),
+    actorId: actorIdSchema.optional(),
+    note: z.string().max(4_000).optional(),
+  }),
+  memory_tags: z.object({
+    spaceIds: z.array(z.string().min(1).max(200)).max(100).optional(),
+    prefix: z.string().max(100).optional(),
+    limit: z.number().int().min(1).max(500).optional(),
+    cursor: z.string().max(2_000).optional(),
+  }),
+  tag_rename: z.object({
+    spaceId: z.string().min(1).max(200).optional(),
+    tag: z.string().min(1).max(100),
+    newTag: z.string().min(1).max(100),
+    actorId: actorIdSchema.optional(),
+  }),
+  tag_merge: z.object({
+    spaceId: z.string().min(1).max(200).optional(),
+    tags: z.array(z.string().min(1).max(100)).min(1).max(100),
+    into: z.string().min(1).max(100),
+    actorId: actorIdSchema.optional(),
+  }),
   memory_status: z.object({
     probeModels: z.boolean().optional(),
     includeDetails: z.boolean().optional(),
@@ -4,7 +4,7 @@ const uuidSchema = z.string().uuid();
 const isoDateTimeSchema = z.iso.datetime({ offset: true });
 const cursorSchema = z.string();
 const jsonObjectSchema = z.record(z.string(), z.json());
-const memoryStateSchema = z.enum(['active', 'archived']);
+const memoryStateSchema = z.enum(['active', 'archived', 'deleted']);
 const indexStatusSchema = z.enum(['pending', 'ready', 'lexical-only', 'failed']);
 const feedbackStatusSchema = z.enum(['unreviewed', 'supported', 'verified', 'needs-review']);
 const feedbackActorTypeSchema = z.enum(['user', 'agent', 'system', 'external']);
@@ -31,6 +31,7 @@ const revisionBaseShape = {
   revisionNumber: z.number().int().positive(),
   recordedAt: isoDateTimeSchema,
   parentRevisionId: uuidSchema.optional(),
+  revertedToRevisionId: uuidSchema.optional(),
   title: z.string().optional(),
   kind: z.string().optional(),
   tags: z.array(z.string()).optional(),
@@ -117,6 +118,23 @@ const traversalMemorySummaryOutputSchema = z
   .object({ ...memorySummaryBaseShape, state: memoryStateSchema })
   .strict();
 
+const jsonPatchOperationOutputSchema = z.union([
+  z.object({ op: z.enum(['add', 'replace']), path: z.string(), value: z.json() }).strict(),
+  z.object({ op: z.literal('remove'), path: z.string() }).strict(),
+]);
+
+const duplicateMatchOutputSchema = z
+  .object({
+    memoryId: uuidSchema,
+    expectedRevisionId: uuidSchema,
+    title: z.string().optional(),
+    similarity: z.number(),
+    contentHashMatch: z.literal(true).optional(),
+    semanticSimilarity: z.number().optional(),
+    lexicalOverlap: z.number().min(0).max(1),
+  })
+  .strict();
+
 const mutationAcknowledgementOutputSchema = z
   .object({
     id: uuidSchema,
@@ -138,7 +156,12 @@ const lifecycleAcknowledgementOutputSchema = z
   .strict();
 
 const deletionAcknowledgementOutputSchema = z
-  .object({ id: uuidSchema, deleted: z.literal(true) })
+  .object({
+    id: uuidSchema,
+    deleted: z.literal(true),
+    erased: z.literal(true).optional(),
+    purgeAfter: isoDateTimeSchema.optional(),
+  })
   .strict();
 
 const feedbackAcknowledgementOutputSchema = z
@@ -291,6 +314,96 @@ const inferenceSchedulerOutputSchema = z
   })
   .strict();
 
+const changeOutputSchema = z
+  .object({
+    sequence: z.number().int().positive(),
+    type: z.enum([
+      'space-created',
+      'space-deleted',
+      'space-restored',
+      'revision',
+      'state',
+      'link',
+      'unlink',
+      'merge',
+      'feedback',
+      'erasure',
+      'move',
+    ]),
+    spaceId: z.string(),
+    memoryId: uuidSchema.optional(),
+    recordId: z.string(),
+    changedAt: isoDateTimeSchema,
+  })
+  .strict();
+
+const snapshotLinkOutputSchema = z
+  .object({
+    id: uuidSchema,
+    spaceId: z.string(),
+    fromMemoryId: uuidSchema,
+    toMemoryId: uuidSchema,
+    relation: z.string(),
+    metadata: jsonObjectSchema,
+    validFrom: isoDateTimeSchema.nullable(),
+    validTo: isoDateTimeSchema.nullable(),
+    createdAt: isoDateTimeSchema,
+    deletedAt: isoDateTimeSchema.nullable(),
+    revisionNumber: z.number().int().positive().optional(),
+    history: z.array(jsonObjectSchema).optional(),
+  })
+  .strict();
+
+const linkRevisionOutputSchema = z
+  .object({
+    revisionNumber: z.number().int().positive(),
+    metadata: jsonObjectSchema.optional(),
+    validFrom: isoDateTimeSchema.optional(),
+    validTo: isoDateTimeSchema.optional(),
+    recordedAt: isoDateTimeSchema,
+    actor: z.string().optional(),
+  })
+  .strict();
+
+const kindSummaryOutputSchema = z
+  .object({
+    spaceId: z.string(),
+    kind: z.string(),
+    description: z.string().optional(),
+    createdAt: isoDateTimeSchema,
+    updatedAt: isoDateTimeSchema,
+  })
+  .strict();
+
+const relationTypeOutputSchema = z
+  .object({
+    spaceId: z.string(),
+    relation: z.string(),
+    inverse: z.string().optional(),
+    symmetric: z.literal(true).optional(),
+    fromKinds: z.array(z.string()).optional(),
+    toKinds: z.array(z.string()).optional(),
+    cardinality: z.enum(['one-to-one', 'one-to-many', 'many-to-one', 'many-to-many']),
+    description: z.string().optional(),
+    createdAt: isoDateTimeSchema,
+    updatedAt: isoDateTimeSchema,
+  })
+  .strict();
+
+const tagRewriteOutputSchema = z
+  .object({
+    tags: z.array(z.string()),
+    into: z.string(),
+    memoriesUpdated: z.number().int().nonnegative(),
+    indexed: z.number().int().nonnegative(),
+    failed: z.number().int().nonnegative(),
+  })
+  .strict();
+
+const importCountsOutputSchema = z
+  .object({ imported: z.number().int().nonnegative(), skipped: z.number().int().nonnegative() })
+  .strict();
+
 export const toolOutputSchemas = {
   space_create: z.object({ id: z.string(), createdAt: isoDateTimeSchema }).strict(),
   space_list: z
@@ -302,13 +415,25 @@ export const toolOutputSchemas = {
             name: z.string(),
             description: z.string().optional(),
             metadata: jsonObjectSchema.optional(),
+            expiryAction: z.literal('delete').optional(),
             deletedAt: isoDateTimeSchema.optional(),
+            revisionNumber: z.number().int().positive(),
           })
           .strict(),
       ),
       nextCursor: cursorSchema.optional(),
     })
     .strict(),
+  space_update: z
+    .object({
+      id: z.string(),
+      name: z.string(),
+      description: z.string().optional(),
+      metadata: jsonObjectSchema.optional(),
+      expiryAction: z.literal('delete').optional(),
+      revisionNumber: z.number().int().positive(),
+    })
+    .strict(),
   space_delete: z
     .object({
       id: z.string(),
@@ -317,8 +442,108 @@ export const toolOutputSchemas = {
     })
     .strict(),
   space_restore: z.object({ id: z.string(), restored: z.literal(true) }).strict(),
-  memory_create: mutationAcknowledgementOutputSchema,
+  space_export: z
+    .object({
+      exportedAt: isoDateTimeSchema,
+      spaceIds: z.array(z.string()),
+      atTime: isoDateTimeSchema.optional(),
+      spaces: z.array(jsonObjectSchema),
+      kinds: z.array(jsonObjectSchema),
+      relationTypes: z.array(jsonObjectSchema),
+      memories: z.array(jsonObjectSchema),
+      links: z.array(snapshotLinkOutputSchema),
+      feedback: z.array(jsonObjectSchema),
+      stateEvents: z.array(jsonObjectSchema),
+      mergeOperations: z.array(jsonObjectSchema),
+      redirectEvents: z.array(jsonObjectSchema),
+      crossingLinks: z.array(snapshotLinkOutputSchema),
+    })
+    .strict(),
+  space_import: z
+    .object({
+      conflict: z.enum(['skip', 'overwrite', 'remap']),
+      spaces: importCountsOutputSchema.extend({ updated: z.number().int().nonnegative() }),
+      kinds: importCountsOutputSchema,
+      relationTypes: importCountsOutputSchema,
+      memories: importCountsOutputSchema.extend({
+        overwritten: z.number().int().nonnegative(),
+        remapped: z.number().int().nonnegative(),
+        clearedLogicalKeys: z.number().int().nonnegative(),
+      }),
+      revisions: z.number().int().nonnegative(),
+      links: importCountsOutputSchema,
+      feedback: importCountsOutputSchema,
+      stateEvents: importCountsOutputSchema,
+      mergeOperations: importCountsOutputSchema,
+      redirectEvents: importCountsOutputSchema,
+      memoryIdMap: z.record(uuidSchema, uuidSchema),
+      crossingLinks: z.array(snapshotLinkOutputSchema),
+      indexed: z.number().int().nonnegative(),
+      failed: z.number().int().nonnegative(),
+    })
+    .strict(),
+  space_clone: z
+    .object({
+      id: z.string(),
+      name: z.string(),
+      sourceSpaceId: z.string(),
+      revisionNumber: z.number().int().positive(),
+      memories: z.number().int().nonnegative(),
+      revisions: z.number().int().nonnegative(),
+      links: z.number().int().nonnegative(),
+      kinds: z.number().int().nonnegative(),
+      relationTypes: z.number().int().nonnegative(),
+      reusedIndexRevisions: z.number().int().nonnegative(),
+      memoryIdMap: z.record(uuidSchema, uuidSchema),
+      indexed: z.number().int().nonnegative(),
+      failed: z.number().int().nonnegative(),
+    })
+    .strict(),
+  kind_define: kindSummaryOutputSchema,
+  kind_list: z.object({ items: z.array(kindSummaryOutputSchema) }).strict(),
+  kind_get: kindSummaryOutputSchema.extend({ schema: jsonObjectSchema }).strict(),
+  relation_define: relationTypeOutputSchema,
+  relation_list: z.object({ items: z.array(relationTypeOutputSchema) }).strict(),
+  memory_create: mutationAcknowledgementOutputSchema
+    .extend({ similarMemories: z.array(duplicateMatchOutputSchema).optional() })
+    .strict(),
   memory_revise: mutationAcknowledgementOutputSchema,
+  memory_patch: mutationAcknowledgementOutputSchema
+    .extend({ rebasedOnRevisionId: uuidSchema.optional() })
+    .strict(),
+  memory_revert: mutationAcknowledgementOutputSchema
+    .extend({ revertedToRevisionId: uuidSchema })
+    .strict(),
+  memory_batch: z
+    .object({
+      items: z.array(
+        z
+          .object({
+            op: z.enum(['create', 'revise', 'archive', 'link', 'unlink']),
+            memoryId: uuidSchema.optional(),
+            revisionId: uuidSchema.optional(),
+            linkId: uuidSchema.optional(),
+          })
+          .strict(),
+      ),
+      replayed: z.literal(true).optional(),
+      indexed: z.number().int().nonnegative(),
+      failed: z.number().int().nonnegative(),
+    })
+    .strict(),
+  memory_move: z
+    .object({
+      id: uuidSchema,
+      spaceId: z.string(),
+      fromSpaceId: z.string(),
+      movedMemoryIds: z.array(uuidSchema).min(1),
+      clearedLogicalKeyMemoryIds: z.array(uuidSchema).optional(),
+      unlinkedLinkIds: z.array(uuidSchema).optional(),
+    })
+    .strict(),
+  memory_copy: mutationAcknowledgementOutputSchema
+    .extend({ sourceMemoryId: uuidSchema, sourceRevisionId: uuidSchema })
+    .strict(),
   memory_merge: z
     .object({
       operationId: uuidSchema,
@@ -329,6 +554,59 @@ export const toolOutputSchemas = {
       redirectedMemoryCount: z.number().int().nonnegative().optional(),
     })
     .strict(),
+  memory_find_duplicates: z
+    .object({
+      scannedMemories: z.number().int().nonnegative(),
+      truncated: z.literal(true).optional(),
+      semanticAvailable: z.boolean(),
+      clusters: z.array(
+        z
+          .object({
+            canonicalMemoryId: uuidSchema,
+            expectedCanonicalRevisionId: uuidSchema,
+            title: z.string().optional(),
+            score: z.number(),
+            duplicates: z.array(duplicateMatchOutputSchema),
+          })
+          .strict(),
+      ),
+    })
+    .strict(),
+  memory_check_consistency: z
+    .object({
+      checkedMemories: z.number().int().nonnegative(),
+      comparedPairs: z.number().int().nonnegative(),
+      degraded: z.literal(true).optional(),
+      degradationReason: z.string().optional(),
+      conflicts: z.array(
+        z
+          .object({
+            memoryId: uuidSchema,
+            revisionId: uuidSchema,
+            otherMemoryId: uuidSchema,
+            otherRevisionId: uuidSchema,
+            relevance: z.number().optional(),
+            reasons: z.array(
+              z.enum(['same-title', 'same-kind', 'overlapping-validity', 'different-values']),
+            ),
+            differingPaths: z.array(z.string()),
+            linkedRelations: z.array(z.string()).optional(),
+          })
+          .strict(),
+      ),
+    })
+    .strict(),
+  memory_unmerge: z
+    .object({
+      unmergeId: uuidSchema,
+      operationId: uuidSchema,
+      canonicalMemoryId: uuidSchema,
+      unmergedMemoryIds: z.array(uuidSchema),
+      mergedMemoryCount: z.number().int().nonnegative(),
+      releasedRedirectCount: z.number().int().nonnegative(),
+      createdAt: isoDateTimeSchema,
+    })
+    .strict(),
   memory_get: completeMemoryOutputSchema,
   memory_get_by_key: z
     .object({
@@ -342,6 +620,38 @@ export const toolOutputSchemas = {
       nextCursor: cursorSchema.optional(),
     })
     .strict(),
+  memory_diff: z
+    .object({
+      memoryId: uuidSchema,
+      fromRevisionId: uuidSchema,
+      toRevisionId: uuidSchema,
+      fromMemoryId: uuidSchema.optional(),
+      toMemoryId: uuidSchema.optional(),
+      content: z.array(jsonPatchOperationOutputSchema),
+      metadata: z.array(jsonPatchOperationOutputSchema),
+      fields: z.array(
+        z
+          .object({
+            field: z.enum([
+              'title',
+              'kind',
+              'tags',
+              'sources',
+              'salience',
+              'confidence',
+              'observedAt',
+              'validFrom',
+              'validTo',
+              'expiresAt',
+              'reviewAfter',
+            ]),
+            from: z.json().optional(),
+            to: z.json().optional(),
+          })
+          .strict(),
+      ),
+    })
+    .strict(),
   memory_list: z
     .object({ items: z.array(memorySummaryOutputSchema), nextCursor: cursorSchema.optional() })
     .strict(),
@@ -357,7 +667,73 @@ export const toolOutputSchemas = {
   memory_archive: lifecycleAcknowledgementOutputSchema,
   memory_restore: lifecycleAcknowledgementOutputSchema,
   memory_delete: deletionAcknowledgementOutputSchema,
-  memory_link: z.object({ id: uuidSchema, createdAt: isoDateTimeSchema }).strict(),
+  memory_link: z
+    .object({
+      id: uuidSchema,
+      createdAt: isoDateTimeSchema,
+      revisionNumber: z.number().int().positive(),
+    })
+    .strict(),
+  memory_suggest_links: z
+    .object({
+      memoryId: uuidSchema,
+      semanticAvailable: z.boolean(),
+      degraded: z.literal(true).optional(),
+      degradationReason: z.string().optional(),
+      suggestions: z.array(
+        z
+          .object({
+            fromMemoryId: uuidSchema,
+            toMemoryId: uuidSchema,
+            relation: z.string(),
+            memoryId: uuidSchema,
+            title: z.string().optional(),
+            score: z.number(),
+            similarity: z.number(),
+            rerankerScore: z.number().optional(),
+          })
+          .strict(),
+      ),
+    })
+    .strict(),
+  memory_accept_link_suggestions: z
+    .object({
+      linked: z.number().int().nonnegative(),
+      rejected: z.number().int().nonnegative(),
+      results: z.array(
+        z
+          .object({
+            fromMemoryId: uuidSchema,
+            toMemoryId: uuidSchema,
+            relation: z.string(),
+            linkId: uuidSchema.optional(),
+            revisionNumber: z.number().int().positive().optional(),
+            error: z.string().optional(),
+          })
+          .strict(),
+      ),
+    })
+    .strict(),
+  memory_link_update: z
+    .object({
+      id: uuidSchema,
+      revisionNumber: z.number().int().positive(),
+      metadata: jsonObjectSchema.optional(),
+      validFrom: isoDateTimeSchema.optional(),
+      validTo: isoDateTimeSchema.optional(),
+    })
+    .strict(),
+  memory_link_history: z
+    .object({
+      id: uuidSchema,
+      relation: z.string(),
+      fromMemoryId: uuidSchema,
+      toMemoryId: uuidSchema,
+      revisionNumber: z.number().int().positive(),
+      deletedAt: isoDateTimeSchema.optional(),
+      items: z.array(linkRevisionOutputSchema),
+    })
+    .strict(),
   memory_unlink: z
     .object({ id: uuidSchema, deleted: z.literal(true), deletedAt: isoDateTimeSchema.optional() })
     .strict(),
@@ -381,10 +757,116 @@ export const toolOutputSchemas = {
       degradationReason: z.string().optional(),
     })
     .strict(),
+  memory_path: z
+    .object({
+      paths: z.array(
+        z
+          .object({
+            length: z.number().int().nonnegative(),
+            memoryIds: z.array(uuidSchema).min(1),
+            steps: z.array(traversalPathStepOutputSchema),
+          })
+          .strict(),
+      ),
+      memories: z.array(traversalMemorySummaryOutputSchema),
+      truncated: z.literal(true).optional(),
+      atTime: isoDateTimeSchema,
+    })
+    .strict(),
+  memory_graph_stats: z
+    .object({
+      spaceId: z.string(),
+      memoryCount: z.number().int().nonnegative(),
+      linkCount: z.number().int().nonnegative(),
+      componentCount: z.number().int().nonnegative(),
+      components: z.array(
+        z
+          .object({
+            size: z.number().int().positive(),
+            linkCount: z.number().int().positive(),
+            memoryIds: z.array(uuidSchema),
+          })
+          .strict(),
+      ),
+      orphanCount: z.number().int().nonnegative(),
+      orphans: z.array(z.object({ memoryId: uuidSchema, title: z.string().optional() }).strict()),
+      hubs: z.array(
+        z
+          .object({
+            memoryId: uuidSchema,
+            title: z.string().optional(),
+            inDegree: z.number().int().nonnegative(),
+            outDegree: z.number().int().nonnegative(),
+            degree: z.number().int().positive(),
+            centrality: z.number().nonnegative(),
+          })
+          .strict(),
+      ),
+      danglingLinkCount: z.number().int().nonnegative(),
+      danglingLinks: z.array(
+        z
+          .object({
+            linkId: uuidSchema,
+            fromMemoryId: uuidSchema,
+            toMemoryId: uuidSchema,
+            relation: z.string(),
+            inactiveEndpoints: z
+              .array(
+                z.object({ memoryId: uuidSchema, state: z.enum(['archived', 'deleted']) }).strict(),
+              )
+              .min(1),
+          })
+          .strict(),
+      ),
+      relations: z.array(
+        z.object({ relation: z.string(), count: z.number().int().positive() }).strict(),
+      ),
+    })
+    .strict(),
   memory_feedback: feedbackAcknowledgementOutputSchema,
   memory_feedback_list: z
     .object({ items: z.array(feedbackListItemOutputSchema), nextCursor: cursorSchema.optional() })
     .strict(),
+  memory_changes: z
+    .object({ items: z.array(changeOutputSchema), cursor: cursorSchema, hasMore: z.boolean() })
+    .strict(),
+  memory_review_queue: z
+    .object({
+      items: z.array(
+        z
+          .object({
+            ...memorySummaryBaseShape,
+            reviewReasons: z.array(z.enum(['needs-review', 'review-due', 'stale-sources'])).min(1),
+            sourcesObservedAt: isoDateTimeSchema.optional(),
+          })
+          .strict(),
+      ),
+      nextCursor: cursorSchema.optional(),
+    })
+    .strict(),
+  memory_review: mutationAcknowledgementOutputSchema
+    .extend({
+      revised: z.boolean(),
+      reviewAfter: isoDateTimeSchema.optional(),
+      feedbackId: uuidSchema.optional(),
+    })
+    .strict(),
+  memory_tags: z
+    .object({
+      items: z.array(
+        z
+          .object({
+            tag: z.string(),
+            spaceId: z.string(),
+            memoryCount: z.number().int().positive(),
+          })
+          .strict(),
+      ),
+      nextCursor: cursorSchema.optional(),
+    })
+    .strict(),
+  tag_rename: tagRewriteOutputSchema,
+  tag_merge: tagRewriteOutputSchema,
   memory_status: z
     .object({
       database: z.string().optional(),
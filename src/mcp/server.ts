@@ -6,22 +6,39 @@ import {
   MemoryAccessError,
   type SpaceAccessLevel,
 } from '../access/authorization.js';
+import {
+  isMemoryGraphFormat,
+  memoryGraphMimeTypes,
+  renderMemoryGraph,
+} from '../application/graph-export.js';
 import type { MemoryService } from '../application/memory-service.js';
-import { MemoryIdentityConflictError } from '../domain/errors.js';
+import {
+  MemoryContentSchemaError,
+  MemoryDuplicateError,
+  MemoryIdentityConflictError,
+} from '../domain/errors.js';
 import type {
   FeedbackSummary,
   JsonObject,
   JsonValue,
+  MemoryBatchOperation,
   MemoryCreateInput,
+  MemoryDeleteResult,
+  MemoryDuplicateMatch,
   MemoryFeedback,
   MemoryHistoryPage,
   MemoryHistoryRevision,
   MemoryInput,
+  MemoryKindDefinition,
+  MemoryLink,
   MemoryMergeResult,
   MemoryRecord,
+  MemoryRelationTypeDefinition,
   MemoryRevision,
+  MemoryRevisionDiff,
   MemorySearchRecord,
   MemorySummaryRecord,
+  MemoryTraversalPathStep,
   SearchResponse,
   SourceInput,
 } from '../domain/types.js';
@@ -31,24 +48,54 @@ import { toolOutputSchemas } from './output-schemas.js';
 export const mcpToolAccessLevels = {
   space_create: 'manage',
   space_list: 'read',
+  space_update: 'manage',
   space_delete: 'manage',
   space_restore: 'manage',
+  space_export: 'read',
+  space_import: 'manage',
+  space_clone: 'manage',
+  kind_define: 'manage',
+  kind_list: 'read',
+  kind_get: 'read',
+  relation_define: 'manage',
+  relation_list: 'read',
   memory_create: 'write',
   memory_revise: 'write',
+  memory_patch: 'write',
+  memory_revert: 'write',
+  memory_batch: 'write',
+  memory_move: 'manage',
+  memory_copy: 'manage',
+  memory_find_duplicates: 'read',
+  memory_check_consistency: 'read',
   memory_merge: 'manage',
+  memory_unmerge: 'manage',
   memory_get: 'read',
   memory_get_by_key: 'read',
   memory_history: 'read',
+  memory_diff: 'read',
   memory_list: 'read',
   memory_search: 'read',
   memory_archive: 'write',
   memory_restore: 'write',
   memory_delete: 'manage',
   memory_link: 'write',
+  memory_suggest_links: 'read',
+  memory_accept_link_suggestions: 'write',
+  memory_link_update: 'write',
+  memory_link_history: 'read',
   memory_unlink: 'write',
   memory_traverse: 'read',
+  memory_path: 'read',
+  memory_graph_stats: 'read',
   memory_feedback: 'write',
   memory_feedback_list: 'read',
+  memory_changes: 'read',
+  memory_review_queue: 'read',
+  memory_review: 'write',
+  memory_tags: 'read',
+  tag_rename: 'manage',
+  tag_merge: 'manage',
   memory_status: 'read',
 } as const satisfies Record<string, SpaceAccessLevel>;
 
@@ -86,6 +133,48 @@ function memoryResourceUri(memory: Pick<MemoryRecord, 'id' | 'spaceId'>): string
   return `memory://spaces/${encodeURIComponent(memory.spaceId)}/memories/${memory.id}`;
 }
 
+function spaceResourceUri(spaceId: string): string {
+  return `memory://spaces/${encodeURIComponent(spaceId)}`;
+}
+
+function kindResourceUri(definition: Pick<MemoryKindDefinition, 'spaceId' | 'kind'>): string {
+  return `memory://spaces/${encodeURIComponent(definition.spaceId)}/kinds/${encodeURIComponent(definition.kind)}`;
+}
+
+function kindSummary(definition: MemoryKindDefinition): JsonObject {
+  return {
+    spaceId: definition.spaceId,
+    kind: definition.kind,
+    ...(definition.description ? { description: definition.description } : {}),
+    createdAt: definition.createdAt,
+    updatedAt: definition.updatedAt,
+  };
+}
+
+function relationTypeSummary(definition: MemoryRelationTypeDefinition): JsonObject {
+  return {
+    spaceId: definition.spaceId,
+    relation: definition.relation,
+    ...(definition.inverse ? { inverse: definition.inverse } : {}),
+    ...(definition.symmetric ? { symmetric: true } : {}),
+    ...(definition.fromKinds.length > 0 ? { fromKinds: definition.fromKinds } : {}),
+    ...(definition.toKinds.length > 0 ? { toKinds: definition.toKinds } : {}),
+    cardinality: definition.cardinality,
+    ...(definition.description ? { description: definition.description } : {}),
+    createdAt: definition.createdAt,
+    updatedAt: definition.updatedAt,
+  };
+}
+
+function contentSchemaErrorResult(error: MemoryContentSchemaError) {
+  return errorResult({
+    error: 'content-schema-violation',
+    message: error.message,
+    ...error.details,
+    nextAction: `Read ${kindResourceUri(error.details)} or kind_get and resubmit content that matches the schema.`,
+  });
+}
+
 function sourcePayload(source: SourceInput, includeMetadata: boolean): JsonObject {
   const payload: JsonObject = {};
   if (source.uri !== undefined) payload.uri = source.uri;
@@ -119,6 +208,9 @@ function revisionPayload(
     recordedAt: revision.recordedAt,
   };
   if (revision.parentRevisionId !== null) payload.parentRevisionId = revision.parentRevisionId;
+  if (revision.revertedToRevisionId !== null) {
+    payload.revertedToRevisionId = revision.revertedToRevisionId;
+  }
   if (revision.title !== null) payload.title = revision.title;
   if (revision.kind !== null) payload.kind = revision.kind;
   if (revision.tags.length > 0) payload.tags = revision.tags;
@@ -234,6 +326,19 @@ function mutationAcknowledgement(memory: MemoryRecord): JsonObject {
   return payload;
 }
 
+function duplicateMatchPayload(match: MemoryDuplicateMatch): JsonObject {
+  const payload: JsonObject = {
+    memoryId: match.memoryId,
+    expectedRevisionId: match.expectedRevisionId,
+  };
+  if (match.title !== null) payload.title = match.title;
+  payload.similarity = match.similarity;
+  if (match.contentHashMatch) payload.contentHashMatch = true;
+  if (match.semanticSimilarity !== null) payload.semanticSimilarity = match.semanticSimilarity;
+  payload.lexicalOverlap = match.lexicalOverlap;
+  return payload;
+}
+
 function lifecycleAcknowledgement(memory: MemoryRecord): JsonObject {
   return {
     id: memory.id,
@@ -242,8 +347,13 @@ function lifecycleAcknowledgement(memory: MemoryRecord): JsonObject {
   };
 }
 
-function deletionAcknowledgement(memoryId: string): JsonObject {
-  return { id: memoryId, deleted: true };
+function deletionAcknowledgement(deletion: MemoryDeleteResult): JsonObject {
+  return {
+    id: deletion.memoryId,
+    deleted: true,
+    ...(deletion.erased ? { erased: true } : {}),
+    ...(deletion.purgeAfter ? { purgeAfter: deletion.purgeAfter } : {}),
+  };
 }
 
 function mergeAcknowledgement(merge: MemoryMergeResult): JsonObject {
@@ -303,8 +413,10 @@ function spacePayload(
       name: z.string(),
       description: z.string().nullable(),
       metadata: z.record(z.string(), z.json()),
+      expiryAction: z.enum(['archive', 'delete']),
       createdAt: z.string(),
       deletedAt: z.string().nullable(),
+      revisionNumber: z.number().int(),
     })
     .parse(space);
   if (options.acknowledgement) return { id: parsed.id, createdAt: parsed.createdAt };
@@ -313,12 +425,35 @@ function spacePayload(
   if (options.includeMetadata && Object.keys(parsed.metadata).length > 0) {
     payload.metadata = parsed.metadata;
   }
+  if (parsed.expiryAction === 'delete') payload.expiryAction = parsed.expiryAction;
   if (parsed.deletedAt !== null) payload.deletedAt = parsed.deletedAt;
+  payload.revisionNumber = parsed.revisionNumber;
   return payload;
 }
 
-function linkAcknowledgement(link: { id: string; createdAt: string }): JsonObject {
-  return { id: link.id, createdAt: link.createdAt };
+function pathStepPayload(step: MemoryTraversalPathStep): JsonObject {
+  return {
+    linkId: step.link.id,
+    relation: step.link.relation,
+    direction: step.direction,
+    fromMemoryId: step.link.fromMemoryId,
+    toMemoryId: step.link.toMemoryId,
+    ...(step.link.validFrom ? { validFrom: step.link.validFrom } : {}),
+    ...(step.link.validTo ? { validTo: step.link.validTo } : {}),
+    ...(Object.keys(step.link.metadata).length > 0 ? { metadata: step.link.metadata } : {}),
+  };
+}
+
+function linkAcknowledgement(link: MemoryLink): JsonObject {
+  return { id: link.id, createdAt: link.createdAt, revisionNumber: link.revisionNumber };
+}
+
+function linkValidityPayload(link: Pick<MemoryLink, 'metadata' | 'validFrom' | 'validTo'>) {
+  return {
+    ...(Object.keys(link.metadata).length > 0 ? { metadata: link.metadata } : {}),
+    ...(link.validFrom ? { validFrom: link.validFrom } : {}),
+    ...(link.validTo ? { validTo: link.validTo } : {}),
+  };
 }
 
 function unlinkAcknowledgement(link: { id: string; deletedAt: string | null }): JsonObject {
@@ -327,6 +462,16 @@ function unlinkAcknowledgement(link: { id: string; deletedAt: string | null }):
   return payload;
 }
 
+function toSourceInput(source: NonNullable<MemoryInputArguments['sources']>[number]): SourceInput {
+  return {
+    ...(source.uri ? { uri: source.uri } : {}),
+    ...(source.label ? { label: source.label } : {}),
+    ...(source.type ? { type: source.type } : {}),
+    ...(source.observedAt ? { observedAt: source.observedAt } : {}),
+    ...(source.metadata ? { metadata: source.metadata } : {}),
+  };
+}
+
 function toMemoryInput(args: MemoryInputArguments): MemoryInput {
   const input: MemoryInput = { content: args.content };
   if (args.spaceId !== undefined) input.spaceId = args.spaceId;
@@ -334,15 +479,7 @@ function toMemoryInput(args: MemoryInputArguments): MemoryInput {
   if (args.kind !== undefined) input.kind = args.kind;
   if (args.tags !== undefined) input.tags = args.tags;
   if (args.metadata !== undefined) input.metadata = args.metadata;
-  if (args.sources !== undefined) {
-    input.sources = args.sources.map((source) => ({
-      ...(source.uri ? { uri: source.uri } : {}),
-      ...(source.label ? { label: source.label } : {}),
-      ...(source.type ? { type: source.type } : {}),
-      ...(source.observedAt ? { observedAt: source.observedAt } : {}),
-      ...(source.metadata ? { metadata: source.metadata } : {}),
-    }));
-  }
+  if (args.sources !== undefined) input.sources = args.sources.map(toSourceInput);
   if (args.salience !== undefined) input.salience = args.salience;
   if (args.confidence !== undefined) input.confidence = args.confidence;
   if (args.observedAt !== undefined) input.observedAt = args.observedAt;
@@ -447,6 +584,24 @@ function historyPage(page: MemoryHistoryPage, includeContent: boolean): JsonObje
   return payload;
 }
 
+function diffPayload(diff: MemoryRevisionDiff): JsonObject {
+  const payload: JsonObject = {
+    memoryId: diff.memoryId,
+    fromRevisionId: diff.from.revisionId,
+    toRevisionId: diff.to.revisionId,
+  };
+  if (diff.from.memoryId !== diff.memoryId) payload.fromMemoryId = diff.from.memoryId;
+  if (diff.to.memoryId !== diff.memoryId) payload.toMemoryId = diff.to.memoryId;
+  payload.content = diff.content;
+  payload.metadata = diff.metadata;
+  payload.fields = diff.fields.map((change) => ({
+    field: change.field,
+    ...(change.from !== null ? { from: change.from } : {}),
+    ...(change.to !== null ? { to: change.to } : {}),
+  }));
+  return payload;
+}
+
 export function buildMcpServer(
   service: MemoryService,
   authorization: AuthorizationService,
@@ -514,7 +669,7 @@ export function buildMcpServer(
     {
       title: 'Create memory space',
       description:
-        'Create a named container for related memories. Spaces impose no domain semantics and can isolate access.',
+        'Create a named container for related memories. Spaces impose no domain semantics and can isolate access. expiryAction decides whether memories past expiresAt are archived (default) or deleted by the expiry sweep.',
       inputSchema: toolInputSchemas.space_create,
       outputSchema: toolOutputSchemas.space_create,
       annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
@@ -532,6 +687,7 @@ export function buildMcpServer(
         ...(args.id ? { id: args.id } : {}),
         ...(args.description ? { description: args.description } : {}),
         ...(args.metadata ? { metadata: args.metadata } : {}),
+        ...(args.expiryAction ? { expiryAction: args.expiryAction } : {}),
       };
       return result(spacePayload(service.createSpace(input), { acknowledgement: true }));
     },
@@ -568,6 +724,33 @@ export function buildMcpServer(
     },
   );
 
+  server.registerTool(
+    'space_update',
+    {
+      title: 'Update memory space',
+      description:
+        'Rename a space or change its description, metadata, or expiryAction so space_list discovery and the expiry sweep stay accurate. Omitted fields are kept and description:null clears it. Pass the revisionNumber from space_list as expectedRevisionNumber; every change is kept in the space history at memory://spaces/{spaceId}.',
+      inputSchema: toolInputSchemas.space_update,
+      outputSchema: toolOutputSchemas.space_update,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+    },
+    async ({ actorId, ...args }) => {
+      authorization.requireSpace(context, args.spaceId, 'manage', true);
+      const space = service.updateSpace(
+        {
+          spaceId: args.spaceId,
+          expectedRevisionNumber: args.expectedRevisionNumber,
+          ...(args.name !== undefined ? { name: args.name } : {}),
+          ...(args.description !== undefined ? { description: args.description } : {}),
+          ...(args.metadata ? { metadata: args.metadata } : {}),
+          ...(args.expiryAction ? { expiryAction: args.expiryAction } : {}),
+        },
+        authorization.actor(context, actorId) ?? null,
+      );
+      return result(spacePayload(space, { includeMetadata: true }), [spaceResourceUri(space.id)]);
+    },
+  );
+
   server.registerTool(
     'space_delete',
     {
@@ -602,17 +785,196 @@ export function buildMcpServer(
     },
   );
 
+  server.registerTool(
+    'space_export',
+    {
+      title: 'Export memory spaces',
+      description:
+        'Export complete memory spaces, including history, links, feedback, and merges, as a snapshot for space_import or memoryctl import. atTime exports the spaces as recorded then. Links to memories outside the selected spaces are reported in crossingLinks instead of being exported.',
+      inputSchema: toolInputSchemas.space_export,
+      outputSchema: toolOutputSchemas.space_export,
+      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
+    },
+    async ({ spaceIds, atTime }) => {
+      for (const spaceId of spaceIds) requireActiveSpace(context, spaceId, 'read');
+      return result(service.exportSnapshot({ spaceIds, ...(atTime ? { atTime } : {}) }));
+    },
+  );
+
+  server.registerTool(
+    'space_import',
+    {
+      title: 'Import memory spaces',
+      description:
+        'Replay the selected spaces from a space_export or memoryctl export snapshot, preserving revision numbers, record times, merges, and redirects. Existing records are kept by default; conflict:"overwrite" replaces them and conflict:"remap" imports them under new identifiers. Records held by spaces outside the import are never replaced; their identifiers are remapped. Requires manage access to every imported space.',
+      inputSchema: toolInputSchemas.space_import,
+      outputSchema: toolOutputSchemas.space_import,
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false },
+    },
+    async ({ snapshot, spaceIds, conflict }) => {
+      for (const spaceId of spaceIds) authorization.requireSpace(context, spaceId, 'manage');
+      return result(
+        await service.importSnapshot(snapshot, { spaceIds, ...(conflict ? { conflict } : {}) }),
+      );
+    },
+  );
+
+  server.registerTool(
+    'space_clone',
+    {
+      title: 'Clone memory space',
+      description:
+        'Copy the current memories of a space, or those recorded at atTime, with their links, logical keys, kind schemas, and relation definitions into a new space, for example to try a reorganization without touching the original. includeHistory also copies every revision, state change, feedback event, and merge. Existing segment vectors are reused instead of re-embedding, and the new space metadata records the origin in clonedFrom. Requires read access to the source and manage access to the new space id.',
+      inputSchema: toolInputSchemas.space_clone,
+      outputSchema: toolOutputSchemas.space_clone,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+    },
+    async ({ sourceSpaceId, targetSpaceId, name, atTime, includeHistory }) => {
+      requireActiveSpace(context, sourceSpaceId, 'read');
+      authorization.requireSpace(context, targetSpaceId, 'manage');
+      const { space, ...cloned } = await service.cloneSpace({
+        sourceSpaceId,
+        targetSpaceId,
+        ...(name ? { name } : {}),
+        ...(atTime ? { atTime } : {}),
+        ...(includeHistory !== undefined ? { includeHistory } : {}),
+      });
+      return result(
+        { id: space.id, name: space.name, revisionNumber: space.revisionNumber, ...cloned },
+        [spaceResourceUri(space.id)],
+      );
+    },
+  );
+
+  server.registerTool(
+    'kind_define',
+    {
+      title: 'Define memory kind',
+      description:
+        'Register or replace the JSON Schema that content of a kind must satisfy in one space, so memories of that kind keep one shape across agents. memory_create, memory_revise, memory_patch, memory_revert, memory_batch, memory_move, and memory_copy reject content that would not match with the violations; existing revisions are not revalidated.',
+      inputSchema: toolInputSchemas.kind_define,
+      outputSchema: toolOutputSchemas.kind_define,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+    },
+    async ({ spaceId, kind, schema, description }) => {
+      const selectedSpaceId = spaceId ?? 'default';
+      requireActiveSpace(context, selectedSpaceId, 'manage');
+      const definition = service.defineKind({
+        spaceId: selectedSpaceId,
+        kind,
+        schema,
+        ...(description ? { description } : {}),
+      });
+      return result(kindSummary(definition), [kindResourceUri(definition)]);
+    },
+  );
+
+  server.registerTool(
+    'kind_list',
+    {
+      title: 'List memory kinds',
+      description:
+        'List the kinds with a registered content schema in a space. Read a schema with kind_get before writing memories of that kind.',
+      inputSchema: toolInputSchemas.kind_list,
+      outputSchema: toolOutputSchemas.kind_list,
+      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
+    },
+    async ({ spaceId }) => {
+      const selectedSpaceId = spaceId ?? 'default';
+      requireActiveSpace(context, selectedSpaceId, 'read');
+      const definitions = service.listKinds(selectedSpaceId);
+      return result({ items: definitions.map(kindSummary) }, definitions.map(kindResourceUri));
+    },
+  );
+
+  server.registerTool(
+    'kind_get',
+    {
+      title: 'Get memory kind',
+      description:
+        'Read the JSON Schema that content of a kind must satisfy in a space, so memory content can be shaped correctly before it is written.',
+      inputSchema: toolInputSchemas.kind_get,
+      outputSchema: toolOutputSchemas.kind_get,
+      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
+    },
+    async ({ spaceId, kind }) => {
+      const selectedSpaceId = spaceId ?? 'default';
+      requireActiveSpace(context, selectedSpaceId, 'read');
+      const definition = service.getKind(selectedSpaceId, kind);
+      if (!definition) throw new Error(`Memory kind not found: ${kind}`);
+      return result({ ...kindSummary(definition), schema: definition.schema }, [
+        kindResourceUri(definition),
+      ]);
+    },
+  );
+
+  server.registerTool(
+    'relation_define',
+    {
+      title: 'Define link relation',
+      description:
+        'Register or replace how a link relation behaves in one space so agents agree on edge names. A link written with the inverse name is the same edge reversed, and a symmetric relation has no direction; memory_traverse treats both as equivalent when filtering relations and direction. memory_link then rejects endpoints outside fromKinds/toKinds and links that would exceed the cardinality. Relations without a definition stay unrestricted, and existing links are not revalidated.',
+      inputSchema: toolInputSchemas.relation_define,
+      outputSchema: toolOutputSchemas.relation_define,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+    },
+    async ({
+      spaceId,
+      relation,
+      inverse,
+      symmetric,
+      fromKinds,
+      toKinds,
+      cardinality,
+      description,
+    }) => {
+      const selectedSpaceId = spaceId ?? 'default';
+      requireActiveSpace(context, selectedSpaceId, 'manage');
+      return result(
+        relationTypeSummary(
+          service.defineRelationType({
+            spaceId: selectedSpaceId,
+            relation,
+            ...(inverse ? { inverse } : {}),
+            ...(symmetric !== undefined ? { symmetric } : {}),
+            ...(fromKinds ? { fromKinds } : {}),
+            ...(toKinds ? { toKinds } : {}),
+            ...(cardinality ? { cardinality } : {}),
+            ...(description ? { description } : {}),
+          }),
+        ),
+      );
+    },
+  );
+
+  server.registerTool(
+    'relation_list',
+    {
+      title: 'List link relations',
+      description:
+        'List the link relations defined in a space with their inverse names, symmetry, endpoint kinds, and cardinality. Prefer these names over new ones when calling memory_link.',
+      inputSchema: toolInputSchemas.relation_list,
+      outputSchema: toolOutputSchemas.relation_list,
+      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
+    },
+    async ({ spaceId }) => {
+      const selectedSpaceId = spaceId ?? 'default';
+      requireActiveSpace(context, selectedSpaceId, 'read');
+      return result({ items: service.listRelationTypes(selectedSpaceId).map(relationTypeSummary) });
+    },
+  );
+
   server.registerTool(
     'memory_create',
     {
       title: 'Create memory',
       description:
-        'Store durable information when no existing canonical memory represents it. Check logicalKey or search first to avoid duplicates; logicalKey is unique and immutable within a space, while idempotencyKey is only for safe retries.',
+        'Store durable information when no existing canonical memory represents it. Check logicalKey or search first to avoid duplicates; logicalKey is unique and immutable within a space, while idempotencyKey is only for safe retries. dedupe warn lists similar existing memories in the response; reject checks before storing anything and refuses a likely duplicate.',
       inputSchema: toolInputSchemas.memory_create,
       outputSchema: toolOutputSchemas.memory_create,
       annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
     },
-    async ({ logicalKey, actorId, ...args }) => {
+    async ({ logicalKey, actorId, dedupe, ...args }) => {
       const revisionInput = toMemoryInput(args);
       requireActiveSpace(context, revisionInput.spaceId ?? 'default', 'write');
       const input: MemoryCreateInput = logicalKey
@@ -622,9 +984,25 @@ export function buildMcpServer(
         const memory = await service.createMemory(
           input,
           authorization.actor(context, actorId) ?? null,
+          dedupe ? { dedupe } : {},
         );
-        return result(mutationAcknowledgement(memory), [memoryResourceUri(memory)]);
+        const payload = mutationAcknowledgement(memory);
+        if (memory.similarMemories) {
+          payload.similarMemories = memory.similarMemories.map(duplicateMatchPayload);
+        }
+        return result(payload, [memoryResourceUri(memory)]);
       } catch (error) {
+        if (error instanceof MemoryContentSchemaError) return contentSchemaErrorResult(error);
+        if (error instanceof MemoryDuplicateError) {
+          return errorResult({
+            error: 'duplicate-memory',
+            message: error.message,
+            spaceId: error.details.spaceId,
+            similarMemories: error.details.similarMemories.map(duplicateMatchPayload),
+            nextAction:
+              'Revise or merge into one of the similar memories, or retry with dedupe warn if this is new information.',
+          });
+        }
         if (!(error instanceof MemoryIdentityConflictError)) throw error;
         return errorResult({
           error: 'logical-key-conflict',
@@ -648,116 +1026,502 @@ export function buildMcpServer(
     },
     async ({ memoryId, expectedRevisionId, actorId, ...args }) => {
       requireMemory(context, memoryId, 'write');
-      const memory = await service.reviseMemory(
-        memoryId,
-        toMemoryInput(args),
-        expectedRevisionId,
-        authorization.actor(context, actorId) ?? null,
-      );
-      return result(mutationAcknowledgement(memory), [memoryResourceUri(memory)]);
+      try {
+        const memory = await service.reviseMemory(
+          memoryId,
+          toMemoryInput(args),
+          expectedRevisionId,
+          authorization.actor(context, actorId) ?? null,
+        );
+        return result(mutationAcknowledgement(memory), [memoryResourceUri(memory)]);
+      } catch (error) {
+        if (error instanceof MemoryContentSchemaError) return contentSchemaErrorResult(error);
+        throw error;
+      }
     },
   );
 
   server.registerTool(
-    'memory_merge',
+    'memory_patch',
     {
-      title: 'Merge duplicate memories',
+      title: 'Patch memory',
       description:
-        'Merge only confirmed duplicates into one canonical memory. Duplicates are archived and redirected without combining content; their history, provenance, feedback, and links remain available. Revise the canonical memory separately if needed.',
-      inputSchema: toolInputSchemas.memory_merge,
-      outputSchema: toolOutputSchemas.memory_merge,
+        'Change part of a memory without resubmitting it. Patch content or metadata with an RFC 6902 JSON Patch or RFC 7396 merge patch, and add or remove tags and sources (by URI); other fields carry over. Pass expectedRevisionId; with rebase:true a stale patch is applied to the current revision when it does not overlap the newer changes.',
+      inputSchema: toolInputSchemas.memory_patch,
+      outputSchema: toolOutputSchemas.memory_patch,
       annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
     },
     async (args) => {
-      requireMemory(context, args.canonicalMemoryId, 'manage');
-      for (const duplicate of args.duplicates) {
-        requireMemory(context, duplicate.memoryId, 'manage');
+      requireMemory(context, args.memoryId, 'write');
+      let memory: MemoryRecord;
+      try {
+        memory = await service.patchMemory(
+          {
+            memoryId: args.memoryId,
+            expectedRevisionId: args.expectedRevisionId,
+            ...(args.content ? { content: args.content } : {}),
+            ...(args.metadata ? { metadata: args.metadata } : {}),
+            ...(args.addTags ? { addTags: args.addTags } : {}),
+            ...(args.removeTags ? { removeTags: args.removeTags } : {}),
+            ...(args.addSources ? { addSources: args.addSources.map(toSourceInput) } : {}),
+            ...(args.removeSourceUris ? { removeSourceUris: args.removeSourceUris } : {}),
+            ...(args.rebase !== undefined ? { rebase: args.rebase } : {}),
+          },
+          authorization.actor(context, args.actorId) ?? null,
+        );
+      } catch (error) {
+        if (error instanceof MemoryContentSchemaError) return contentSchemaErrorResult(error);
+        throw error;
       }
-      const actorId = authorization.actor(context, args.actorId);
-      const merge = service.mergeMemories({
-        canonicalMemoryId: args.canonicalMemoryId,
-        expectedCanonicalRevisionId: args.expectedCanonicalRevisionId,
-        duplicates: args.duplicates,
-        ...(actorId ? { actorId } : {}),
-        ...(args.reason ? { reason: args.reason } : {}),
-        ...(args.metadata ? { metadata: args.metadata } : {}),
-        ...(args.idempotencyKey ? { idempotencyKey: args.idempotencyKey } : {}),
-      });
-      return result(mergeAcknowledgement(merge), [memoryResourceUri(merge.canonicalMemory)]);
-    },
-  );
-
-  server.registerTool(
-    'memory_get',
-    {
-      title: 'Get memory',
-      description:
-        'Read a complete current or historical memory, including content, provenance, and feedback summary. atTime selects what the system had recorded by then; use memory_search validAt for real-world validity.',
-      inputSchema: toolInputSchemas.memory_get,
-      outputSchema: toolOutputSchemas.memory_get,
-      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
-    },
-    async ({ memoryId, revisionId, atTime }) => {
-      requireMemory(context, memoryId, 'read');
-      const options = { ...(revisionId ? { revisionId } : {}), ...(atTime ? { atTime } : {}) };
-      const memory = service.getMemory(memoryId, options);
-      return result(memoryDetail(memory, true), [memoryResourceUri(memory)]);
+      const rebasedOnRevisionId = memory.revision.parentRevisionId;
+      return result(
+        {
+          ...mutationAcknowledgement(memory),
+          ...(rebasedOnRevisionId !== null && rebasedOnRevisionId !== args.expectedRevisionId
+            ? { rebasedOnRevisionId }
+            : {}),
+        },
+        [memoryResourceUri(memory)],
+      );
     },
   );
 
   server.registerTool(
-    'memory_get_by_key',
+    'memory_revert',
     {
-      title: 'Get memory by logical key',
+      title: 'Revert memory',
       description:
-        'Find the canonical memory for an exact logicalKey before creating or revising an evolving concept. A merged key resolves to its canonical memory.',
-      inputSchema: toolInputSchemas.memory_get_by_key,
-      outputSchema: toolOutputSchemas.memory_get_by_key,
-      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
+        'Undo later revisions by appending a new revision that copies an earlier revision of the same memory. History is preserved and the new revision records which revision it reverted to. Pass expectedRevisionId to avoid reverting over a concurrent update.',
+      inputSchema: toolInputSchemas.memory_revert,
+      outputSchema: toolOutputSchemas.memory_revert,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
     },
-    async ({ spaceId, logicalKey, atTime }) => {
-      const selectedSpaceId = spaceId ?? 'default';
-      requireActiveSpace(context, selectedSpaceId, 'read');
-      const resolution = service.getMemoryByLogicalKey(selectedSpaceId, logicalKey, atTime);
-      return result(
-        {
-          ...(resolution.redirected ? { redirectedFromMemoryId: resolution.matchedMemoryId } : {}),
-          memory: memoryDetail(resolution.memory, true),
-        },
-        [memoryResourceUri(resolution.memory)],
-      );
+    async ({ memoryId, revisionId, expectedRevisionId, actorId }) => {
+      requireMemory(context, memoryId, 'write');
+      try {
+        const memory = await service.revertMemory(
+          memoryId,
+          revisionId,
+          expectedRevisionId,
+          authorization.actor(context, actorId) ?? null,
+        );
+        return result({ ...mutationAcknowledgement(memory), revertedToRevisionId: revisionId }, [
+          memoryResourceUri(memory),
+        ]);
+      } catch (error) {
+        if (error instanceof MemoryContentSchemaError) return contentSchemaErrorResult(error);
+        throw error;
+      }
     },
   );
 
   server.registerTool(
-    'memory_history',
+    'memory_batch',
     {
-      title: 'Get memory history',
+      title: 'Batch memory changes',
       description:
-        'Inspect compact revision history, newest first. Set includeContent:true for revision content and full source metadata; use nextCursor for more pages.',
-      inputSchema: toolInputSchemas.memory_history,
-      outputSchema: toolOutputSchemas.memory_history,
-      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
+        'Apply an ordered list of create, revise, archive, link, and unlink operations atomically: either every operation is stored or none is. Refer to the memory or link produced by an earlier operation with {"$ref": index}. Revising an existing memory requires expectedRevisionId; all preconditions are checked before anything is written. idempotencyKey makes the whole batch safe to retry.',
+      inputSchema: toolInputSchemas.memory_batch,
+      outputSchema: toolOutputSchemas.memory_batch,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
     },
-    async ({ memoryId, includeContent, limit, cursor }) => {
-      requireMemory(context, memoryId, 'read');
-      const beforeRevisionNumber = cursor ? decodeHistoryCursor(cursor) : undefined;
-      const page = service.getHistoryPage(memoryId, {
-        includeContent: includeContent ?? false,
-        limit: limit ?? 20,
-        ...(beforeRevisionNumber ? { beforeRevisionNumber } : {}),
+    async ({ operations, idempotencyKey, actorId }) => {
+      for (const operation of operations) {
+        if (operation.op === 'create') {
+          requireActiveSpace(context, operation.spaceId ?? 'default', 'write');
+        } else if (operation.op === 'unlink') {
+          if (typeof operation.linkId === 'string') requireLink(context, operation.linkId, 'write');
+        } else if (operation.op === 'link') {
+          for (const memoryId of [operation.fromMemoryId, operation.toMemoryId]) {
+            if (typeof memoryId === 'string') requireMemory(context, memoryId, 'write');
+          }
+        } else if (typeof operation.memoryId === 'string') {
+          requireMemory(context, operation.memoryId, 'write');
+        }
+      }
+      const batchOperations = operations.map((operation): MemoryBatchOperation => {
+        switch (operation.op) {
+          case 'create': {
+            const { op, logicalKey, ...fields } = operation;
+            const input = toMemoryInput(fields);
+            return { op, input: logicalKey ? { ...input, logicalKey } : input };
+          }
+          case 'revise': {
+            const { op, memoryId, expectedRevisionId, ...fields } = operation;
+            return {
+              op,
+              memoryId,
+              ...(expectedRevisionId ? { expectedRevisionId } : {}),
+              input: toMemoryInput(fields),
+            };
+          }
+          case 'link':
+            return {
+              op: operation.op,
+              fromMemoryId: operation.fromMemoryId,
+              toMemoryId: operation.toMemoryId,
+              relation: operation.relation,
+              ...(operation.metadata ? { metadata: operation.metadata } : {}),
+              ...(operation.validFrom ? { validFrom: operation.validFrom } : {}),
+              ...(operation.validTo ? { validTo: operation.validTo } : {}),
+            };
+          default:
+            return operation;
+        }
       });
-      return result(historyPage(page, includeContent ?? false));
+      try {
+        const batch = await service.runBatch(
+          { operations: batchOperations, ...(idempotencyKey ? { idempotencyKey } : {}) },
+          authorization.actor(context, actorId) ?? null,
+        );
+        return result({
+          items: batch.items.map((item) => ({
+            op: item.op,
+            ...(item.memoryId ? { memoryId: item.memoryId } : {}),
+            ...(item.revisionId ? { revisionId: item.revisionId } : {}),
+            ...(item.linkId ? { linkId: item.linkId } : {}),
+          })),
+          ...(batch.replayed ? { replayed: true } : {}),
+          indexed: batch.indexed,
+          failed: batch.failed,
+        });
+      } catch (error) {
+        if (error instanceof MemoryContentSchemaError) return contentSchemaErrorResult(error);
+        if (!(error instanceof MemoryIdentityConflictError)) throw error;
+        return errorResult({
+          error: 'logical-key-conflict',
+          message: error.message,
+          ...error.details,
+          nextAction: 'Read the canonical memory and revise it instead of creating a duplicate.',
+        });
+      }
     },
   );
 
   server.registerTool(
-    'memory_list',
+    'memory_move',
     {
-      title: 'List memories',
+      title: 'Move memory to another space',
       description:
-        'Browse compact memory summaries with filters and pagination. Active memories are listed by default; request archived state explicitly and use memory_get for complete content.',
-      inputSchema: toolInputSchemas.memory_list,
+        'Move a memory, for example from a personal scratch space to a team space, keeping its id, revisions, feedback, and links between moved memories. Merged duplicates move with their canonical memory. Active links to memories left behind block the move unless unlinkExternalLinks is true, and moved links must satisfy the relation types of the target space. A logical key already used in the target fails by default; onKeyConflict:"drop-key" moves the memory without its key. Requires manage access to the source space and write access to the target.',
+      inputSchema: toolInputSchemas.memory_move,
+      outputSchema: toolOutputSchemas.memory_move,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+    },
+    async (args) => {
+      requireMemory(context, args.memoryId, 'manage');
+      requireActiveSpace(context, args.targetSpaceId, 'write');
+      try {
+        const moved = service.moveMemory({
+          memoryId: args.memoryId,
+          targetSpaceId: args.targetSpaceId,
+          ...(args.onKeyConflict ? { onKeyConflict: args.onKeyConflict } : {}),
+          ...(args.unlinkExternalLinks !== undefined
+            ? { unlinkExternalLinks: args.unlinkExternalLinks }
+            : {}),
+        });
+        return result(
+          {
+            id: moved.memory.id,
+            spaceId: moved.memory.spaceId,
+            fromSpaceId: moved.fromSpaceId,
+            movedMemoryIds: moved.movedMemoryIds,
+            ...(moved.clearedLogicalKeyMemoryIds.length > 0
+              ? { clearedLogicalKeyMemoryIds: moved.clearedLogicalKeyMemoryIds }
+              : {}),
+            ...(moved.unlinkedLinkIds.length > 0 ? { unlinkedLinkIds: moved.unlinkedLinkIds } : {}),
+          },
+          [memoryResourceUri(moved.memory)],
+        );
+      } catch (error) {
+        if (error instanceof MemoryContentSchemaError) return contentSchemaErrorResult(error);
+        if (!(error instanceof MemoryIdentityConflictError)) throw error;
+        return errorResult({
+          error: 'logical-key-conflict',
+          message: error.message,
+          ...error.details,
+          nextAction: 'Merge with the existing memory, or retry with onKeyConflict:"drop-key".',
+        });
+      }
+    },
+  );
+
+  server.registerTool(
+    'memory_copy',
+    {
+      title: 'Copy memory to another space',
+      description:
+        'Create an independent memory in another space from the current revision of a memory. The copy gets a new id and history and records the original memory and revision as a memory-copy source; feedback and links are not copied. A logical key already used in the target fails by default; onKeyConflict:"drop-key" creates the copy without its key. Requires manage access to the source space and write access to the target.',
+      inputSchema: toolInputSchemas.memory_copy,
+      outputSchema: toolOutputSchemas.memory_copy,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+    },
+    async ({ actorId, ...args }) => {
+      requireMemory(context, args.memoryId, 'manage');
+      requireActiveSpace(context, args.targetSpaceId, 'write');
+      try {
+        const source = service.getMemory(args.memoryId);
+        const memory = await service.copyMemory(
+          {
+            memoryId: args.memoryId,
+            targetSpaceId: args.targetSpaceId,
+            ...(args.onKeyConflict ? { onKeyConflict: args.onKeyConflict } : {}),
+          },
+          authorization.actor(context, actorId) ?? null,
+        );
+        return result(
+          {
+            ...mutationAcknowledgement(memory),
+            sourceMemoryId: source.id,
+            sourceRevisionId: source.revision.id,
+          },
+          [memoryResourceUri(memory)],
+        );
+      } catch (error) {
+        if (error instanceof MemoryContentSchemaError) return contentSchemaErrorResult(error);
+        if (!(error instanceof MemoryIdentityConflictError)) throw error;
+        return errorResult({
+          error: 'logical-key-conflict',
+          message: error.message,
+          ...error.details,
+          nextAction:
+            'Revise the existing memory in the target space, or retry with onKeyConflict:"drop-key".',
+        });
+      }
+    },
+  );
+
+  server.registerTool(
+    'memory_find_duplicates',
+    {
+      title: 'Find duplicate memories',
+      description:
+        'Find likely duplicates among the active memories of one space, or only those of memoryId, by identical content, embedding similarity, and word overlap. Each cluster suggests a canonical memory and lists duplicates with similarity scores in the shape memory_merge expects; confirm they really say the same thing before merging.',
+      inputSchema: toolInputSchemas.memory_find_duplicates,
+      outputSchema: toolOutputSchemas.memory_find_duplicates,
+      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
+    },
+    async ({ spaceId, memoryId, threshold, limit }) => {
+      const memorySpaceId = memoryId ? requireMemory(context, memoryId, 'read') : null;
+      const selectedSpaceId = memorySpaceId ?? spaceId ?? 'default';
+      requireActiveSpace(context, selectedSpaceId, 'read');
+      const report = service.findDuplicates({
+        spaceId: selectedSpaceId,
+        ...(memoryId ? { memoryId } : {}),
+        ...(threshold !== undefined ? { threshold } : {}),
+        ...(limit ? { limit } : {}),
+      });
+      return result({
+        scannedMemories: report.scannedMemories,
+        ...(report.truncated ? { truncated: true } : {}),
+        semanticAvailable: report.semanticAvailable,
+        clusters: report.clusters.map((cluster) => ({
+          canonicalMemoryId: cluster.canonicalMemoryId,
+          expectedCanonicalRevisionId: cluster.expectedCanonicalRevisionId,
+          ...(cluster.title !== null ? { title: cluster.title } : {}),
+          score: cluster.score,
+          duplicates: cluster.duplicates.map(duplicateMatchPayload),
+        })),
+      });
+    },
+  );
+
+  server.registerTool(
+    'memory_check_consistency',
+    {
+      title: 'Check memory consistency',
+      description:
+        'Look for memories that may contradict each other, for one memory or the most recently updated memories of a space. Close memories found by search are scored with the reranker in both directions and reported when their validity overlaps but the same content paths hold different values. Review each pair, then record contradicted feedback or link them with a contradicts relation.',
+      inputSchema: toolInputSchemas.memory_check_consistency,
+      outputSchema: toolOutputSchemas.memory_check_consistency,
+      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
+    },
+    async ({ spaceId, memoryId, limit, neighbors, minRelevance }) => {
+      const memorySpaceId = memoryId ? requireMemory(context, memoryId, 'read') : null;
+      const selectedSpaceId = memorySpaceId ?? spaceId ?? 'default';
+      requireActiveSpace(context, selectedSpaceId, 'read');
+      const report = await service.checkConsistency({
+        spaceId: selectedSpaceId,
+        ...(memoryId ? { memoryId } : {}),
+        ...(limit ? { limit } : {}),
+        ...(neighbors ? { neighbors } : {}),
+        ...(minRelevance !== undefined ? { minRelevance } : {}),
+      });
+      return result({
+        checkedMemories: report.checkedMemories,
+        comparedPairs: report.comparedPairs,
+        ...(report.degraded ? { degraded: true } : {}),
+        ...(report.degradationReason ? { degradationReason: report.degradationReason } : {}),
+        conflicts: report.conflicts.map((conflict) => ({
+          memoryId: conflict.memoryId,
+          revisionId: conflict.revisionId,
+          otherMemoryId: conflict.otherMemoryId,
+          otherRevisionId: conflict.otherRevisionId,
+          ...(conflict.relevance !== null ? { relevance: conflict.relevance } : {}),
+          reasons: conflict.reasons,
+          differingPaths: conflict.differingPaths,
+          ...(conflict.linkedRelations.length > 0
+            ? { linkedRelations: conflict.linkedRelations }
+            : {}),
+        })),
+      });
+    },
+  );
+
+  server.registerTool(
+    'memory_merge',
+    {
+      title: 'Merge duplicate memories',
+      description:
+        'Merge only confirmed duplicates into one canonical memory. Duplicates are archived and redirected without combining content; their history, provenance, feedback, and links remain available. Revise the canonical memory separately if needed; memory_unmerge reverses a mistaken merge.',
+      inputSchema: toolInputSchemas.memory_merge,
+      outputSchema: toolOutputSchemas.memory_merge,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+    },
+    async (args) => {
+      requireMemory(context, args.canonicalMemoryId, 'manage');
+      for (const duplicate of args.duplicates) {
+        requireMemory(context, duplicate.memoryId, 'manage');
+      }
+      const actorId = authorization.actor(context, args.actorId);
+      const merge = service.mergeMemories({
+        canonicalMemoryId: args.canonicalMemoryId,
+        expectedCanonicalRevisionId: args.expectedCanonicalRevisionId,
+        duplicates: args.duplicates,
+        ...(actorId ? { actorId } : {}),
+        ...(args.reason ? { reason: args.reason } : {}),
+        ...(args.metadata ? { metadata: args.metadata } : {}),
+        ...(args.idempotencyKey ? { idempotencyKey: args.idempotencyKey } : {}),
+      });
+      return result(mergeAcknowledgement(merge), [memoryResourceUri(merge.canonicalMemory)]);
+    },
+  );
+
+  server.registerTool(
+    'memory_unmerge',
+    {
+      title: 'Unmerge memories',
+      description:
+        'Reverse a mistaken memory_merge. Give operationId to release every duplicate of that merge, memoryId to release one duplicate, or both. Released duplicates become active again, their logical keys stop redirecting, and the merge stays in the audit trail.',
+      inputSchema: toolInputSchemas.memory_unmerge,
+      outputSchema: toolOutputSchemas.memory_unmerge,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+    },
+    async (args) => {
+      if (args.operationId) {
+        const operation = service.getMergeOperation(args.operationId);
+        requireMemory(context, operation.canonicalMemory.id, 'manage');
+      }
+      if (args.memoryId) requireMemory(context, args.memoryId, 'manage');
+      const actorId = authorization.actor(context, args.actorId);
+      const unmerge = service.unmergeMemories({
+        ...(args.operationId ? { operationId: args.operationId } : {}),
+        ...(args.memoryId ? { memoryId: args.memoryId } : {}),
+        ...(actorId ? { actorId } : {}),
+        ...(args.reason ? { reason: args.reason } : {}),
+      });
+      return result(
+        {
+          unmergeId: unmerge.unmergeId,
+          operationId: unmerge.operationId,
+          canonicalMemoryId: unmerge.canonicalMemory.id,
+          unmergedMemoryIds: unmerge.unmergedMemoryIds,
+          mergedMemoryCount: unmerge.canonicalMemory.mergedMemoryCount,
+          releasedRedirectCount: unmerge.releasedRedirectCount,
+          createdAt: unmerge.createdAt,
+        },
+        [memoryResourceUri(unmerge.canonicalMemory)],
+      );
+    },
+  );
+
+  server.registerTool(
+    'memory_get',
+    {
+      title: 'Get memory',
+      description:
+        'Read a complete current or historical memory, including content, provenance, and feedback summary. atTime selects what the system had recorded by then; use memory_search validAt for real-world validity.',
+      inputSchema: toolInputSchemas.memory_get,
+      outputSchema: toolOutputSchemas.memory_get,
+      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
+    },
+    async ({ memoryId, revisionId, atTime }) => {
+      requireMemory(context, memoryId, 'read');
+      const options = { ...(revisionId ? { revisionId } : {}), ...(atTime ? { atTime } : {}) };
+      const memory = service.getMemory(memoryId, options);
+      return result(memoryDetail(memory, true), [memoryResourceUri(memory)]);
+    },
+  );
+
+  server.registerTool(
+    'memory_get_by_key',
+    {
+      title: 'Get memory by logical key',
+      description:
+        'Find the canonical memory for an exact logicalKey before creating or revising an evolving concept. A merged key resolves to its canonical memory.',
+      inputSchema: toolInputSchemas.memory_get_by_key,
+      outputSchema: toolOutputSchemas.memory_get_by_key,
+      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
+    },
+    async ({ spaceId, logicalKey, atTime }) => {
+      const selectedSpaceId = spaceId ?? 'default';
+      requireActiveSpace(context, selectedSpaceId, 'read');
+      const resolution = service.getMemoryByLogicalKey(selectedSpaceId, logicalKey, atTime);
+      return result(
+        {
+          ...(resolution.redirected ? { redirectedFromMemoryId: resolution.matchedMemoryId } : {}),
+          memory: memoryDetail(resolution.memory, true),
+        },
+        [memoryResourceUri(resolution.memory)],
+      );
+    },
+  );
+
+  server.registerTool(
+    'memory_history',
+    {
+      title: 'Get memory history',
+      description:
+        'Inspect compact revision history, newest first. Set includeContent:true for revision content and full source metadata; use nextCursor for more pages.',
+      inputSchema: toolInputSchemas.memory_history,
+      outputSchema: toolOutputSchemas.memory_history,
+      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
+    },
+    async ({ memoryId, includeContent, limit, cursor }) => {
+      requireMemory(context, memoryId, 'read');
+      const beforeRevisionNumber = cursor ? decodeHistoryCursor(cursor) : undefined;
+      const page = service.getHistoryPage(memoryId, {
+        includeContent: includeContent ?? false,
+        limit: limit ?? 20,
+        ...(beforeRevisionNumber ? { beforeRevisionNumber } : {}),
+      });
+      return result(historyPage(page, includeContent ?? false));
+    },
+  );
+
+  server.registerTool(
+    'memory_diff',
+    {
+      title: 'Diff memory revisions',
+      description:
+        'Compare two revisions of a memory, or one revision against the current revision when toRevisionId is omitted. Returns RFC 6902 JSON Patches for content and metadata plus changed fields. Revisions of merged duplicates compare against their canonical memory.',
+      inputSchema: toolInputSchemas.memory_diff,
+      outputSchema: toolOutputSchemas.memory_diff,
+      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
+    },
+    async ({ memoryId, fromRevisionId, toRevisionId }) => {
+      requireMemory(context, memoryId, 'read');
+      return result(diffPayload(service.diffRevisions(memoryId, fromRevisionId, toRevisionId)));
+    },
+  );
+
+  server.registerTool(
+    'memory_list',
+    {
+      title: 'List memories',
+      description:
+        'Browse compact memory summaries with filters and pagination. Active memories are listed by default; request archived state, or deleted state for the trash, explicitly and use memory_get for complete content.',
+      inputSchema: toolInputSchemas.memory_list,
       outputSchema: toolOutputSchemas.memory_list,
       annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
     },
@@ -839,7 +1603,11 @@ export function buildMcpServer(
     },
     async ({ memoryId }) => {
       requireMemory(context, memoryId, 'write');
-      return result(lifecycleAcknowledgement(service.setState(memoryId, 'archived')));
+      return result(
+        lifecycleAcknowledgement(
+          service.setState(memoryId, 'archived', authorization.actor(context) ?? null),
+        ),
+      );
     },
   );
 
@@ -848,34 +1616,44 @@ export function buildMcpServer(
     {
       title: 'Restore archived memory',
       description:
-        'Return an archived memory to normal recall without changing its content or history. Merged duplicates cannot be restored.',
+        'Return an archived memory to normal recall without changing its content or history. A deleted memory still in the trash returns to the state it had before deletion. Merged duplicates cannot be restored.',
       inputSchema: toolInputSchemas.memory_restore,
       outputSchema: toolOutputSchemas.memory_restore,
       annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
     },
     async ({ memoryId }) => {
       requireMemory(context, memoryId, 'write');
-      return result(lifecycleAcknowledgement(service.setState(memoryId, 'active')));
+      return result(
+        lifecycleAcknowledgement(
+          service.restoreMemory(memoryId, authorization.actor(context) ?? null),
+        ),
+      );
     },
   );
 
   server.registerTool(
     'memory_delete',
     {
-      title: 'Permanently delete memory',
+      title: 'Delete memory',
       description:
-        'Irreversibly erase a memory, its revisions, content, provenance, index data, feedback, links, and merge redirects. Previously merged memories remain separate archived records. Use only when permanent erasure is intended.',
+        'Move a memory to the trash: it leaves recall and memory_list state:"deleted" shows it, but content, history, feedback, and links are kept and memory_restore undoes the delete until purgeAfter. The trash is then erased permanently. force:true instead immediately and irreversibly erases the memory, its revisions, content, provenance, index data, feedback, links, and merge redirects, for example for compliance deletes. Previously merged memories remain separate archived records.',
       inputSchema: toolInputSchemas.memory_delete,
       outputSchema: toolOutputSchemas.memory_delete,
       annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
     },
-    async ({ memoryId }) => {
+    async ({ memoryId, force }) => {
       const existingSpaceId = service.memorySpaceId(memoryId);
       if (existingSpaceId !== null) {
         authorization.requireSpace(context, existingSpaceId, 'manage', true);
       }
-      service.deleteMemory(memoryId);
-      return result(deletionAcknowledgement(memoryId));
+      return result(
+        deletionAcknowledgement(
+          service.deleteMemory(memoryId, {
+            ...(force !== undefined ? { force } : {}),
+            actor: authorization.actor(context) ?? null,
+          }),
+        ),
+      );
     },
   );
 
@@ -884,7 +1662,7 @@ export function buildMcpServer(
     {
       title: 'Link memories',
       description:
-        'Record an explicit typed relationship between two memories in the same space. Repeating an active link is safe; use memory_merge, not this tool, for duplicates.',
+        'Record an explicit typed relationship between two memories in the same space. Check relation_list for the names the space already uses; defined relations enforce their endpoint kinds and cardinality. Repeating an active link, also under its inverse name, is safe; use memory_link_update to change its metadata or validity later, and memory_merge, not this tool, for duplicates.',
       inputSchema: toolInputSchemas.memory_link,
       outputSchema: toolOutputSchemas.memory_link,
       annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
@@ -907,6 +1685,137 @@ export function buildMcpServer(
     },
   );
 
+  server.registerTool(
+    'memory_suggest_links',
+    {
+      title: 'Suggest memory links',
+      description:
+        'Propose links from a memory to the semantically closest memories in its space that it is not linked with yet. Neighbours come from the current vectors and are scored with the reranker; the relation is the first relation_define entry whose endpoint kinds fit the pair, otherwise related_to, unless relation is given. Nothing is written: review the suggestions and pass the ones to keep to memory_accept_link_suggestions.',
+      inputSchema: toolInputSchemas.memory_suggest_links,
+      outputSchema: toolOutputSchemas.memory_suggest_links,
+      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
+    },
+    async (args) => {
+      requireMemory(context, args.memoryId, 'read');
+      const report = await service.suggestLinks({
+        memoryId: args.memoryId,
+        ...(args.limit !== undefined ? { limit: args.limit } : {}),
+        ...(args.minScore !== undefined ? { minScore: args.minScore } : {}),
+        ...(args.relation ? { relation: args.relation } : {}),
+      });
+      return result({
+        memoryId: report.memoryId,
+        semanticAvailable: report.semanticAvailable,
+        ...(report.degraded ? { degraded: true } : {}),
+        ...(report.degradationReason ? { degradationReason: report.degradationReason } : {}),
+        suggestions: report.suggestions.map(({ title, rerankerScore, ...suggestion }) => ({
+          ...suggestion,
+          ...(title !== null ? { title } : {}),
+          ...(rerankerScore !== null ? { rerankerScore } : {}),
+        })),
+      });
+    },
+  );
+
+  server.registerTool(
+    'memory_accept_link_suggestions',
+    {
+      title: 'Accept link suggestions',
+      description:
+        'Create several suggested links at once, each exactly as memory_link would, so relation kinds and cardinality are still enforced and repeating an existing link is safe. A suggestion that cannot be linked is reported with its error while the others are still created.',
+      inputSchema: toolInputSchemas.memory_accept_link_suggestions,
+      outputSchema: toolOutputSchemas.memory_accept_link_suggestions,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+    },
+    async ({ suggestions }) => {
+      for (const suggestion of suggestions) {
+        requireMemory(context, suggestion.fromMemoryId, 'write');
+        requireMemory(context, suggestion.toMemoryId, 'write');
+      }
+      const outcomes = service.acceptLinkSuggestions(
+        suggestions.map((suggestion) => ({
+          fromMemoryId: suggestion.fromMemoryId,
+          toMemoryId: suggestion.toMemoryId,
+          relation: suggestion.relation,
+          ...(suggestion.metadata ? { metadata: suggestion.metadata } : {}),
+        })),
+      );
+      return result({
+        linked: outcomes.filter((outcome) => outcome.link !== null).length,
+        rejected: outcomes.filter((outcome) => outcome.error !== null).length,
+        results: outcomes.map((outcome) => ({
+          fromMemoryId: outcome.fromMemoryId,
+          toMemoryId: outcome.toMemoryId,
+          relation: outcome.relation,
+          ...(outcome.link
+            ? { linkId: outcome.link.id, revisionNumber: outcome.link.revisionNumber }
+            : {}),
+          ...(outcome.error !== null ? { error: outcome.error } : {}),
+        })),
+      });
+    },
+  );
+
+  server.registerTool(
+    'memory_link_update',
+    {
+      title: 'Update memory link',
+      description:
+        'Revise the metadata or validity window of an existing link, for example to record that a dependency ended, while keeping its id. Omitted fields are kept and null clears a validity bound. Pass the current revisionNumber as expectedRevisionNumber; earlier revisions stay readable with memory_link_history, and memory_traverse at an earlier atTime sees the link as it was recorded then.',
+      inputSchema: toolInputSchemas.memory_link_update,
+      outputSchema: toolOutputSchemas.memory_link_update,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+    },
+    async ({ actorId, ...args }) => {
+      requireLink(context, args.linkId, 'write');
+      const link = service.updateLink(
+        {
+          linkId: args.linkId,
+          expectedRevisionNumber: args.expectedRevisionNumber,
+          ...(args.metadata ? { metadata: args.metadata } : {}),
+          ...(args.validFrom !== undefined ? { validFrom: args.validFrom } : {}),
+          ...(args.validTo !== undefined ? { validTo: args.validTo } : {}),
+        },
+        authorization.actor(context, actorId) ?? null,
+      );
+      return result({
+        id: link.id,
+        revisionNumber: link.revisionNumber,
+        ...linkValidityPayload(link),
+      });
+    },
+  );
+
+  server.registerTool(
+    'memory_link_history',
+    {
+      title: 'Read memory link history',
+      description:
+        "List every revision of a link's metadata and validity window, oldest first, with when and by whom it was recorded. atTime limits the history to revisions recorded by then.",
+      inputSchema: toolInputSchemas.memory_link_history,
+      outputSchema: toolOutputSchemas.memory_link_history,
+      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
+    },
+    async ({ linkId, atTime }) => {
+      requireLink(context, linkId, 'read');
+      const link = service.getLink(linkId);
+      return result({
+        id: link.id,
+        relation: link.relation,
+        fromMemoryId: link.fromMemoryId,
+        toMemoryId: link.toMemoryId,
+        revisionNumber: link.revisionNumber,
+        ...(link.deletedAt ? { deletedAt: link.deletedAt } : {}),
+        items: service.getLinkHistory(linkId, atTime).map((revision) => ({
+          revisionNumber: revision.revisionNumber,
+          ...linkValidityPayload(revision),
+          recordedAt: revision.recordedAt,
+          ...(revision.actor ? { actor: revision.actor } : {}),
+        })),
+      });
+    },
+  );
+
   server.registerTool(
     'memory_unlink',
     {
@@ -927,7 +1836,7 @@ export function buildMcpServer(
     {
       title: 'Traverse memory relationships',
       description:
-        'Explore compact relationship paths from a memory. Filter by relationship or direction, optionally rank with a query, and set explain:true for ranking diagnostics. Keep query, filters, direction, and depth unchanged when using nextCursor.',
+        'Explore compact relationship paths from a memory. Filter by relationship or direction, where a defined inverse name or symmetric relation counts as the same edge read the other way; optionally rank with a query, and set explain:true for ranking diagnostics. Keep query, filters, direction, and depth unchanged when using nextCursor.',
       inputSchema: toolInputSchemas.memory_traverse,
       outputSchema: toolOutputSchemas.memory_traverse,
       annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
@@ -948,16 +1857,7 @@ export function buildMcpServer(
         items: page.items.map((entry) => ({
           memory: memorySummary(entry.memory, { includeState: true }),
           depth: entry.depth,
-          path: entry.path.map((step) => ({
-            linkId: step.link.id,
-            relation: step.link.relation,
-            direction: step.direction,
-            fromMemoryId: step.link.fromMemoryId,
-            toMemoryId: step.link.toMemoryId,
-            ...(step.link.validFrom ? { validFrom: step.link.validFrom } : {}),
-            ...(step.link.validTo ? { validTo: step.link.validTo } : {}),
-            ...(Object.keys(step.link.metadata).length > 0 ? { metadata: step.link.metadata } : {}),
-          })),
+          path: entry.path.map(pathStepPayload),
           ...(args.explain && entry.relevanceScore !== undefined
             ? { relevanceScore: entry.relevanceScore }
             : {}),
@@ -974,6 +1874,71 @@ export function buildMcpServer(
     },
   );
 
+  server.registerTool(
+    'memory_path',
+    {
+      title: 'Find paths between memories',
+      description:
+        'Answer how two memories are related by returning the shortest chains of links between them, shortest first. Filter by relationship or direction as in memory_traverse and use atTime to see the links in force then. maxDepth bounds the path length and maxFanOut the links followed from each memory; truncated means some paths may have been skipped.',
+      inputSchema: toolInputSchemas.memory_path,
+      outputSchema: toolOutputSchemas.memory_path,
+      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
+    },
+    async (args) => {
+      requireMemory(context, args.fromMemoryId, 'read');
+      requireMemory(context, args.toMemoryId, 'read');
+      const found = service.findPaths({
+        fromMemoryId: args.fromMemoryId,
+        toMemoryId: args.toMemoryId,
+        ...(args.maxDepth !== undefined ? { maxDepth: args.maxDepth } : {}),
+        ...(args.atTime ? { atTime: args.atTime } : {}),
+        ...(args.relations ? { relations: args.relations } : {}),
+        ...(args.direction ? { direction: args.direction } : {}),
+        ...(args.limit !== undefined ? { limit: args.limit } : {}),
+        ...(args.maxFanOut !== undefined ? { maxFanOut: args.maxFanOut } : {}),
+      });
+      return result({
+        paths: found.paths.map((path) => ({
+          length: path.steps.length,
+          memoryIds: path.memoryIds,
+          steps: path.steps.map(pathStepPayload),
+        })),
+        memories: found.memories.map((memory) => memorySummary(memory, { includeState: true })),
+        ...(found.truncated ? { truncated: true } : {}),
+        atTime: found.atTime,
+      });
+    },
+  );
+
+  server.registerTool(
+    'memory_graph_stats',
+    {
+      title: 'Memory graph statistics',
+      description:
+        'Check the health of the link graph of a space: connected components, orphan memories with no links to other active memories, hubs ranked by degree and degree centrality, live links that still point at archived or deleted memories, and how often each relation is used. Counts cover the whole space; limit caps each list.',
+      inputSchema: toolInputSchemas.memory_graph_stats,
+      outputSchema: toolOutputSchemas.memory_graph_stats,
+      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
+    },
+    async ({ spaceId, limit }) => {
+      const selectedSpaceId = spaceId ?? 'default';
+      requireActiveSpace(context, selectedSpaceId, 'read');
+      const stats = service.graphStats({
+        spaceId: selectedSpaceId,
+        ...(limit !== undefined ? { limit } : {}),
+      });
+      const titled = <T extends { title: string | null }>({ title, ...entry }: T) => ({
+        ...entry,
+        ...(title !== null ? { title } : {}),
+      });
+      return result({
+        ...stats,
+        orphans: stats.orphans.map(titled),
+        hubs: stats.hubs.map(titled),
+      });
+    },
+  );
+
   server.registerTool(
     'memory_feedback',
     {
@@ -1038,6 +2003,188 @@ export function buildMcpServer(
     },
   );
 
+  server.registerTool(
+    'memory_changes',
+    {
+      title: 'List memory changes',
+      description:
+        'Follow the ordered change log of revisions, state changes, links, unlinks, merges, feedback, erasures, moves, and space lifecycle events. A move appears in both the source and the target space. Pass the returned cursor on the next call to receive only later changes; omit it to start from the oldest retained change. Changes identify records; read them with memory_get or memory_history.',
+      inputSchema: toolInputSchemas.memory_changes,
+      outputSchema: toolOutputSchemas.memory_changes,
+      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
+    },
+    async (args) => {
+      const requestedSpaceIds = args.spaceIds?.length ? args.spaceIds : undefined;
+      if (requestedSpaceIds) {
+        for (const spaceId of requestedSpaceIds) {
+          authorization.requireSpace(context, spaceId, 'read', true);
+        }
+      }
+      const authorizedSpaceIds = requestedSpaceIds ?? authorization.spaceIds(context, 'read');
+      const page = service.listChanges({
+        ...(authorizedSpaceIds !== undefined ? { spaceIds: authorizedSpaceIds } : {}),
+        ...(args.cursor ? { since: args.cursor } : {}),
+        ...(args.limit ? { limit: args.limit } : {}),
+      });
+      return result({
+        items: page.items.map(({ cursor: _cursor, memoryId, ...change }) => ({
+          ...change,
+          ...(memoryId ? { memoryId } : {}),
+        })),
+        cursor: page.cursor,
+        hasMore: page.hasMore,
+      });
+    },
+  );
+
+  server.registerTool(
+    'memory_review_queue',
+    {
+      title: 'List memories needing review',
+      description:
+        'Find active memories that need attention: content feedback marked them stale, incorrect, or contradicted, their reviewAfter has passed, or (with sourceAgeDays) their newest source is older than that many days. Results are ordered by urgency then salience across every readable space unless spaceIds are given. Resolve each item with memory_review, or revise it when its content changed.',
+      inputSchema: toolInputSchemas.memory_review_queue,
+      outputSchema: toolOutputSchemas.memory_review_queue,
+      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
+    },
+    async (args) => {
+      const requestedSpaceIds = args.spaceIds?.length ? args.spaceIds : undefined;
+      if (requestedSpaceIds) {
+        for (const spaceId of requestedSpaceIds) {
+          requireActiveSpace(context, spaceId, 'read');
+        }
+      }
+      const authorizedSpaceIds = requestedSpaceIds ?? authorization.spaceIds(context, 'read');
+      const page = service.reviewQueue({
+        ...(authorizedSpaceIds !== undefined ? { spaceIds: authorizedSpaceIds } : {}),
+        ...(args.sourceAgeDays !== undefined ? { sourceAgeDays: args.sourceAgeDays } : {}),
+        ...(args.limit ? { limit: args.limit } : {}),
+        ...(args.cursor ? { cursor: args.cursor } : {}),
+      });
+      return result({
+        items: page.items.map((item) => ({
+          ...memorySummary(item.memory, { includeState: false }),
+          reviewReasons: item.reasons,
+          ...(item.sourcesObservedAt ? { sourcesObservedAt: item.sourcesObservedAt } : {}),
+        })),
+        ...(page.nextCursor ? { nextCursor: page.nextCursor } : {}),
+      });
+    },
+  );
+
+  server.registerTool(
+    'memory_review',
+    {
+      title: 'Review memory',
+      description:
+        'Resolve a review queue item in one call. snooze moves reviewAfter to the given time. reviewed records verified content feedback and clears an elapsed reviewAfter, or sets the given one. Changing reviewAfter creates a revision with otherwise unchanged content; pass the current expectedRevisionId.',
+      inputSchema: toolInputSchemas.memory_review,
+      outputSchema: toolOutputSchemas.memory_review,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+    },
+    async ({ actorId, ...args }) => {
+      requireMemory(context, args.memoryId, 'write');
+      const actor = authorization.actor(context, actorId);
+      const reviewed = await service.reviewMemory(
+        {
+          memoryId: args.memoryId,
+          expectedRevisionId: args.expectedRevisionId,
+          action: args.action,
+          ...(args.reviewAfter ? { reviewAfter: args.reviewAfter } : {}),
+          ...(args.actorType ? { actorType: args.actorType } : {}),
+          ...(actor ? { actorId: actor } : {}),
+          ...(args.note ? { note: args.note } : {}),
+        },
+        actor ?? null,
+      );
+      const { memory } = reviewed;
+      return result(
+        {
+          ...mutationAcknowledgement(memory),
+          revised: reviewed.revised,
+          ...(memory.revision.reviewAfter ? { reviewAfter: memory.revision.reviewAfter } : {}),
+          ...(reviewed.feedback ? { feedbackId: reviewed.feedback.id } : {}),
+        },
+        [memoryResourceUri(memory)],
+      );
+    },
+  );
+
+  server.registerTool(
+    'memory_tags',
+    {
+      title: 'List memory tags',
+      description:
+        'Discover the tags already in use, with the number of active memories carrying each tag per space. Check here before inventing a tag so near-duplicates are not created; prefix narrows the list. Tags are stored lowercase.',
+      inputSchema: toolInputSchemas.memory_tags,
+      outputSchema: toolOutputSchemas.memory_tags,
+      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
+    },
+    async (args) => {
+      const requestedSpaceIds = args.spaceIds?.length ? args.spaceIds : undefined;
+      if (requestedSpaceIds) {
+        for (const spaceId of requestedSpaceIds) {
+          requireActiveSpace(context, spaceId, 'read');
+        }
+      }
+      const authorizedSpaceIds = requestedSpaceIds ?? authorization.spaceIds(context, 'read');
+      const page = service.listTags({
+        ...(authorizedSpaceIds !== undefined ? { spaceIds: authorizedSpaceIds } : {}),
+        ...(args.prefix ? { prefix: args.prefix } : {}),
+        ...(args.limit ? { limit: args.limit } : {}),
+        ...(args.cursor ? { cursor: args.cursor } : {}),
+      });
+      return result({
+        items: page.items,
+        ...(page.nextCursor ? { nextCursor: page.nextCursor } : {}),
+      });
+    },
+  );
+
+  server.registerTool(
+    'tag_rename',
+    {
+      title: 'Rename tag',
+      description:
+        'Rename a tag throughout one space. Every active or archived memory carrying the tag gets a new revision with the rewritten tags. Fails when newTag is already in use; use tag_merge to fold tags together.',
+      inputSchema: toolInputSchemas.tag_rename,
+      outputSchema: toolOutputSchemas.tag_rename,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+    },
+    async ({ spaceId, tag, newTag, actorId }) => {
+      const selectedSpaceId = spaceId ?? 'default';
+      requireActiveSpace(context, selectedSpaceId, 'manage');
+      return result(
+        await service.rewriteTags(
+          { spaceId: selectedSpaceId, tags: [tag], into: newTag, requireUnusedTarget: true },
+          authorization.actor(context, actorId) ?? null,
+        ),
+      );
+    },
+  );
+
+  server.registerTool(
+    'tag_merge',
+    {
+      title: 'Merge tags',
+      description:
+        'Fold near-duplicate tags into one tag throughout one space, for example customers and Customer into customer. Every active or archived memory carrying any of the tags gets a new revision with the rewritten tags.',
+      inputSchema: toolInputSchemas.tag_merge,
+      outputSchema: toolOutputSchemas.tag_merge,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+    },
+    async ({ spaceId, tags, into, actorId }) => {
+      const selectedSpaceId = spaceId ?? 'default';
+      requireActiveSpace(context, selectedSpaceId, 'manage');
+      return result(
+        await service.rewriteTags(
+          { spaceId: selectedSpaceId, tags, into },
+          authorization.actor(context, actorId) ?? null,
+        ),
+      );
+    },
+  );
+
   server.registerTool(
     'memory_status',
     {
@@ -1096,6 +2243,63 @@ export function buildMcpServer(
     },
   );
 
+  server.registerResource(
+    'space',
+    new ResourceTemplate('memory://spaces/{spaceId}', { list: undefined }),
+    {
+      title: 'Memory space',
+      description:
+        'The current record of a memory space and every revision of its name, description, and metadata.',
+      mimeType: 'application/json',
+      cacheHint: { ttlMs: 0, cacheScope: 'private' },
+    },
+    async (uri, variables) => {
+      const spaceId = decodeURIComponent(String(variables.spaceId));
+      authorization.requireSpace(context, spaceId, 'read', true);
+      const space = service.getSpace(spaceId);
+      if (!space) throw new MemoryAccessError('not-found-or-inaccessible');
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify({
+              space,
+              history: service.getSpaceHistory(spaceId),
+            }),
+          },
+        ],
+      };
+    },
+  );
+
+  server.registerResource(
+    'memory-kind',
+    new ResourceTemplate('memory://spaces/{spaceId}/kinds/{kind}', { list: undefined }),
+    {
+      title: 'Memory kind schema',
+      description: 'The JSON Schema that content of a memory kind must satisfy in a space.',
+      mimeType: 'application/schema+json',
+      cacheHint: { ttlMs: 0, cacheScope: 'private' },
+    },
+    async (uri, variables) => {
+      const spaceId = decodeURIComponent(String(variables.spaceId));
+      const kind = decodeURIComponent(String(variables.kind));
+      requireActiveSpace(context, spaceId, 'read');
+      const definition = service.getKind(spaceId, kind);
+      if (!definition) throw new Error(`Memory kind not found: ${kind}`);
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'application/schema+json',
+            text: JSON.stringify(definition.schema),
+          },
+        ],
+      };
+    },
+  );
+
   server.registerResource(
     'memory-history',
     new ResourceTemplate('memory://spaces/{spaceId}/memories/{memoryId}/history', {
@@ -1129,5 +2333,108 @@ export function buildMcpServer(
     },
   );
 
+  const readGraphResource = (uri: URL, variables: Record<string, string | string[]>) => {
+    const memoryId = String(variables.memoryId);
+    const requestedSpaceId = decodeURIComponent(String(variables.spaceId));
+    const format = variables.format === undefined ? 'jsonl' : String(variables.format);
+    if (!isMemoryGraphFormat(format)) throw new Error(`Unsupported graph format: ${format}`);
+    const actualSpaceId = requireMemory(context, memoryId, 'read');
+    if (actualSpaceId !== null && actualSpaceId !== requestedSpaceId) {
+      throw new MemoryAccessError('not-found-or-inaccessible');
+    }
+    const graph = service.exportGraph({
+      spaceId: requestedSpaceId,
+      rootMemoryId: memoryId,
+      maxDepth: 2,
+      limit: 100,
+    });
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: memoryGraphMimeTypes[format],
+          text: renderMemoryGraph(graph, format),
+        },
+      ],
+    };
+  };
+
+  server.registerResource(
+    'memory-graph',
+    new ResourceTemplate('memory://spaces/{spaceId}/memories/{memoryId}/graph', {
+      list: undefined,
+    }),
+    {
+      title: 'Memory graph',
+      description:
+        'Memories within two links of a memory and the links between them, as JSON Lines.',
+      mimeType: 'application/jsonl',
+      cacheHint: { ttlMs: 0, cacheScope: 'private' },
+    },
+    async (uri, variables) => readGraphResource(uri, variables),
+  );
+
+  server.registerResource(
+    'memory-graph-format',
+    new ResourceTemplate('memory://spaces/{spaceId}/memories/{memoryId}/graph/{format}', {
+      list: undefined,
+    }),
+    {
+      title: 'Memory graph export',
+      description:
+        'Memories within two links of a memory and the links between them, as dot, graphml, mermaid, or jsonl.',
+      cacheHint: { ttlMs: 0, cacheScope: 'private' },
+    },
+    async (uri, variables) => readGraphResource(uri, variables),
+  );
+
+  const readDiffResource = (uri: URL, variables: Record<string, string | string[]>) => {
+    const memoryId = String(variables.memoryId);
+    const requestedSpaceId = decodeURIComponent(String(variables.spaceId));
+    const actualSpaceId = requireMemory(context, memoryId, 'read');
+    if (actualSpaceId !== null && actualSpaceId !== requestedSpaceId) {
+      throw new MemoryAccessError('not-found-or-inaccessible');
+    }
+    const diff = service.diffRevisions(
+      memoryId,
+      String(variables.fromRevisionId),
+      variables.toRevisionId === undefined ? undefined : String(variables.toRevisionId),
+    );
+    return {
+      contents: [
+        { uri: uri.href, mimeType: 'application/json', text: JSON.stringify(diffPayload(diff)) },
+      ],
+    };
+  };
+
+  server.registerResource(
+    'memory-diff',
+    new ResourceTemplate('memory://spaces/{spaceId}/memories/{memoryId}/diff/{fromRevisionId}', {
+      list: undefined,
+    }),
+    {
+      title: 'Memory diff',
+      description: 'Changes from a revision to the current revision of a memory.',
+      mimeType: 'application/json',
+      cacheHint: { ttlMs: 0, cacheScope: 'private' },
+    },
+    async (uri, variables) => readDiffResource(uri, variables),
+  );
+
+  server.registerResource(
+    'memory-revision-diff',
+    new ResourceTemplate(
+      'memory://spaces/{spaceId}/memories/{memoryId}/diff/{fromRevisionId}/{toRevisionId}',
+      { list: undefined },
+    ),
+    {
+      title: 'Memory revision diff',
+      description: 'Changes between two revisions of a memory.',
+      mimeType: 'application/json',
+      cacheHint: { ttlMs: 0, cacheScope: 'private' },
+    },
+    async (uri, variables) => readDiffResource(uri, variables),
+  );
+
   return server;
 }
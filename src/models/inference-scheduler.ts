@@ -56,10 +56,14 @@ interface CountRequest extends RequestBase<number[]> {
   counts: Array<number | undefined>;
 }
 
+export interface RerankPair {
+  query: string;
+  document: string;
+}
+
 interface RerankRequest extends RequestBase<number[]> {
   kind: 'rerank';
-  query: string;
-  documents: string[];
+  pairs: RerankPair[];
   order: number[];
   cursor: number;
   scores: Array<number | undefined>;
@@ -421,8 +425,8 @@ export class InferenceScheduler {
         if (index === undefined) {
           throw new ModelWorkerFailureError('Reranking order is incomplete');
         }
-        const document = next.documents[index] ?? '';
-        const pairCharacters = next.query.length + document.length;
+        const pair = next.pairs[index];
+        const pairCharacters = (pair?.query.length ?? 0) + (pair?.document.length ?? 0);
         if (mappings.length > 0 && characters + pairCharacters > RERANK_SLICE_CHARACTER_BUDGET) {
           break;
         }
@@ -437,10 +441,9 @@ export class InferenceScheduler {
       requests: new Set(requests),
       operation: 'rerank_pairs',
       payload: {
-        pairs: mappings.map(({ request, index }) => ({
-          query: request.query,
-          document: request.documents[index] ?? '',
-        })),
+        pairs: mappings.map(
+          ({ request, index }) => request.pairs[index] ?? { query: '', document: '' },
+        ),
       },
       apply: (raw) => {
         const { scores } = rerankResponseSchema.parse(raw);
@@ -561,19 +564,23 @@ export class InferenceScheduler {
   }
 
   public rerank(query: string, documents: string[]): Promise<number[]> {
-    if (documents.length === 0) return Promise.resolve([]);
+    return this.rerankPairs(documents.map((document) => ({ query, document })));
+  }
+
+  /** Scores each query and document pair, so callers can batch different queries together. */
+  public rerankPairs(pairs: RerankPair[]): Promise<number[]> {
+    if (pairs.length === 0) return Promise.resolve([]);
     return requestPromise((resolve, reject) => {
       const request: RerankRequest = {
         ...this.base('rerank', 'rerank', resolve, reject),
         kind: 'rerank',
-        query,
-        documents,
-        order: documents
-          .map((document, index) => ({ index, length: query.length + document.length }))
+        pairs,
+        order: pairs
+          .map((pair, index) => ({ index, length: pair.query.length + pair.document.length }))
           .sort((left, right) => right.length - left.length)
           .map(({ index }) => index),
         cursor: 0,
-        scores: Array.from({ length: documents.length }),
+        scores: Array.from({ length: pairs.length }),
       };
       this.enqueue(request);
     });
@@ -1,7 +1,11 @@
 import * as z from 'zod/v4';
 import type { AppConfig } from '../config.js';
 import type { Logger } from '../logger.js';
-import { InferenceScheduler, type InferenceSchedulerSnapshot } from './inference-scheduler.js';
+import {
+  InferenceScheduler,
+  type InferenceSchedulerSnapshot,
+  type RerankPair,
+} from './inference-scheduler.js';
 import { ModelWorkerTransport } from './worker-transport.js';
 
 const modelHealthSchema = z.object({
@@ -92,6 +96,10 @@ export class ModelClient {
     return this.scheduler.rerank(query, documents);
   }
 
+  public rerankPairs(pairs: RerankPair[]): Promise<number[]> {
+    return this.scheduler.rerankPairs(pairs);
+  }
+
   public schedulerStatus(): InferenceSchedulerSnapshot {
     return this.scheduler.snapshot();
   }
@@ -6,49 +6,124 @@ import * as sqliteVec from 'sqlite-vec';
 import * as z from 'zod/v4';
 import type { AppConfig } from '../config.js';
 import { MemoryIdentityConflictError } from '../domain/errors.js';
-import { contentHash, parseJsonValue, stableStringify } from '../domain/json.js';
+import {
+  applyJsonPatch,
+  applyMergePatch,
+  compileJsonSchema,
+  contentHash,
+  jsonPatch,
+  parseJsonValue,
+  stableStringify,
+} from '../domain/json.js';
 import type {
   ContentFeedbackSignal,
   FeedbackStatus,
   FeedbackSummary,
   IndexStatus,
   JsonObject,
+  JsonValue,
   LogicalMemoryResolution,
+  MemoryBatchInput,
+  MemoryBatchItem,
+  MemoryBatchOperation,
+  MemoryBatchResult,
+  MemoryBatchTarget,
+  MemoryChange,
+  MemoryChangeFilters,
+  MemoryChangePage,
+  MemoryChangeType,
+  MemoryCopyInput,
   MemoryCreateInput,
+  MemoryDiffField,
+  MemoryDocumentPatch,
+  MemoryDuplicateCluster,
+  MemoryDuplicateFilters,
+  MemoryDuplicateMatch,
+  MemoryDuplicateReport,
+  MemoryExpiryResult,
   MemoryFeedback,
   MemoryFeedbackInput,
   MemoryFeedbackListFilters,
   MemoryFeedbackListPage,
+  MemoryGraphNode,
+  MemoryGraphStats,
   MemoryHistoryPage,
   MemoryHistoryRevision,
   MemoryInput,
+  MemoryKindDefinition,
+  MemoryKindInput,
   MemoryLink,
   MemoryLinkDirection,
+  MemoryLinkRevision,
+  MemoryLinkUpdateInput,
   MemoryListFilters,
   MemoryListPage,
   MemoryMergeInput,
   MemoryMergeResult,
+  MemoryMoveInput,
+  MemoryMoveResult,
+  MemoryPatchInput,
+  MemoryPath,
   MemoryRecord,
+  MemoryRelationTypeDefinition,
+  MemoryRelationTypeInput,
+  MemoryReviewInput,
+  MemoryReviewQueueFilters,
+  MemoryReviewQueuePage,
+  MemoryReviewReason,
+  MemoryReviewResult,
   MemoryRevision,
+  MemoryRevisionDiff,
   MemorySearchRecord,
   MemorySearchRevision,
   MemoryState,
   MemorySummaryRecord,
+  MemoryTagFilters,
+  MemoryTagPage,
+  MemoryTagRewriteInput,
+  MemoryTagRewriteResult,
   MemoryTraversalEntry,
   MemoryTraversalPathStep,
+  MemoryUnmergeInput,
+  MemoryUnmergeResult,
   SegmentRecord,
   SourceInput,
+  SpaceCloneInput,
+  SpaceCloneResult,
+  SpaceExpiryAction,
   SpaceListFilters,
   SpaceListPage,
   SpaceRecord,
+  SpaceRevision,
   SpaceState,
+  SpaceUpdateInput,
 } from '../domain/types.js';
-import { searchableProjection } from '../indexing/projector.js';
+import { type ProjectionInput, searchableProjection } from '../indexing/projector.js';
 import type { Logger } from '../logger.js';
 import { applyMigrations, type MigrationStatus } from './migrations/index.js';
+import {
+  type MemorySnapshot,
+  parseMemorySnapshot,
+  type SnapshotConflictPolicy,
+  type SnapshotImportOptions,
+  type SnapshotImportResult,
+  type SnapshotLink,
+  type SnapshotRevision,
+} from './snapshot.js';
 
 type Row = Record<string, unknown>;
 
+interface DuplicateCandidates {
+  scanned: Map<string, Row>;
+  truncated: boolean;
+  semanticAvailable: boolean;
+  pairs: Set<string>;
+  score(
+    left: string,
+    right: string,
+  ): Omit<MemoryDuplicateMatch, 'memoryId' | 'expectedRevisionId' | 'title'>;
+}
+
 export interface RankedSegment {
   segmentId: string;
   memoryId: string;
@@ -84,6 +159,22 @@ export interface ClaimedIndexJob {
   embeddingGenerationId: string | null;
 }
 
+/** Embeddings of the segments of a DraftIndex, in segment order. */
+export interface DraftVectors {
+  modelProfileId: string;
+  embeddings: number[][];
+}
+
+/**
+ * The segments and vectors of a memory that is not stored yet. Indexing reuses them once the
+ * memory is stored with the same projection.
+ */
+export interface DraftIndex {
+  projection: ProjectionInput;
+  segments: SegmentRecord[];
+  vectors: DraftVectors | null;
+}
+
 interface CandidateFilters {
   spaceIds?: string[];
   states?: MemoryState[];
@@ -100,6 +191,12 @@ interface RevisionRelations {
   tagsByRevisionId: Map<string, string[]>;
 }
 
+/** How a relation name reads from the other endpoint of a link, when the registry says so. */
+interface RelationSemantics {
+  symmetric: boolean;
+  counterpart: string | null;
+}
+
 interface MemoryIdentityInfo {
   logicalKey: string | null;
   canonicalMemoryId: string | null;
@@ -131,11 +228,22 @@ const retrievalFeedbackSignals = ['relevant', 'irrelevant', 'helpful', 'not_help
 const VECTOR_UNBOUNDED_FUTURE = '9999-12-31T23:59:59.999Z';
 const CURRENT_VECTOR_INITIAL_K = 100;
 const CURRENT_VECTOR_MAX_K = 2_000;
+const DUPLICATE_SCAN_LIMIT = 2_000;
+const DUPLICATE_NEIGHBOR_K = 16;
+const DUPLICATE_SEGMENTS_PER_MEMORY = 8;
+const DUPLICATE_DEFAULT_THRESHOLD = 0.9;
+const PATH_FRONTIER_LIMIT = 5_000;
 const contentFeedbackSignalSchema = z.enum(contentFeedbackSignals);
 const retrievalFeedbackSignalSchema = z.enum(retrievalFeedbackSignals);
 const feedbackScopeSchema = z.enum(['content', 'retrieval']);
 const feedbackActorTypeSchema = z.enum(['user', 'agent', 'system', 'external']);
 const storedFeedbackScopeSchema = z.enum(['legacy', 'content', 'retrieval']);
+const relationCardinalitySchema = z.enum([
+  'one-to-one',
+  'one-to-many',
+  'many-to-one',
+  'many-to-many',
+]);
 
 const joinedMemoryColumns = `
   m.id AS memory_record_id,
@@ -162,6 +270,123 @@ const searchRevisionColumns = `
   r.recorded_at,
   r.searchable_text`;
 
+const expiryActor = 'system:expiry';
+
+const diffFields: MemoryDiffField[] = [
+  'title',
+  'kind',
+  'tags',
+  'sources',
+  'salience',
+  'confidence',
+  'observedAt',
+  'validFrom',
+  'validTo',
+  'expiresAt',
+  'reviewAfter',
+];
+
+const latestContentSignalSql = `(SELECT feedback.signal FROM memory_feedback feedback
+  WHERE feedback.revision_id = r.id
+    AND feedback.scope = 'content'
+    AND feedback.signal IN ('verified', 'correct', 'incorrect', 'stale', 'contradicted')
+  ORDER BY feedback.created_at DESC, feedback.id DESC LIMIT 1)`;
+
+/**
+ * Matches a redirect event that is in force now, or at atTime when given (bind atTime twice).
+ * Released events stay in the audit trail; the latest one in force for a source is its redirect.
+ */
+function redirectInForce(alias: string, atTime?: string): string {
+  return atTime
+    ? `${alias}.created_at <= ? AND (${alias}.released_at IS NULL OR ${alias}.released_at > ?)`
+    : `${alias}.released_at IS NULL`;
+}
+
+/**
+ * Selects links as `link` with the metadata and validity of the latest revision recorded by the
+ * bound time, so validity edits made after that time do not change what it saw (bind it first).
+ */
+const linksAsOfSql = `
+  SELECT link.id, link.space_id, link.from_memory_id, link.to_memory_id, link.relation,
+         link.created_at, link.deleted_at, revision.revision_number, revision.metadata_json,
+         revision.valid_from, revision.valid_to
+  FROM memory_links link
+  JOIN memory_link_revisions revision ON revision.link_id = link.id
+   AND revision.revision_number = (
+     SELECT MAX(recorded.revision_number) FROM memory_link_revisions recorded
+     WHERE recorded.link_id = link.id AND recorded.recorded_at <= ?
+   )`;
+
+/** Adds the inverse of each relation so stored links of either form match a relation filter. */
+function relationsWithCounterparts(
+  relations: string[],
+  semantics: Map<string, RelationSemantics>,
+): string[] {
+  return [
+    ...new Set(
+      relations.flatMap((relation) => {
+        const counterpart = semantics.get(relation.toLocaleLowerCase())?.counterpart;
+        return counterpart ? [relation, counterpart] : [relation];
+      }),
+    ),
+  ];
+}
+
+/** Lowercased word tokens of a revision's title and content lines; metadata and sources are skipped. */
+function duplicateTokens(searchableText: string): Set<string> {
+  const tokens = new Set<string>();
+  let included = false;
+  for (const line of searchableText.split('\n')) {
+    let text = line;
+    if (line.startsWith('Title: ')) {
+      included = true;
+      text = line.slice('Title: '.length);
+    } else if (line.startsWith('$')) {
+      included = true;
+      text = line.slice(line.indexOf(':') + 1);
+    } else if (/^(?:Kind: |Tags: |metadata|sources\/)/u.test(line)) {
+      included = false;
+    }
+    if (!included) continue;
+    for (const token of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) tokens.add(token);
+  }
+  return tokens;
+}
+
+function tokenOverlap(left: Set<string>, right: Set<string>): number {
+  if (left.size === 0 || right.size === 0) return 0;
+  const [smaller, larger] = left.size <= right.size ? [left, right] : [right, left];
+  let shared = 0;
+  for (const token of smaller) if (larger.has(token)) shared += 1;
+  return shared / (left.size + right.size - shared);
+}
+
+function duplicatePairKey(left: string, right: string): string {
+  return left < right ? `${left}\u0000${right}` : `${right}\u0000${left}`;
+}
+
+/** Stored embeddings are unit length, so cosine similarity is 1 - d^2 / 2. */
+function unitVectorSimilarity(distance: unknown): number {
+  return 1 - Number(distance) ** 2 / 2;
+}
+
+function duplicateScore(
+  contentHashMatch: boolean,
+  lexicalOverlap: number,
+  semanticSimilarity: number | null,
+): Omit<MemoryDuplicateMatch, 'memoryId' | 'expectedRevisionId' | 'title'> {
+  const similarity = contentHashMatch
+    ? 1
+    : Math.max(lexicalOverlap, semanticSimilarity ?? Number.NEGATIVE_INFINITY);
+  return {
+    similarity: Math.round(similarity * 10_000) / 10_000,
+    contentHashMatch,
+    semanticSimilarity:
+      semanticSimilarity === null ? null : Math.round(semanticSimilarity * 10_000) / 10_000,
+    lexicalOverlap: Math.round(lexicalOverlap * 10_000) / 10_000,
+  };
+}
+
 function now(): string {
   return new Date().toISOString();
 }
@@ -179,6 +404,15 @@ function optionalString(value: unknown): string | null {
   return typeof value === 'string' ? value : null;
 }
 
+function parseStringList(value: unknown): string[] {
+  if (typeof value !== 'string') return [];
+  return z.array(z.string()).parse(JSON.parse(value));
+}
+
+function normalizeKindList(kinds: string[] | undefined): string[] {
+  return [...new Set((kinds ?? []).map((kind) => kind.trim()).filter(Boolean))].sort();
+}
+
 function normalizeTags(tags: string[] | undefined): string[] {
   return [...new Set((tags ?? []).map((tag) => tag.trim().toLowerCase()).filter(Boolean))].sort();
 }
@@ -191,6 +425,7 @@ function assertTemporalRange(validFrom: string | undefined, validTo: string | un
 
 const listCursorSchema = z.object({ updatedAt: z.string(), id: z.string() });
 const feedbackCursorSchema = z.object({ createdAt: z.string(), id: z.string() });
+const tagCursorSchema = z.object({ tag: z.string(), spaceId: z.string() });
 const spaceCursorSchema = z.object({
   rank: z.number().int().min(0),
   name: z.string(),
@@ -210,6 +445,18 @@ function encodeListCursor(updatedAt: string, id: string): string {
   return Buffer.from(JSON.stringify({ updatedAt, id }), 'utf8').toString('base64url');
 }
 
+function decodeTagCursor(cursor: string): z.infer<typeof tagCursorSchema> {
+  try {
+    return tagCursorSchema.parse(JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')));
+  } catch {
+    throw new Error('Invalid memory tag cursor');
+  }
+}
+
+function encodeTagCursor(tag: string, spaceId: string): string {
+  return Buffer.from(JSON.stringify({ tag, spaceId }), 'utf8').toString('base64url');
+}
+
 function decodeSpaceCursor(cursor: string): z.infer<typeof spaceCursorSchema> {
   try {
     return spaceCursorSchema.parse(JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')));
@@ -265,6 +512,51 @@ function encodeFeedbackCursor(createdAt: string, id: string): string {
   return Buffer.from(JSON.stringify({ createdAt, id }), 'utf8').toString('base64url');
 }
 
+const changeCursorSchema = z.object({ sequence: z.number().int().min(0) });
+const reviewCursorSchema = z.object({
+  asOf: z.string(),
+  urgency: z.number().int().min(0),
+  salience: z.number(),
+  id: z.string(),
+  fingerprint: z.string().regex(/^[a-f0-9]{64}$/u),
+});
+
+function decodeChangeCursor(cursor: string): z.infer<typeof changeCursorSchema> {
+  try {
+    return changeCursorSchema.parse(JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')));
+  } catch {
+    throw new Error('Invalid memory change cursor');
+  }
+}
+
+function encodeChangeCursor(sequence: number): string {
+  return Buffer.from(JSON.stringify({ sequence }), 'utf8').toString('base64url');
+}
+
+function decodeReviewCursor(cursor: string): z.infer<typeof reviewCursorSchema> {
+  try {
+    return reviewCursorSchema.parse(JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')));
+  } catch {
+    throw new Error('Invalid memory review queue cursor');
+  }
+}
+
+function encodeReviewCursor(cursor: z.infer<typeof reviewCursorSchema>): string {
+  return Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url');
+}
+
+function reviewQueueFingerprint(filters: MemoryReviewQueueFilters): string {
+  return createHash('sha256')
+    .update(
+      stableStringify({
+        spaceIds: filters.spaceIds ? [...filters.spaceIds].sort() : null,
+        sourceAgeDays: filters.sourceAgeDays ?? null,
+      }),
+      'utf8',
+    )
+    .digest('hex');
+}
+
 function emptyFeedbackSummary(revisionId: string): FeedbackSummary {
   return {
     revisionId,
@@ -311,6 +603,117 @@ function canonicalRevisionPayload(
   };
 }
 
+const batchItemsSchema = z.array(
+  z.object({
+    op: z.enum(['create', 'revise', 'archive', 'link', 'unlink']),
+    memoryId: z.string().nullable(),
+    revisionId: z.string().nullable(),
+    linkId: z.string().nullable(),
+  }),
+);
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function batchRequestHash(actor: string | null, operations: MemoryBatchOperation[]): string {
+  return createHash('sha256')
+    .update(stableStringify(parseJsonValue(JSON.stringify({ actor, operations }))), 'utf8')
+    .digest('hex');
+}
+
+function mergeRequestHash(request: {
+  actorId: string | null;
+  canonicalMemoryId: string;
+  duplicates: Array<{ memoryId: string; expectedRevisionId: string }>;
+  expectedCanonicalRevisionId: string;
+  metadata: JsonObject;
+  reason: string | null;
+}): string {
+  return createHash('sha256').update(stableStringify(request), 'utf8').digest('hex');
+}
+
+function revisionInput(revision: SnapshotRevision | MemoryRevision): MemoryInput {
+  const input: MemoryInput = {
+    content: revision.content,
+    tags: revision.tags,
+    metadata: revision.metadata,
+    sources: revision.sources.map((source) => {
+      const result: SourceInput = { metadata: source.metadata ?? {} };
+      if (source.uri !== undefined) result.uri = source.uri;
+      if (source.label !== undefined) result.label = source.label;
+      if (source.type !== undefined) result.type = source.type;
+      if (source.observedAt !== undefined) result.observedAt = source.observedAt;
+      return result;
+    }),
+  };
+  if (revision.title !== null) input.title = revision.title;
+  if (revision.kind !== null) input.kind = revision.kind;
+  if (revision.salience !== null) input.salience = revision.salience;
+  if (revision.confidence !== null) input.confidence = revision.confidence;
+  if (revision.observedAt !== null) input.observedAt = revision.observedAt;
+  if (revision.validFrom !== null) input.validFrom = revision.validFrom;
+  if (revision.validTo !== null) input.validTo = revision.validTo;
+  if (revision.expiresAt !== null) input.expiresAt = revision.expiresAt;
+  if (revision.reviewAfter !== null) input.reviewAfter = revision.reviewAfter;
+  return input;
+}
+
+function applyDocumentPatch(document: JsonValue, patch: MemoryDocumentPatch): JsonValue {
+  return patch.format === 'json-patch'
+    ? applyJsonPatch(document, patch.operations)
+    : applyMergePatch(document, patch.patch);
+}
+
+function patchedRevisionInput(revision: MemoryRevision, patch: MemoryPatchInput): MemoryInput {
+  const input = revisionInput(revision);
+  if (patch.content) input.content = applyDocumentPatch(revision.content, patch.content);
+  if (patch.metadata) {
+    const metadata = applyDocumentPatch(revision.metadata, patch.metadata);
+    if (metadata === null || typeof metadata !== 'object' || Array.isArray(metadata)) {
+      throw new Error('Patched metadata must be a JSON object');
+    }
+    input.metadata = metadata;
+  }
+  const removedTags = new Set(normalizeTags(patch.removeTags));
+  input.tags = [
+    ...revision.tags.filter((tag) => !removedTags.has(tag)),
+    ...normalizeTags(patch.addTags),
+  ];
+  const removedSourceUris = new Set(patch.removeSourceUris ?? []);
+  input.sources = [
+    ...(input.sources ?? []).filter(
+      (source) => source.uri === undefined || !removedSourceUris.has(source.uri),
+    ),
+    ...(patch.addSources ?? []),
+  ];
+  return input;
+}
+
+function pointersOverlap(left: string, right: string): boolean {
+  return left === right || left.startsWith(`${right}/`) || right.startsWith(`${left}/`);
+}
+
+/**
+ * A stale patch may be replayed on the current revision only when it has the same
+ * effect there and none of its changes touch paths changed by the newer revisions.
+ */
+function rebasesCleanly(
+  base: JsonValue,
+  intended: JsonValue,
+  current: JsonValue,
+  patched: JsonValue,
+): boolean {
+  const ours = jsonPatch(base, intended);
+  if (stableStringify(ours) !== stableStringify(jsonPatch(current, patched))) {
+    return false;
+  }
+  const theirs = jsonPatch(base, current);
+  return ours.every((operation) =>
+    theirs.every((other) => !pointersOverlap(operation.path, other.path)),
+  );
+}
+
 export class MemoryStore {
   private readonly database: Database.Database;
   private readonly migrations: MigrationStatus;
@@ -452,6 +855,7 @@ export class MemoryStore {
     name: string;
     description?: string;
     metadata?: JsonObject;
+    expiryAction?: SpaceExpiryAction;
   }): Row {
     const id = input.id?.trim() || randomUUID();
     const existing = this.getRow('SELECT deleted_at FROM spaces WHERE id = ?', id);
@@ -464,14 +868,15 @@ export class MemoryStore {
     const createdAt = now();
     this.database
       .prepare(
-        `INSERT INTO spaces(id, name, description, metadata_json, created_at)
-         VALUES (?, ?, ?, ?, ?)`,
+        `INSERT INTO spaces(id, name, description, metadata_json, expiry_action, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)`,
       )
       .run(
         id,
         input.name.trim(),
         input.description ?? null,
         stableStringify(input.metadata ?? {}),
+        input.expiryAction ?? 'archive',
         createdAt,
       );
     return {
@@ -479,8 +884,10 @@ export class MemoryStore {
       name: input.name.trim(),
       description: input.description ?? null,
       metadata: input.metadata ?? {},
+      expiryAction: input.expiryAction ?? 'archive',
       createdAt,
       deletedAt: null,
+      revisionNumber: 1,
     };
   }
 
@@ -490,11 +897,94 @@ export class MemoryStore {
       name: String(row.name),
       description: optionalString(row.description),
       metadata: includeMetadata ? parseObject(row.metadata_json) : {},
+      expiryAction: row.expiry_action === 'delete' ? 'delete' : 'archive',
       createdAt: String(row.created_at),
       deletedAt: optionalString(row.deleted_at),
+      revisionNumber: Number(row.revision_number),
     };
   }
 
+  public getSpace(spaceId: string): SpaceRecord | null {
+    const row = this.getRow('SELECT * FROM spaces WHERE id = ?', spaceId);
+    return row ? this.spaceFromRow(row) : null;
+  }
+
+  public getSpaceHistory(spaceId: string): SpaceRevision[] {
+    return this.allRows(
+      'SELECT * FROM space_revisions WHERE space_id = ? ORDER BY revision_number',
+      spaceId,
+    ).map((row) => ({
+      spaceId: String(row.space_id),
+      revisionNumber: Number(row.revision_number),
+      name: String(row.name),
+      description: optionalString(row.description),
+      metadata: parseObject(row.metadata_json),
+      expiryAction: row.expiry_action === 'delete' ? 'delete' : 'archive',
+      recordedAt: String(row.recorded_at),
+      actor: optionalString(row.actor),
+    }));
+  }
+
+  /** Appends the space's current descriptive fields as its next revision. */
+  private recordSpaceRevision(spaceId: string, actor: string | null): void {
+    const revisionNumber = Number(
+      this.requireRow(
+        `SELECT COALESCE(MAX(revision_number), 0) + 1 AS next
+         FROM space_revisions WHERE space_id = ?`,
+        spaceId,
+      ).next,
+    );
+    this.database
+      .prepare(
+        `INSERT INTO space_revisions(
+           space_id, revision_number, name, description, metadata_json, expiry_action,
+           recorded_at, actor
+         )
+         SELECT id, ?, name, description, metadata_json, expiry_action, ?, ?
+         FROM spaces WHERE id = ?`,
+      )
+      .run(revisionNumber, now(), actor, spaceId);
+    this.database
+      .prepare('UPDATE spaces SET revision_number = ? WHERE id = ?')
+      .run(revisionNumber, spaceId);
+  }
+
+  public updateSpace(input: SpaceUpdateInput, actor: string | null = null): SpaceRecord {
+    const transaction = this.database.transaction((): SpaceRecord => {
+      this.assertSpace(input.spaceId);
+      const current = this.spaceFromRow(
+        this.requireRow('SELECT * FROM spaces WHERE id = ?', input.spaceId),
+      );
+      if (current.revisionNumber !== input.expectedRevisionNumber) {
+        throw new Error(
+          `Space revision conflict: expected ${String(input.expectedRevisionNumber)}, current is ${String(current.revisionNumber)}`,
+        );
+      }
+      const name = input.name === undefined ? current.name : input.name.trim();
+      if (!name) throw new Error('A memory space name must contain non-whitespace text');
+      const description = input.description === undefined ? current.description : input.description;
+      const metadata = input.metadata ?? current.metadata;
+      const expiryAction = input.expiryAction ?? current.expiryAction;
+      if (
+        name === current.name &&
+        description === current.description &&
+        stableStringify(metadata) === stableStringify(current.metadata) &&
+        expiryAction === current.expiryAction
+      ) {
+        return current;
+      }
+      this.database
+        .prepare(
+          `UPDATE spaces SET name = ?, description = ?, metadata_json = ?, expiry_action = ?
+           WHERE id = ?`,
+        )
+        .run(name, description, stableStringify(metadata), expiryAction, input.spaceId);
+      this.recordSpaceRevision(input.spaceId, actor);
+      return this.spaceFromRow(this.requireRow('SELECT * FROM spaces WHERE id = ?', input.spaceId));
+    });
+    return transaction.immediate();
+  }
+
   public listSpaces(filters: SpaceListFilters = {}): SpaceListPage {
     const clauses: string[] = [];
     const parameters: unknown[] = [];
@@ -693,6 +1183,303 @@ export class MemoryStore {
     }
   }
 
+  private kindFromRow(row: Row): MemoryKindDefinition {
+    return {
+      spaceId: String(row.space_id),
+      kind: String(row.kind),
+      description: optionalString(row.description),
+      schema: parseObject(row.schema_json),
+      createdAt: String(row.created_at),
+      updatedAt: String(row.updated_at),
+    };
+  }
+
+  public defineKind(input: MemoryKindInput): MemoryKindDefinition {
+    this.assertSpace(input.spaceId);
+    compileJsonSchema(input.schema);
+    const timestamp = now();
+    this.database
+      .prepare(
+        `INSERT INTO memory_kinds(
+           space_id, kind, description, schema_json, created_at, updated_at
+         ) VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT(space_id, kind) DO UPDATE SET
+           description = excluded.description,
+           schema_json = excluded.schema_json,
+           updated_at = excluded.updated_at`,
+      )
+      .run(
+        input.spaceId,
+        input.kind,
+        input.description ?? null,
+        stableStringify(input.schema),
+        timestamp,
+        timestamp,
+      );
+    return this.kindFromRow(
+      this.requireRow(
+        'SELECT * FROM memory_kinds WHERE space_id = ? AND kind = ?',
+        input.spaceId,
+        input.kind,
+      ),
+    );
+  }
+
+  public getKind(spaceId: string, kind: string): MemoryKindDefinition | null {
+    const row = this.getRow(
+      'SELECT * FROM memory_kinds WHERE space_id = ? AND kind = ?',
+      spaceId,
+      kind,
+    );
+    return row ? this.kindFromRow(row) : null;
+  }
+
+  public listKinds(spaceId: string): MemoryKindDefinition[] {
+    return this.allRows('SELECT * FROM memory_kinds WHERE space_id = ? ORDER BY kind', spaceId).map(
+      (row) => this.kindFromRow(row),
+    );
+  }
+
+  private relationTypeFromRow(row: Row): MemoryRelationTypeDefinition {
+    return {
+      spaceId: String(row.space_id),
+      relation: String(row.relation),
+      inverse: optionalString(row.inverse),
+      symmetric: Number(row.symmetric) === 1,
+      fromKinds: parseStringList(row.from_kinds_json),
+      toKinds: parseStringList(row.to_kinds_json),
+      cardinality: relationCardinalitySchema.parse(row.cardinality),
+      description: optionalString(row.description),
+      createdAt: String(row.created_at),
+      updatedAt: String(row.updated_at),
+    };
+  }
+
+  public defineRelationType(input: MemoryRelationTypeInput): MemoryRelationTypeDefinition {
+    this.assertSpace(input.spaceId);
+    const relation = input.relation.trim();
+    const inverse = input.inverse?.trim() || null;
+    const symmetric = input.symmetric ?? false;
+    const cardinality = input.cardinality ?? 'many-to-many';
+    if (!relation) throw new Error('relation must contain non-whitespace text');
+    for (const name of [relation, inverse]) {
+      if (name?.toLocaleLowerCase() === 'merged-into') {
+        throw new Error('The merged-into relationship is reserved; use memory_merge');
+      }
+    }
+    if (inverse && inverse.toLocaleLowerCase() === relation.toLocaleLowerCase()) {
+      throw new Error('inverse must differ from relation; use symmetric for undirected relations');
+    }
+    if (symmetric && inverse) throw new Error('Symmetric relations cannot have an inverse');
+    if (symmetric && (cardinality === 'one-to-many' || cardinality === 'many-to-one')) {
+      throw new Error('Symmetric relations must be one-to-one or many-to-many');
+    }
+    const fromKinds = normalizeKindList(input.fromKinds);
+    const toKinds = normalizeKindList(input.toKinds);
+    const define = this.database.transaction((): MemoryRelationTypeDefinition => {
+      this.assertRelationNamesAvailable(input.spaceId, relation, inverse);
+      const timestamp = now();
+      this.database
+        .prepare(
+          `INSERT INTO memory_relation_types(
+             space_id, relation, inverse, symmetric, from_kinds_json, to_kinds_json,
+             cardinality, description, created_at, updated_at
+           ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT(space_id, relation) DO UPDATE SET
+             inverse = excluded.inverse,
+             symmetric = excluded.symmetric,
+             from_kinds_json = excluded.from_kinds_json,
+             to_kinds_json = excluded.to_kinds_json,
+             cardinality = excluded.cardinality,
+             description = excluded.description,
+             updated_at = excluded.updated_at`,
+        )
+        .run(
+          input.spaceId,
+          relation,
+          inverse,
+          symmetric ? 1 : 0,
+          JSON.stringify(fromKinds),
+          JSON.stringify(toKinds),
+          cardinality,
+          input.description ?? null,
+          timestamp,
+          timestamp,
+        );
+      return this.relationTypeFromRow(
+        this.requireRow(
+          'SELECT * FROM memory_relation_types WHERE space_id = ? AND relation = ?',
+          input.spaceId,
+          relation,
+        ),
+      );
+    });
+    return define.immediate();
+  }
+
+  private assertRelationNamesAvailable(
+    spaceId: string,
+    relation: string,
+    inverse: string | null,
+  ): void {
+    for (const name of [relation, inverse]) {
+      if (!name) continue;
+      const conflicting = this.getRow(
+        `SELECT relation FROM memory_relation_types
+         WHERE space_id = ? AND relation <> ? AND (relation = ? OR inverse = ?)`,
+        spaceId,
+        relation,
+        name,
+        name,
+      );
+      if (conflicting) {
+        throw new Error(
+          `Relation name ${name} is already used by relation type ${String(conflicting.relation)}`,
+        );
+      }
+    }
+  }
+
+  public getRelationType(spaceId: string, relation: string): MemoryRelationTypeDefinition | null {
+    const row = this.getRow(
+      'SELECT * FROM memory_relation_types WHERE space_id = ? AND relation = ?',
+      spaceId,
+      relation.trim(),
+    );
+    return row ? this.relationTypeFromRow(row) : null;
+  }
+
+  public listRelationTypes(spaceId: string): MemoryRelationTypeDefinition[] {
+    return this.allRows(
+      'SELECT * FROM memory_relation_types WHERE space_id = ? ORDER BY relation',
+      spaceId,
+    ).map((row) => this.relationTypeFromRow(row));
+  }
+
+  /** Finds the definition a link relation belongs to, by its own name or its inverse name. */
+  private resolveRelationType(
+    spaceId: string,
+    relation: string,
+  ): { definition: MemoryRelationTypeDefinition; reversed: boolean } | null {
+    const row = this.getRow(
+      'SELECT * FROM memory_relation_types WHERE space_id = ? AND (relation = ? OR inverse = ?)',
+      spaceId,
+      relation,
+      relation,
+    );
+    if (!row) return null;
+    const definition = this.relationTypeFromRow(row);
+    return {
+      definition,
+      reversed: definition.relation.toLocaleLowerCase() !== relation.toLocaleLowerCase(),
+    };
+  }
+
+  private relationSemantics(spaceId: string): Map<string, RelationSemantics> {
+    const semantics = new Map<string, RelationSemantics>();
+    for (const definition of this.listRelationTypes(spaceId)) {
+      if (!definition.inverse && !definition.symmetric) continue;
+      semantics.set(definition.relation.toLocaleLowerCase(), {
+        symmetric: definition.symmetric,
+        counterpart: definition.inverse,
+      });
+      if (definition.inverse) {
+        semantics.set(definition.inverse.toLocaleLowerCase(), {
+          symmetric: false,
+          counterpart: definition.relation,
+        });
+      }
+    }
+    return semantics;
+  }
+
+  private assertRelationEndpoints(
+    definition: MemoryRelationTypeDefinition,
+    source: MemoryRecord,
+    target: MemoryRecord,
+  ): void {
+    const accepts = (kinds: string[], memory: MemoryRecord) =>
+      kinds.length === 0 || (memory.revision.kind !== null && kinds.includes(memory.revision.kind));
+    const forward = accepts(definition.fromKinds, source) && accepts(definition.toKinds, target);
+    const backward =
+      definition.symmetric &&
+      accepts(definition.fromKinds, target) &&
+      accepts(definition.toKinds, source);
+    if (forward || backward) return;
+    const describe = (kinds: string[]) => (kinds.length > 0 ? kinds.join(', ') : 'any kind');
+    throw new Error(
+      `Relation ${definition.relation} links ${describe(definition.fromKinds)} to ${describe(
+        definition.toKinds,
+      )}; got ${source.revision.kind ?? 'no kind'} to ${target.revision.kind ?? 'no kind'}`,
+    );
+  }
+
+  /**
+   * Counts live links of a relation type attached to one endpoint whose validity overlaps the
+   * given range, treating links written with the inverse name as the swapped relation.
+   */
+  private relationDegree(
+    definition: MemoryRelationTypeDefinition,
+    memoryId: string,
+    side: 'source' | 'target',
+    validFrom: string | null,
+    validTo: string | null,
+    excludeLinkId: string | null,
+  ): number {
+    const [own, other] =
+      side === 'source' ? ['from_memory_id', 'to_memory_id'] : ['to_memory_id', 'from_memory_id'];
+    const endpoints = definition.symmetric
+      ? '(from_memory_id = ? OR to_memory_id = ?) AND relation = ? COLLATE NOCASE'
+      : `((${own} = ? AND relation = ? COLLATE NOCASE)${
+          definition.inverse ? ` OR (${other} = ? AND relation = ? COLLATE NOCASE)` : ''
+        })`;
+    const endpointParameters = definition.symmetric
+      ? [memoryId, memoryId, definition.relation]
+      : [
+          memoryId,
+          definition.relation,
+          ...(definition.inverse ? [memoryId, definition.inverse] : []),
+        ];
+    const row = this.requireRow(
+      `SELECT COUNT(*) AS count FROM memory_links
+       WHERE space_id = ? AND deleted_at IS NULL AND id IS NOT ? AND ${endpoints}
+         AND (valid_from IS NULL OR ? IS NULL OR valid_from < ?)
+         AND (valid_to IS NULL OR ? IS NULL OR valid_to > ?)`,
+      definition.spaceId,
+      excludeLinkId,
+      ...endpointParameters,
+      validTo,
+      validTo,
+      validFrom,
+      validFrom,
+    );
+    return Number(row.count);
+  }
+
+  private assertRelationCardinality(
+    definition: MemoryRelationTypeDefinition,
+    source: MemoryRecord,
+    target: MemoryRecord,
+    validFrom: string | null,
+    validTo: string | null,
+    excludeLinkId: string | null = null,
+  ): void {
+    const limited: Array<{ memory: MemoryRecord; side: 'source' | 'target' }> = [];
+    if (definition.cardinality === 'one-to-one' || definition.cardinality === 'many-to-one') {
+      limited.push({ memory: source, side: 'source' });
+    }
+    if (definition.cardinality === 'one-to-one' || definition.cardinality === 'one-to-many') {
+      limited.push({ memory: target, side: 'target' });
+    }
+    for (const { memory, side } of limited) {
+      if (this.relationDegree(definition, memory.id, side, validFrom, validTo, excludeLinkId) > 0) {
+        throw new Error(
+          `Relation ${definition.relation} is ${definition.cardinality}; memory ${memory.id} already has an overlapping ${definition.relation} link`,
+        );
+      }
+    }
+  }
+
   public ensureModelProfile(input: {
     provider: string;
     model: string;
@@ -774,10 +1561,10 @@ export class MemoryStore {
         );
       this.database
         .prepare(
-          `INSERT INTO memory_state_events(id, memory_id, event_number, state, recorded_at)
-           VALUES (?, ?, 1, 'active', ?)`,
+          `INSERT INTO memory_state_events(id, memory_id, event_number, state, recorded_at, actor)
+           VALUES (?, ?, 1, 'active', ?, ?)`,
         )
-        .run(randomUUID(), memoryId, timestamp);
+        .run(randomUUID(), memoryId, timestamp, actor);
       this.insertRevision({
         id: revisionId,
         memoryId,
@@ -801,6 +1588,15 @@ export class MemoryStore {
     return row ? String(row.space_id) : null;
   }
 
+  public idempotentMemoryId(spaceId: string, idempotencyKey: string): string | null {
+    const row = this.getRow(
+      'SELECT id FROM memories WHERE space_id = ? AND idempotency_key = ?',
+      spaceId,
+      idempotencyKey,
+    );
+    return row ? String(row.id) : null;
+  }
+
   public linkSpaceId(linkId: string): string | null {
     const row = this.getRow('SELECT space_id FROM memory_links WHERE id = ?', linkId);
     return row ? String(row.space_id) : null;
@@ -811,6 +1607,7 @@ export class MemoryStore {
     input: MemoryInput,
     expectedRevisionId: string,
     actor: string | null = null,
+    revertedToRevisionId: string | null = null,
   ): MemoryRecord {
     const current = this.getMemory(memoryId);
     if (current.canonicalMemoryId) {
@@ -847,7 +1644,7 @@ export class MemoryStore {
            WHERE id = ? AND current_revision_id = ?
              AND NOT EXISTS (
                SELECT 1 FROM memory_redirect_events redirect
-               WHERE redirect.source_memory_id = memories.id
+               WHERE redirect.source_memory_id = memories.id AND redirect.released_at IS NULL
              )`,
         )
         .run(revisionId, timestamp, memoryId, expectedRevisionId);
@@ -865,6 +1662,7 @@ export class MemoryStore {
         memoryId,
         revisionNumber: current.revision.revisionNumber + 1,
         parentRevisionId: expectedRevisionId,
+        revertedToRevisionId,
         input,
         tags,
         metadata,
@@ -878,32 +1676,269 @@ export class MemoryStore {
     return this.getMemory(memoryId);
   }
 
-  private insertRevision(args: {
-    id: string;
-    memoryId: string;
-    revisionNumber: number;
-    parentRevisionId: string | null;
-    input: MemoryInput;
-    tags: string[];
-    metadata: JsonObject;
-    actor: string | null;
-    recordedAt: string;
-    searchableText: string;
-  }): void {
-    const { input } = args;
-    this.database
-      .prepare(
-        `INSERT INTO memory_revisions(
-          id, memory_id, revision_number, parent_revision_id, title, kind, content_json,
-          metadata_json, salience, confidence, observed_at, valid_from, valid_to, expires_at,
-          review_after, recorded_at, actor, content_hash, searchable_text
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      )
-      .run(
-        args.id,
-        args.memoryId,
-        args.revisionNumber,
-        args.parentRevisionId,
+  public runBatch(input: MemoryBatchInput, actor: string | null = null): MemoryBatchResult {
+    const { operations } = input;
+    if (operations.length === 0) throw new Error('A memory batch requires at least one operation');
+    if (input.idempotencyKey !== undefined && !input.idempotencyKey.trim()) {
+      throw new Error('idempotencyKey must contain non-whitespace text');
+    }
+    const idempotencyKey = input.idempotencyKey?.trim() || null;
+    const requestHash = batchRequestHash(actor, operations);
+    const transaction = this.database.transaction((): MemoryBatchResult => {
+      if (idempotencyKey) {
+        const existing = this.getRow(
+          'SELECT request_hash, result_json FROM memory_batches WHERE idempotency_key = ?',
+          idempotencyKey,
+        );
+        if (existing) {
+          if (String(existing.request_hash) !== requestHash) {
+            throw new Error(`Memory batch idempotency conflict for key: ${idempotencyKey}`);
+          }
+          return {
+            items: batchItemsSchema.parse(JSON.parse(String(existing.result_json))),
+            replayed: true,
+          };
+        }
+      }
+      operations.forEach((operation, index) => {
+        try {
+          this.validateBatchOperation(operation, index, operations);
+        } catch (error) {
+          throw new Error(
+            `Batch operation ${index} (${operation.op}) is invalid: ${errorMessage(error)}`,
+          );
+        }
+      });
+      const items: MemoryBatchItem[] = [];
+      operations.forEach((operation, index) => {
+        try {
+          items.push(this.runBatchOperation(operation, items, actor));
+        } catch (error) {
+          if (error instanceof MemoryIdentityConflictError) throw error;
+          throw new Error(
+            `Batch operation ${index} (${operation.op}) failed: ${errorMessage(error)}`,
+          );
+        }
+      });
+      if (idempotencyKey) {
+        this.database
+          .prepare(
+            `INSERT INTO memory_batches(id, idempotency_key, request_hash, result_json, created_at)
+             VALUES (?, ?, ?, ?, ?)`,
+          )
+          .run(randomUUID(), idempotencyKey, requestHash, JSON.stringify(items), now());
+      }
+      return { items, replayed: false };
+    });
+    return transaction.immediate();
+  }
+
+  private validateBatchOperation(
+    operation: MemoryBatchOperation,
+    index: number,
+    operations: MemoryBatchOperation[],
+  ): void {
+    const validateTarget = (target: MemoryBatchTarget, kind: 'memory' | 'link'): void => {
+      if (typeof target === 'string') {
+        const table = kind === 'memory' ? 'memories' : 'memory_links';
+        if (!this.getRow(`SELECT 1 FROM ${table} WHERE id = ?`, target)) {
+          throw new Error(`${kind === 'memory' ? 'Memory' : 'Link'} not found: ${target}`);
+        }
+        return;
+      }
+      const referenced = operations[target.$ref];
+      const produces =
+        referenced === undefined
+          ? null
+          : referenced.op === 'link' || referenced.op === 'unlink'
+            ? 'link'
+            : 'memory';
+      if (target.$ref >= index || produces !== kind) {
+        throw new Error(`$ref ${target.$ref} must refer to an earlier ${kind} operation`);
+      }
+    };
+    if (operation.op === 'create') return;
+    if (operation.op === 'unlink') {
+      validateTarget(operation.linkId, 'link');
+      return;
+    }
+    if (operation.op === 'link') {
+      validateTarget(operation.fromMemoryId, 'memory');
+      validateTarget(operation.toMemoryId, 'memory');
+      return;
+    }
+    validateTarget(operation.memoryId, 'memory');
+    if (operation.op === 'revise' && typeof operation.memoryId === 'string') {
+      const current = String(
+        this.requireRow('SELECT current_revision_id FROM memories WHERE id = ?', operation.memoryId)
+          .current_revision_id,
+      );
+      if (operation.expectedRevisionId !== current) {
+        throw new Error(
+          `Revision conflict: expected ${operation.expectedRevisionId ?? 'none'}, current is ${current}`,
+        );
+      }
+    }
+  }
+
+  private runBatchOperation(
+    operation: MemoryBatchOperation,
+    items: MemoryBatchItem[],
+    actor: string | null,
+  ): MemoryBatchItem {
+    const resolve = (target: MemoryBatchTarget, kind: 'memoryId' | 'linkId'): string => {
+      if (typeof target === 'string') return target;
+      const resolved = items[target.$ref]?.[kind];
+      if (!resolved) throw new Error(`$ref ${target.$ref} did not produce a ${kind}`);
+      return resolved;
+    };
+    const memoryItem = (memory: MemoryRecord): MemoryBatchItem => ({
+      op: operation.op,
+      memoryId: memory.id,
+      revisionId: memory.revision.id,
+      linkId: null,
+    });
+    const linkItem = (link: MemoryLink): MemoryBatchItem => ({
+      op: operation.op,
+      memoryId: null,
+      revisionId: null,
+      linkId: link.id,
+    });
+    switch (operation.op) {
+      case 'create':
+        return memoryItem(this.createMemory(operation.input, actor));
+      case 'revise': {
+        const memoryId = resolve(operation.memoryId, 'memoryId');
+        return memoryItem(
+          this.reviseMemory(
+            memoryId,
+            operation.input,
+            operation.expectedRevisionId ?? this.getMemory(memoryId).currentRevisionId,
+            actor,
+          ),
+        );
+      }
+      case 'archive':
+        return memoryItem(
+          this.setState(resolve(operation.memoryId, 'memoryId'), 'archived', actor),
+        );
+      case 'link':
+        return linkItem(
+          this.createLink({
+            fromMemoryId: resolve(operation.fromMemoryId, 'memoryId'),
+            toMemoryId: resolve(operation.toMemoryId, 'memoryId'),
+            relation: operation.relation,
+            ...(operation.metadata ? { metadata: operation.metadata } : {}),
+            ...(operation.validFrom ? { validFrom: operation.validFrom } : {}),
+            ...(operation.validTo ? { validTo: operation.validTo } : {}),
+          }),
+        );
+      case 'unlink':
+        return linkItem(this.unlink(resolve(operation.linkId, 'linkId')));
+    }
+  }
+
+  /** The complete input a patch would write on top of the memory's current revision. */
+  public patchedInput(input: MemoryPatchInput): MemoryInput {
+    return patchedRevisionInput(this.getMemory(input.memoryId).revision, input);
+  }
+
+  public patchMemory(input: MemoryPatchInput, actor: string | null = null): MemoryRecord {
+    const changeCount =
+      Number(input.content !== undefined) +
+      Number(input.metadata !== undefined) +
+      (input.addTags?.length ?? 0) +
+      (input.removeTags?.length ?? 0) +
+      (input.addSources?.length ?? 0) +
+      (input.removeSourceUris?.length ?? 0);
+    if (changeCount === 0) throw new Error('A memory patch must change at least one field');
+    const transaction = this.database.transaction((): MemoryRecord => {
+      const current = this.getMemory(input.memoryId);
+      const patched = patchedRevisionInput(current.revision, input);
+      if (current.currentRevisionId !== input.expectedRevisionId) {
+        const conflict = `Revision conflict: expected ${input.expectedRevisionId}, current is ${current.currentRevisionId}`;
+        if (!input.rebase) throw new Error(conflict);
+        const base = this.getMemory(input.memoryId, {
+          revisionId: input.expectedRevisionId,
+        }).revision;
+        const intended = patchedRevisionInput(base, input);
+        if (
+          !rebasesCleanly(
+            base.content,
+            intended.content,
+            current.revision.content,
+            patched.content,
+          ) ||
+          !rebasesCleanly(
+            base.metadata,
+            intended.metadata ?? {},
+            current.revision.metadata,
+            patched.metadata ?? {},
+          )
+        ) {
+          throw new Error(`${conflict}; the patch overlaps newer changes and cannot be rebased`);
+        }
+      }
+      return this.reviseMemory(input.memoryId, patched, current.currentRevisionId, actor);
+    });
+    return transaction.immediate();
+  }
+
+  /** The complete input reverting a memory to one of its earlier revisions would write. */
+  public revertedInput(memoryId: string, revisionId: string): MemoryInput {
+    const row = this.getRow(
+      'SELECT *, id AS revision_id FROM memory_revisions WHERE id = ? AND memory_id = ?',
+      revisionId,
+      memoryId,
+    );
+    if (!row) throw new Error(`Revision ${revisionId} does not belong to memory ${memoryId}`);
+    return revisionInput(this.revisionFromRow(row));
+  }
+
+  public revertMemory(
+    memoryId: string,
+    revisionId: string,
+    expectedRevisionId: string,
+    actor: string | null = null,
+  ): MemoryRecord {
+    const transaction = this.database.transaction((): MemoryRecord => {
+      const input = this.revertedInput(memoryId, revisionId);
+      if (this.getMemory(memoryId).currentRevisionId === revisionId) {
+        throw new Error(`Revision ${revisionId} is already the current revision`);
+      }
+      return this.reviseMemory(memoryId, input, expectedRevisionId, actor, revisionId);
+    });
+    return transaction.immediate();
+  }
+
+  private insertRevision(args: {
+    id: string;
+    memoryId: string;
+    revisionNumber: number;
+    parentRevisionId: string | null;
+    revertedToRevisionId?: string | null;
+    input: MemoryInput;
+    tags: string[];
+    metadata: JsonObject;
+    actor: string | null;
+    recordedAt: string;
+    searchableText: string;
+  }): void {
+    const { input } = args;
+    this.database
+      .prepare(
+        `INSERT INTO memory_revisions(
+          id, memory_id, revision_number, parent_revision_id, reverted_to_revision_id, title,
+          kind, content_json, metadata_json, salience, confidence, observed_at, valid_from,
+          valid_to, expires_at, review_after, recorded_at, actor, content_hash, searchable_text
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        args.id,
+        args.memoryId,
+        args.revisionNumber,
+        args.parentRevisionId,
+        args.revertedToRevisionId ?? null,
         input.title ?? null,
         input.kind ?? null,
         stableStringify(input.content),
@@ -962,11 +1997,11 @@ export class MemoryStore {
 
   private redirectTarget(memoryId: string, atTime?: string): string | null {
     const row = this.getRow(
-      `SELECT canonical_memory_id FROM memory_redirect_events
-       WHERE source_memory_id = ? ${atTime ? 'AND created_at <= ?' : ''}
+      `SELECT canonical_memory_id FROM memory_redirect_events redirect
+       WHERE source_memory_id = ? AND ${redirectInForce('redirect', atTime)}
        ORDER BY created_at DESC, id DESC LIMIT 1`,
       memoryId,
-      ...(atTime ? [atTime] : []),
+      ...(atTime ? [atTime, atTime] : []),
     );
     return row ? String(row.canonical_memory_id) : null;
   }
@@ -1148,6 +2183,7 @@ export class MemoryStore {
       memoryId: String(row.memory_id),
       revisionNumber: Number(row.revision_number),
       parentRevisionId: optionalString(row.parent_revision_id),
+      revertedToRevisionId: optionalString(row.reverted_to_revision_id),
       title: optionalString(row.title),
       kind: optionalString(row.kind),
       content: parseJsonValue(String(row.content_json)),
@@ -1178,6 +2214,7 @@ export class MemoryStore {
       id: revisionId,
       revisionNumber: Number(row.revision_number),
       parentRevisionId: optionalString(row.parent_revision_id),
+      revertedToRevisionId: optionalString(row.reverted_to_revision_id),
       title: optionalString(row.title),
       kind: optionalString(row.kind),
       tags: relations.tagsByRevisionId.get(revisionId) ?? [],
@@ -1234,18 +2271,16 @@ export class MemoryStore {
     if (memoryIds.length === 0) return identities;
 
     const placeholders = memoryIds.map(() => '?').join(',');
-    const temporalClause = atTime ? 'AND redirect.created_at <= ?' : '';
-    const newerTemporalClause = atTime ? 'AND newer.created_at <= ?' : '';
     const latestClause = `NOT EXISTS (
       SELECT 1 FROM memory_redirect_events newer
       WHERE newer.source_memory_id = redirect.source_memory_id
-        ${newerTemporalClause}
+        AND ${redirectInForce('newer', atTime)}
         AND (
           newer.created_at > redirect.created_at
           OR (newer.created_at = redirect.created_at AND newer.id > redirect.id)
         )
     )`;
-    const parametersForTime = atTime ? [atTime, atTime] : [];
+    const parametersForTime = atTime ? [atTime, atTime, atTime, atTime] : [];
     const rows = this.allRows(
       `SELECT redirect.source_memory_id, redirect.canonical_memory_id
        FROM memory_redirect_events redirect
@@ -1253,7 +2288,7 @@ export class MemoryStore {
          redirect.source_memory_id IN (${placeholders})
          OR redirect.canonical_memory_id IN (${placeholders})
        )
-       ${temporalClause}
+       AND ${redirectInForce('redirect', atTime)}
        AND ${latestClause}
        ORDER BY redirect.created_at, redirect.id`,
       ...memoryIds,
@@ -1592,12 +2627,12 @@ export class MemoryStore {
     }
     this.assertSpace(String(memory.space_id));
     const columns = options.includeContent
-      ? `id AS revision_id, revision_number, parent_revision_id, title, kind, content_json,
-         metadata_json, salience, confidence, observed_at, valid_from, valid_to, expires_at,
-         review_after, recorded_at, actor`
-      : `id AS revision_id, revision_number, parent_revision_id, title, kind, salience,
-         confidence, observed_at, valid_from, valid_to, expires_at, review_after, recorded_at,
-         actor`;
+      ? `id AS revision_id, revision_number, parent_revision_id, reverted_to_revision_id, title,
+         kind, content_json, metadata_json, salience, confidence, observed_at, valid_from,
+         valid_to, expires_at, review_after, recorded_at, actor`
+      : `id AS revision_id, revision_number, parent_revision_id, reverted_to_revision_id, title,
+         kind, salience, confidence, observed_at, valid_from, valid_to, expires_at, review_after,
+         recorded_at, actor`;
     const rows = this.allRows(
       `SELECT ${columns}
        FROM memory_revisions
@@ -1622,6 +2657,151 @@ export class MemoryStore {
     };
   }
 
+  public listTags(filters: MemoryTagFilters = {}): MemoryTagPage {
+    const clauses = [
+      "m.state = 'active'",
+      'EXISTS (SELECT 1 FROM spaces space WHERE space.id = m.space_id AND space.deleted_at IS NULL)',
+    ];
+    const parameters: unknown[] = [];
+    if (filters.spaceIds !== undefined) {
+      if (filters.spaceIds.length === 0) clauses.push('0 = 1');
+      else {
+        clauses.push(`m.space_id IN (${filters.spaceIds.map(() => '?').join(',')})`);
+        parameters.push(...filters.spaceIds);
+      }
+    }
+    const prefix = filters.prefix?.trim().toLowerCase();
+    if (prefix) {
+      clauses.push('substr(rt.tag, 1, length(?)) = ?');
+      parameters.push(prefix, prefix);
+    }
+    if (filters.cursor) {
+      const cursor = decodeTagCursor(filters.cursor);
+      clauses.push('(rt.tag > ? OR (rt.tag = ? AND m.space_id > ?))');
+      parameters.push(cursor.tag, cursor.tag, cursor.spaceId);
+    }
+    const limit = Math.min(filters.limit ?? 100, 500);
+    parameters.push(limit + 1);
+    const rows = this.allRows(
+      `SELECT rt.tag, m.space_id, COUNT(*) AS memory_count
+       FROM memories m JOIN revision_tags rt ON rt.revision_id = m.current_revision_id
+       WHERE ${clauses.join(' AND ')}
+       GROUP BY rt.tag, m.space_id
+       ORDER BY rt.tag, m.space_id
+       LIMIT ?`,
+      ...parameters,
+    );
+    const items = rows.slice(0, limit).map((row) => ({
+      tag: String(row.tag),
+      spaceId: String(row.space_id),
+      memoryCount: Number(row.memory_count),
+    }));
+    const last = items.at(-1);
+    return {
+      items,
+      nextCursor: rows.length > limit && last ? encodeTagCursor(last.tag, last.spaceId) : null,
+    };
+  }
+
+  public rewriteTags(
+    input: MemoryTagRewriteInput,
+    actor: string | null = null,
+  ): MemoryTagRewriteResult {
+    this.assertSpace(input.spaceId);
+    const into = normalizeTags([input.into])[0];
+    if (!into) throw new Error('The target tag must contain non-whitespace text');
+    const tags = normalizeTags(input.tags).filter((tag) => tag !== into);
+    if (tags.length === 0) throw new Error('At least one tag other than the target is required');
+    const placeholders = tags.map(() => '?').join(',');
+    const transaction = this.database.transaction((): MemoryTagRewriteResult => {
+      if (input.requireUnusedTarget) {
+        const inUse = this.getRow(
+          `SELECT 1 FROM memories m JOIN revision_tags rt ON rt.revision_id = m.current_revision_id
+           WHERE m.space_id = ? AND m.state != 'deleted' AND rt.tag = ? LIMIT 1`,
+          input.spaceId,
+          into,
+        );
+        if (inUse) throw new Error(`Tag ${into} is already in use; merge the tags instead`);
+      }
+      // Merged duplicates keep their final revision; only memories that can still be
+      // revised are rewritten.
+      const memoryIds = this.allRows(
+        `SELECT DISTINCT m.id FROM memories m
+         JOIN revision_tags rt ON rt.revision_id = m.current_revision_id
+         WHERE m.space_id = ? AND m.state != 'deleted' AND rt.tag IN (${placeholders})
+           AND NOT EXISTS (
+             SELECT 1 FROM memory_redirect_events redirect
+             WHERE redirect.source_memory_id = m.id AND redirect.released_at IS NULL
+           )
+         ORDER BY m.id`,
+        input.spaceId,
+        ...tags,
+      ).map((row) => String(row.id));
+      for (const memoryId of memoryIds) {
+        const current = this.getMemory(memoryId);
+        const revision = revisionInput(current.revision);
+        this.reviseMemory(
+          memoryId,
+          {
+            ...revision,
+            tags: [...current.revision.tags.filter((tag) => !tags.includes(tag)), into],
+          },
+          current.currentRevisionId,
+          actor,
+        );
+      }
+      return { tags, into, memoriesUpdated: memoryIds.length };
+    });
+    return transaction.immediate();
+  }
+
+  public diffRevisions(
+    memoryId: string,
+    fromRevisionId: string,
+    toRevisionId?: string,
+  ): MemoryRevisionDiff {
+    const memory = this.getRow('SELECT space_id FROM memories WHERE id = ?', memoryId);
+    if (!memory) throw new Error(`Memory not found: ${memoryId}`);
+    this.assertSpace(String(memory.space_id));
+    // Merged duplicates keep their own history, so either side may come from any
+    // memory that redirects to the same canonical memory.
+    const canonicalMemoryId = this.resolveCanonicalMemoryId(memoryId);
+    const targetRevisionId =
+      toRevisionId ??
+      String(
+        this.requireRow('SELECT current_revision_id FROM memories WHERE id = ?', canonicalMemoryId)
+          .current_revision_id,
+      );
+    const loadRevision = (revisionId: string): MemoryRevision => {
+      const row = this.getRow(
+        'SELECT *, id AS revision_id FROM memory_revisions WHERE id = ?',
+        revisionId,
+      );
+      if (!row || this.resolveCanonicalMemoryId(String(row.memory_id)) !== canonicalMemoryId) {
+        throw new Error(`Revision ${revisionId} does not belong to memory ${memoryId}`);
+      }
+      return this.revisionFromRow(row);
+    };
+    const from = loadRevision(fromRevisionId);
+    const to = loadRevision(targetRevisionId);
+    const fieldValue = (revision: MemoryRevision, field: MemoryDiffField) =>
+      parseJsonValue(JSON.stringify(revision[field]));
+    return {
+      memoryId: canonicalMemoryId,
+      from: { memoryId: from.memoryId, revisionId: from.id, revisionNumber: from.revisionNumber },
+      to: { memoryId: to.memoryId, revisionId: to.id, revisionNumber: to.revisionNumber },
+      content: jsonPatch(from.content, to.content),
+      metadata: jsonPatch(from.metadata, to.metadata),
+      fields: diffFields.flatMap((field) => {
+        const previous = fieldValue(from, field);
+        const next = fieldValue(to, field);
+        return stableStringify(previous) === stableStringify(next)
+          ? []
+          : [{ field, from: previous, to: next }];
+      }),
+    };
+  }
+
   public listMemories(filters: MemoryListFilters = {}): MemoryListPage {
     const clauses: string[] = [
       'EXISTS (SELECT 1 FROM spaces space WHERE space.id = m.space_id AND space.deleted_at IS NULL)',
@@ -1660,19 +2840,14 @@ export class MemoryStore {
       parameters.push(tag);
     }
     if (filters.feedbackStatus) {
-      const latestContentSignal = `(SELECT feedback.signal FROM memory_feedback feedback
-        WHERE feedback.revision_id = r.id
-          AND feedback.scope = 'content'
-          AND feedback.signal IN ('verified', 'correct', 'incorrect', 'stale', 'contradicted')
-        ORDER BY feedback.created_at DESC, feedback.id DESC LIMIT 1)`;
       if (filters.feedbackStatus === 'unreviewed') {
-        clauses.push(`${latestContentSignal} IS NULL`);
+        clauses.push(`${latestContentSignalSql} IS NULL`);
       } else if (filters.feedbackStatus === 'verified') {
-        clauses.push(`${latestContentSignal} = 'verified'`);
+        clauses.push(`${latestContentSignalSql} = 'verified'`);
       } else if (filters.feedbackStatus === 'supported') {
-        clauses.push(`${latestContentSignal} = 'correct'`);
+        clauses.push(`${latestContentSignalSql} = 'correct'`);
       } else {
-        clauses.push(`${latestContentSignal} IN ('incorrect', 'stale', 'contradicted')`);
+        clauses.push(`${latestContentSignalSql} IN ('incorrect', 'stale', 'contradicted')`);
       }
     }
     const limit = Math.min(filters.limit ?? 50, 200);
@@ -1713,16 +2888,181 @@ export class MemoryStore {
     };
   }
 
-  public setState(memoryId: string, state: MemoryState): MemoryRecord {
+  public reviewQueue(filters: MemoryReviewQueueFilters = {}): MemoryReviewQueuePage {
+    const fingerprint = reviewQueueFingerprint(filters);
+    const cursor = filters.cursor ? decodeReviewCursor(filters.cursor) : null;
+    if (cursor && cursor.fingerprint !== fingerprint) {
+      throw new Error('Memory review queue cursor does not match the requested filters');
+    }
+    const asOf = cursor?.asOf ?? now();
+    const sourcesObservedBefore =
+      filters.sourceAgeDays === undefined
+        ? null
+        : new Date(Date.parse(asOf) - filters.sourceAgeDays * 86_400_000).toISOString();
+    const clauses = [
+      "m.state = 'active'",
+      'EXISTS (SELECT 1 FROM spaces space WHERE space.id = m.space_id AND space.deleted_at IS NULL)',
+    ];
+    const parameters: unknown[] = [asOf, sourcesObservedBefore, sourcesObservedBefore];
+    if (filters.spaceIds !== undefined) {
+      if (filters.spaceIds.length === 0) clauses.push('0 = 1');
+      else {
+        clauses.push(`m.space_id IN (${filters.spaceIds.map(() => '?').join(',')})`);
+        parameters.push(...filters.spaceIds);
+      }
+    }
+    const pageClauses = ['urgency > 0'];
+    if (cursor) {
+      pageClauses.push(
+        `(urgency < ? OR (urgency = ? AND (salience_rank < ?
+          OR (salience_rank = ? AND memory_record_id > ?))))`,
+      );
+      parameters.push(cursor.urgency, cursor.urgency, cursor.salience, cursor.salience, cursor.id);
+    }
+    const limit = Math.min(filters.limit ?? 20, 100);
+    parameters.push(limit + 1);
+    // Feedback that questions the content outranks an elapsed review date, which
+    // outranks aging sources; salience orders memories with the same reasons.
+    const rows = this.allRows(
+      `SELECT * FROM (
+         SELECT candidate.*,
+                needs_review * 4 + review_due * 2 + stale_sources AS urgency
+         FROM (
+           SELECT ${joinedMemoryColumns},
+                  r.id AS revision_id,
+                  r.revision_number,
+                  r.title,
+                  r.kind,
+                  r.salience,
+                  r.confidence,
+                  r.valid_from,
+                  r.valid_to,
+                  r.expires_at,
+                  r.review_after,
+                  COALESCE(r.salience, 0.5) AS salience_rank,
+                  COALESCE(${latestContentSignalSql} IN ('incorrect', 'stale', 'contradicted'), 0)
+                    AS needs_review,
+                  COALESCE(r.review_after <= ?, 0) AS review_due,
+                  sources.observed_at AS sources_observed_at,
+                  COALESCE(? IS NOT NULL AND sources.observed_at < ?, 0) AS stale_sources
+           FROM memories m
+           JOIN memory_revisions r ON r.id = m.current_revision_id
+           LEFT JOIN (
+             SELECT revision_id, MAX(observed_at) AS observed_at
+             FROM revision_sources GROUP BY revision_id
+           ) sources ON sources.revision_id = r.id
+           WHERE ${clauses.join(' AND ')}
+         ) candidate
+       )
+       WHERE ${pageClauses.join(' AND ')}
+       ORDER BY urgency DESC, salience_rank DESC, memory_record_id
+       LIMIT ?`,
+      ...parameters,
+    );
+    const hasMore = rows.length > limit;
+    const pageRows = rows.slice(0, limit);
+    const revisionIds = pageRows.map((row) => String(row.revision_id));
+    const tagsByRevisionId = this.loadRevisionTags(revisionIds);
+    const feedbackSummaries = this.loadFeedbackSummaries(revisionIds);
+    const identities = this.loadIdentityInfo(pageRows);
+    const items = pageRows.map((row) => {
+      const reasons: MemoryReviewReason[] = [];
+      if (row.needs_review === 1) reasons.push('needs-review');
+      if (row.review_due === 1) reasons.push('review-due');
+      if (row.stale_sources === 1) reasons.push('stale-sources');
+      return {
+        memory: this.summaryMemoryFromJoinedRow(
+          row,
+          tagsByRevisionId,
+          feedbackSummaries,
+          identities,
+        ),
+        reasons,
+        sourcesObservedAt: optionalString(row.sources_observed_at),
+      };
+    });
+    const last = pageRows.at(-1);
+    return {
+      items,
+      nextCursor:
+        hasMore && last
+          ? encodeReviewCursor({
+              asOf,
+              urgency: Number(last.urgency),
+              salience: Number(last.salience_rank),
+              id: String(last.memory_record_id),
+              fingerprint,
+            })
+          : null,
+    };
+  }
+
+  public reviewMemory(input: MemoryReviewInput, actor: string | null = null): MemoryReviewResult {
+    const transaction = this.database.transaction((): MemoryReviewResult => {
+      const current = this.getMemory(input.memoryId);
+      if (current.currentRevisionId !== input.expectedRevisionId) {
+        throw new Error(
+          `Revision conflict: expected ${input.expectedRevisionId}, current is ${current.currentRevisionId}`,
+        );
+      }
+      let reviewAfter = input.reviewAfter ?? null;
+      if (input.action === 'snooze') {
+        if (reviewAfter === null) throw new Error('reviewAfter is required to snooze a review');
+      } else if (input.reviewAfter === undefined) {
+        const reviewDue =
+          current.revision.reviewAfter !== null && current.revision.reviewAfter <= now();
+        reviewAfter = reviewDue ? null : current.revision.reviewAfter;
+      }
+      let memory = current;
+      if (reviewAfter !== current.revision.reviewAfter) {
+        const { reviewAfter: _previous, ...revision } = revisionInput(current.revision);
+        memory = this.reviseMemory(
+          current.id,
+          reviewAfter === null ? revision : { ...revision, reviewAfter },
+          current.currentRevisionId,
+          actor,
+        );
+      }
+      const feedback =
+        input.action === 'reviewed'
+          ? this.recordFeedback({
+              memoryId: memory.id,
+              revisionId: memory.revision.id,
+              scope: 'content',
+              signal: 'verified',
+              actorType: input.actorType ?? 'agent',
+              ...(input.actorId ? { actorId: input.actorId } : {}),
+              ...(input.note ? { note: input.note } : {}),
+            })
+          : null;
+      return {
+        memory: this.getMemory(memory.id),
+        revised: memory.revision.id !== current.revision.id,
+        feedback,
+      };
+    });
+    return transaction.immediate();
+  }
+
+  public setState(memoryId: string, state: MemoryState, actor: string | null = null): MemoryRecord {
     const current = this.getMemory(memoryId);
+    if (current.state === 'deleted' && state !== 'deleted') {
+      throw new Error('Deleted memories can only leave the trash through memory_restore');
+    }
+    return this.transitionState(current, state, actor);
+  }
+
+  private transitionState(
+    current: MemoryRecord,
+    state: MemoryState,
+    actor: string | null,
+  ): MemoryRecord {
+    const memoryId = current.id;
     if (state === 'active' && current.canonicalMemoryId) {
       throw new Error(
         `Merged memories cannot be restored; use canonical memory ${current.canonicalMemoryId}`,
       );
     }
-    if (current.state === 'deleted' && state !== 'deleted') {
-      throw new Error('Deleted memories cannot be restored or archived');
-    }
     if (current.state === state) return current;
     const latestEvent = this.requireRow(
       `SELECT recorded_at FROM memory_state_events
@@ -1736,7 +3076,7 @@ export class MemoryStore {
         state === 'active'
           ? `AND NOT EXISTS (
                SELECT 1 FROM memory_redirect_events redirect
-               WHERE redirect.source_memory_id = memories.id
+               WHERE redirect.source_memory_id = memories.id AND redirect.released_at IS NULL
              )`
           : '';
       const result = this.database
@@ -1756,17 +3096,84 @@ export class MemoryStore {
       }
       this.database
         .prepare(
-          `INSERT INTO memory_state_events(id, memory_id, event_number, state, recorded_at)
-           SELECT ?, ?, COALESCE(MAX(event_number), 0) + 1, ?, ?
+          `INSERT INTO memory_state_events(id, memory_id, event_number, state, recorded_at, actor)
+           SELECT ?, ?, COALESCE(MAX(event_number), 0) + 1, ?, ?, ?
            FROM memory_state_events WHERE memory_id = ?`,
         )
-        .run(randomUUID(), memoryId, state, timestamp, memoryId);
+        .run(randomUUID(), memoryId, state, timestamp, actor, memoryId);
       this.refreshCurrentVectorsForMemory(memoryId);
     });
     transaction.immediate();
     return this.getMemory(memoryId);
   }
 
+  /** Restores an archived memory, or a deleted one to the state it had before deletion. */
+  public restoreMemory(memoryId: string, actor: string | null = null): MemoryRecord {
+    const current = this.getMemory(memoryId);
+    if (current.state !== 'deleted') return this.setState(memoryId, 'active', actor);
+    const previous = this.getRow(
+      `SELECT state FROM memory_state_events
+       WHERE memory_id = ? AND state != 'deleted'
+       ORDER BY event_number DESC LIMIT 1`,
+      memoryId,
+    );
+    return this.transitionState(
+      current,
+      previous?.state === 'archived' ? 'archived' : 'active',
+      actor,
+    );
+  }
+
+  /**
+   * Archived memories are escalated to deleted only when the sweep itself archived them; memories
+   * archived by hand or as merged duplicates keep their state.
+   */
+  public expireMemories(asOf = now(), dryRun = false): MemoryExpiryResult {
+    const expired = this.allRows(
+      `SELECT m.id, m.space_id, r.expires_at, s.expiry_action
+       FROM memories m
+       JOIN memory_revisions r ON r.id = m.current_revision_id
+       JOIN spaces s ON s.id = m.space_id
+       WHERE r.expires_at IS NOT NULL AND r.expires_at <= ? AND s.deleted_at IS NULL
+         AND NOT EXISTS (
+           SELECT 1 FROM memory_redirect_events redirect
+           WHERE redirect.source_memory_id = m.id AND redirect.released_at IS NULL
+         )
+         AND (
+           m.state = 'active'
+           OR (
+             m.state = 'archived' AND s.expiry_action = 'delete'
+             AND (
+               SELECT event.actor FROM memory_state_events event
+               WHERE event.memory_id = m.id ORDER BY event.event_number DESC LIMIT 1
+             ) = ?
+           )
+         )
+       ORDER BY r.expires_at, m.id`,
+      asOf,
+      expiryActor,
+    );
+    const result: MemoryExpiryResult = {
+      sweptAt: asOf,
+      dryRun,
+      archived: 0,
+      deleted: 0,
+      memories: [],
+    };
+    for (const row of expired) {
+      const state = row.expiry_action === 'delete' ? 'deleted' : 'archived';
+      if (!dryRun) this.setState(String(row.id), state, expiryActor);
+      result[state] += 1;
+      result.memories.push({
+        id: String(row.id),
+        spaceId: String(row.space_id),
+        state,
+        expiresAt: String(row.expires_at),
+      });
+    }
+    return result;
+  }
+
   public markIndexStatus(
     revisionId: string,
     status: IndexStatus,
@@ -2351,36 +3758,245 @@ export class MemoryStore {
     };
   }
 
-  public mergeMemories(input: MemoryMergeInput): MemoryMergeResult {
-    if (input.duplicates.length === 0) throw new Error('At least one duplicate memory is required');
-    const actorId = input.actorId?.trim() || null;
-    const reason = input.reason?.trim() || null;
-    const idempotencyKey = input.idempotencyKey?.trim() || null;
-    const metadata = input.metadata ?? {};
-    const duplicateRevisions = new Map<string, string>();
-    for (const duplicate of input.duplicates) {
-      const existingRevision = duplicateRevisions.get(duplicate.memoryId);
-      if (existingRevision && existingRevision !== duplicate.expectedRevisionId) {
+  public moveMemory(input: MemoryMoveInput): MemoryMoveResult {
+    const transaction = this.database.transaction((): MemoryMoveResult => {
+      const memory = this.getRow('SELECT * FROM memories WHERE id = ?', input.memoryId);
+      if (!memory) throw new Error(`Memory not found: ${input.memoryId}`);
+      const fromSpaceId = String(memory.space_id);
+      this.assertSpace(fromSpaceId);
+      this.assertSpace(input.targetSpaceId);
+      if (fromSpaceId === input.targetSpaceId) {
+        throw new Error(`Memory is already in space ${input.targetSpaceId}`);
+      }
+      const canonicalMemoryId = this.redirectTarget(input.memoryId);
+      if (canonicalMemoryId) {
         throw new Error(
-          `Duplicate memory has conflicting expected revisions: ${duplicate.memoryId}`,
+          `Merged memories cannot be moved; move canonical memory ${canonicalMemoryId}`,
         );
       }
-      duplicateRevisions.set(duplicate.memoryId, duplicate.expectedRevisionId);
-    }
-    const duplicates = [...duplicateRevisions]
-      .map(([memoryId, expectedRevisionId]) => ({ memoryId, expectedRevisionId }))
-      .sort((left, right) => left.memoryId.localeCompare(right.memoryId));
-    const canonicalRequest = {
-      actorId,
-      canonicalMemoryId: input.canonicalMemoryId,
+      if (memory.state === 'deleted') throw new Error('Deleted memories cannot be moved');
+
+      // Merged duplicates follow their canonical memory so redirects never cross spaces.
+      const memoryIds = [
+        input.memoryId,
+        ...this.allRows(
+          `SELECT redirect.source_memory_id
+           FROM memory_redirect_events redirect
+           WHERE redirect.canonical_memory_id = ? AND redirect.released_at IS NULL
+             AND NOT EXISTS (
+               SELECT 1 FROM memory_redirect_events newer
+               WHERE newer.source_memory_id = redirect.source_memory_id
+                 AND newer.released_at IS NULL
+                 AND (
+                   newer.created_at > redirect.created_at
+                   OR (newer.created_at = redirect.created_at AND newer.id > redirect.id)
+                 )
+             )
+           ORDER BY redirect.source_memory_id`,
+          input.memoryId,
+        ).map((row) => String(row.source_memory_id)),
+      ];
+      const placeholders = memoryIds.map(() => '?').join(',');
+      const timestamp = now();
+
+      const clearedLogicalKeyMemoryIds: string[] = [];
+      const clearLogicalKey = this.database.prepare(
+        'UPDATE memories SET logical_key = NULL WHERE id = ?',
+      );
+      for (const row of this.allRows(
+        `SELECT * FROM memories WHERE id IN (${placeholders}) AND logical_key IS NOT NULL
+         ORDER BY id`,
+        ...memoryIds,
+      )) {
+        const logicalKey = String(row.logical_key);
+        const existing = this.getRow(
+          'SELECT * FROM memories WHERE space_id = ? AND logical_key = ?',
+          input.targetSpaceId,
+          logicalKey,
+        );
+        if (!existing) continue;
+        if ((input.onKeyConflict ?? 'fail') === 'fail') {
+          throw this.identityConflict(existing, logicalKey);
+        }
+        clearLogicalKey.run(row.id);
+        clearedLogicalKeyMemoryIds.push(String(row.id));
+      }
+      // Idempotency keys only deduplicate retries within a space, so colliding keys are dropped.
+      this.database
+        .prepare(
+          `UPDATE memories SET idempotency_key = NULL
+           WHERE id IN (${placeholders}) AND idempotency_key IN (
+             SELECT idempotency_key FROM memories
+             WHERE space_id = ? AND idempotency_key IS NOT NULL
+           )`,
+        )
+        .run(...memoryIds, input.targetSpaceId);
+
+      const externalLinkIds = this.allRows(
+        `SELECT id FROM memory_links
+         WHERE deleted_at IS NULL
+           AND (from_memory_id IN (${placeholders})) <> (to_memory_id IN (${placeholders}))
+         ORDER BY id`,
+        ...memoryIds,
+        ...memoryIds,
+      ).map((row) => String(row.id));
+      if (externalLinkIds.length > 0 && !input.unlinkExternalLinks) {
+        throw new Error(
+          `Memory has ${String(externalLinkIds.length)} active links to memories outside the move; unlink them first or allow unlinking external links`,
+        );
+      }
+      const unlink = this.database.prepare(
+        'UPDATE memory_links SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL',
+      );
+      for (const linkId of externalLinkIds) unlink.run(timestamp, linkId);
+
+      this.database
+        .prepare(
+          `UPDATE memory_links SET space_id = ?
+           WHERE from_memory_id IN (${placeholders}) AND to_memory_id IN (${placeholders})`,
+        )
+        .run(input.targetSpaceId, ...memoryIds, ...memoryIds);
+      this.database
+        .prepare(`UPDATE memories SET space_id = ?, updated_at = ? WHERE id IN (${placeholders})`)
+        .run(input.targetSpaceId, timestamp, ...memoryIds);
+      // Carried links must satisfy the target space's relation types as if created there.
+      for (const row of this.allRows(
+        `SELECT * FROM memory_links
+         WHERE deleted_at IS NULL
+           AND from_memory_id IN (${placeholders}) AND to_memory_id IN (${placeholders})
+         ORDER BY id`,
+        ...memoryIds,
+        ...memoryIds,
+      )) {
+        const link = this.linkFromRow(row);
+        const resolved = this.resolveRelationType(input.targetSpaceId, link.relation);
+        if (!resolved) continue;
+        const from = this.getMemory(link.fromMemoryId);
+        const to = this.getMemory(link.toMemoryId);
+        const [source, target] = resolved.reversed ? [to, from] : [from, to];
+        try {
+          this.assertRelationEndpoints(resolved.definition, source, target);
+          this.assertRelationCardinality(
+            resolved.definition,
+            source,
+            target,
+            link.validFrom,
+            link.validTo,
+            link.id,
+          );
+        } catch (error) {
+          throw new Error(
+            `Link ${link.id} violates relation type ${resolved.definition.relation} in space ${input.targetSpaceId}; unlink it first: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      }
+      this.database
+        .prepare(`UPDATE memory_segments SET space_id = ? WHERE memory_id IN (${placeholders})`)
+        .run(input.targetSpaceId, ...memoryIds);
+      this.database
+        .prepare(`UPDATE memory_fts SET space_id = ? WHERE memory_id IN (${placeholders})`)
+        .run(input.targetSpaceId, ...memoryIds);
+      this.database
+        .prepare(
+          `UPDATE memory_merge_operations SET space_id = ?
+           WHERE canonical_memory_id IN (${placeholders})`,
+        )
+        .run(input.targetSpaceId, ...memoryIds);
+      this.database
+        .prepare(
+          `UPDATE memory_unmerge_operations SET space_id = ?
+           WHERE merge_operation_id IN (
+             SELECT id FROM memory_merge_operations WHERE canonical_memory_id IN (${placeholders})
+           )`,
+        )
+        .run(input.targetSpaceId, ...memoryIds);
+      for (const memoryId of memoryIds) this.refreshCurrentVectorsForMemory(memoryId);
+      return {
+        memory: this.getMemory(input.memoryId),
+        fromSpaceId,
+        movedMemoryIds: memoryIds,
+        clearedLogicalKeyMemoryIds,
+        unlinkedLinkIds: externalLinkIds,
+      };
+    });
+    return transaction.immediate();
+  }
+
+  /**
+   * Creates a new memory in the target space from the source's current revision, with a
+   * `memory-copy` source pointing back at the copied memory and revision.
+   */
+  public copyMemory(input: MemoryCopyInput, actor: string | null = null): MemoryRecord {
+    const source = this.getMemory(input.memoryId);
+    if (source.canonicalMemoryId) {
+      throw new Error(
+        `Merged memories cannot be copied; copy canonical memory ${source.canonicalMemoryId}`,
+      );
+    }
+    if (source.state === 'deleted') throw new Error('Deleted memories cannot be copied');
+    const revision = revisionInput(source.revision);
+    const copy: MemoryCreateInput = {
+      ...revision,
+      spaceId: input.targetSpaceId,
+      sources: [
+        ...(revision.sources ?? []),
+        {
+          type: 'memory-copy',
+          observedAt: source.revision.recordedAt,
+          metadata: {
+            spaceId: source.spaceId,
+            memoryId: source.id,
+            revisionId: source.revision.id,
+          },
+          ...(revision.title !== undefined ? { label: revision.title } : {}),
+        },
+      ],
+    };
+    const transaction = this.database.transaction((): MemoryRecord => {
+      if (source.logicalKey !== null) {
+        const existing = this.getRow(
+          'SELECT * FROM memories WHERE space_id = ? AND logical_key = ?',
+          input.targetSpaceId,
+          source.logicalKey,
+        );
+        if (!existing) return this.createMemory({ ...copy, logicalKey: source.logicalKey }, actor);
+        if ((input.onKeyConflict ?? 'fail') === 'fail') {
+          throw this.identityConflict(existing, source.logicalKey);
+        }
+      }
+      return this.createMemory(copy, actor);
+    });
+    return transaction.immediate();
+  }
+
+  public mergeMemories(input: MemoryMergeInput): MemoryMergeResult {
+    if (input.duplicates.length === 0) throw new Error('At least one duplicate memory is required');
+    const actorId = input.actorId?.trim() || null;
+    const reason = input.reason?.trim() || null;
+    const idempotencyKey = input.idempotencyKey?.trim() || null;
+    const metadata = input.metadata ?? {};
+    const duplicateRevisions = new Map<string, string>();
+    for (const duplicate of input.duplicates) {
+      const existingRevision = duplicateRevisions.get(duplicate.memoryId);
+      if (existingRevision && existingRevision !== duplicate.expectedRevisionId) {
+        throw new Error(
+          `Duplicate memory has conflicting expected revisions: ${duplicate.memoryId}`,
+        );
+      }
+      duplicateRevisions.set(duplicate.memoryId, duplicate.expectedRevisionId);
+    }
+    const duplicates = [...duplicateRevisions]
+      .map(([memoryId, expectedRevisionId]) => ({ memoryId, expectedRevisionId }))
+      .sort((left, right) => left.memoryId.localeCompare(right.memoryId));
+    const canonicalRequest = {
+      actorId,
+      canonicalMemoryId: input.canonicalMemoryId,
       duplicates,
       expectedCanonicalRevisionId: input.expectedCanonicalRevisionId,
       metadata,
       reason,
     };
-    const requestHash = createHash('sha256')
-      .update(stableStringify(canonicalRequest), 'utf8')
-      .digest('hex');
+    const requestHash = mergeRequestHash(canonicalRequest);
 
     const transaction = this.database.transaction((): string => {
       if (idempotencyKey) {
@@ -2446,9 +4062,11 @@ export class MemoryStore {
               `SELECT redirect.source_memory_id
                FROM memory_redirect_events redirect
                WHERE redirect.canonical_memory_id IN (${duplicatePlaceholders})
+                 AND redirect.released_at IS NULL
                  AND NOT EXISTS (
                    SELECT 1 FROM memory_redirect_events newer
                    WHERE newer.source_memory_id = redirect.source_memory_id
+                     AND newer.released_at IS NULL
                      AND (
                        newer.created_at > redirect.created_at
                        OR (newer.created_at = redirect.created_at AND newer.id > redirect.id)
@@ -2502,8 +4120,8 @@ export class MemoryStore {
          WHERE id = ? AND state = 'active' AND current_revision_id = ?`,
       );
       const insertStateEvent = this.database.prepare(
-        `INSERT INTO memory_state_events(id, memory_id, event_number, state, recorded_at)
-         SELECT ?, ?, COALESCE(MAX(event_number), 0) + 1, 'archived', ?
+        `INSERT INTO memory_state_events(id, memory_id, event_number, state, recorded_at, actor)
+         SELECT ?, ?, COALESCE(MAX(event_number), 0) + 1, 'archived', ?, ?
          FROM memory_state_events WHERE memory_id = ?`,
       );
 
@@ -2523,7 +4141,13 @@ export class MemoryStore {
           if (archived.changes !== 1) {
             throw new Error(`Memory changed concurrently during merge: ${duplicate.memoryId}`);
           }
-          insertStateEvent.run(randomUUID(), duplicate.memoryId, timestamp, duplicate.memoryId);
+          insertStateEvent.run(
+            randomUUID(),
+            duplicate.memoryId,
+            timestamp,
+            actorId,
+            duplicate.memoryId,
+          );
         }
       }
       for (const sourceMemoryId of inheritedSourceIds) {
@@ -2546,6 +4170,576 @@ export class MemoryStore {
     return this.mergeResult(operationId);
   }
 
+  /**
+   * Scores pairs of active memories in a space that could be duplicates: identical content
+   * hashes, nearest stored segment vectors, and word overlap. With targetMemoryId only pairs
+   * involving that memory are considered.
+   */
+  private duplicateCandidates(
+    spaceId: string,
+    targetMemoryId: string | undefined,
+    threshold: number,
+  ): DuplicateCandidates {
+    const memoryColumns = `m.id, m.logical_key, m.state, m.created_at, r.id AS revision_id,
+      r.revision_number, r.title, r.content_hash, r.searchable_text`;
+    const rows = this.allRows(
+      `SELECT ${memoryColumns}
+       FROM memories m JOIN memory_revisions r ON r.id = m.current_revision_id
+       WHERE m.space_id = ? AND m.state = 'active'
+       ORDER BY m.updated_at DESC, m.id DESC
+       LIMIT ?`,
+      spaceId,
+      DUPLICATE_SCAN_LIMIT + 1,
+    );
+    const truncated = rows.length > DUPLICATE_SCAN_LIMIT;
+    const scanned = new Map(
+      rows.slice(0, DUPLICATE_SCAN_LIMIT).map((row) => [String(row.id), row]),
+    );
+    if (targetMemoryId !== undefined && !scanned.has(targetMemoryId)) {
+      const target = this.getRow(
+        `SELECT ${memoryColumns}
+         FROM memories m JOIN memory_revisions r ON r.id = m.current_revision_id
+         WHERE m.id = ? AND m.space_id = ?`,
+        targetMemoryId,
+        spaceId,
+      );
+      if (!target) {
+        throw new Error(`Memory not found in space ${spaceId}: ${targetMemoryId}`);
+      }
+      if (target.state !== 'active') {
+        throw new Error(`Only active memories can be checked for duplicates: ${targetMemoryId}`);
+      }
+      scanned.set(targetMemoryId, target);
+    }
+    const tokens = new Map(
+      [...scanned].map(([memoryId, row]) => [
+        memoryId,
+        duplicateTokens(String(row.searchable_text)),
+      ]),
+    );
+
+    const candidatePairs = new Set<string>();
+    if (targetMemoryId !== undefined) {
+      for (const memoryId of scanned.keys()) {
+        if (memoryId !== targetMemoryId) {
+          candidatePairs.add(duplicatePairKey(targetMemoryId, memoryId));
+        }
+      }
+    } else {
+      // Prefix filtering: two token sets with overlap >= threshold must share one of the
+      // rarest |x| - ceil(threshold * |x|) + 1 tokens of each, so only those are indexed.
+      const frequency = new Map<string, number>();
+      for (const memoryTokens of tokens.values()) {
+        for (const token of memoryTokens) frequency.set(token, (frequency.get(token) ?? 0) + 1);
+      }
+      const postings = new Map<string, string[]>();
+      for (const [memoryId, memoryTokens] of tokens) {
+        const ordered = [...memoryTokens].sort(
+          (left, right) =>
+            (frequency.get(left) ?? 0) - (frequency.get(right) ?? 0) || left.localeCompare(right),
+        );
+        const prefixLength = ordered.length - Math.ceil(threshold * ordered.length) + 1;
+        for (const token of ordered.slice(0, prefixLength)) {
+          const posting = postings.get(token) ?? [];
+          for (const other of posting) candidatePairs.add(duplicatePairKey(memoryId, other));
+          posting.push(memoryId);
+          postings.set(token, posting);
+        }
+      }
+      const byHash = new Map<string, string>();
+      for (const [memoryId, row] of scanned) {
+        const hash = String(row.content_hash);
+        const first = byHash.get(hash);
+        if (first) candidatePairs.add(duplicatePairKey(first, memoryId));
+        else byHash.set(hash, memoryId);
+      }
+    }
+
+    const semantic = new Map<string, number>();
+    let semanticAvailable = false;
+    if (this.vectorAvailable) {
+      const contentSegments = this.contentSegments(spaceId);
+      const segmentMemory = new Map(
+        contentSegments.map((row) => [String(row.id), String(row.memory_id)]),
+      );
+      const vectorFor = this.currentSegmentVector();
+      const nearest = this.nearestContentVectors();
+      for (const segment of contentSegments) {
+        const memoryId = String(segment.memory_id);
+        if (Number(segment.ordinal) >= DUPLICATE_SEGMENTS_PER_MEMORY) continue;
+        if (targetMemoryId !== undefined ? memoryId !== targetMemoryId : !scanned.has(memoryId)) {
+          continue;
+        }
+        const vector = vectorFor.get(String(segment.id));
+        if (!vector) continue;
+        semanticAvailable = true;
+        const neighbors = nearest.all(
+          vector.embedding,
+          DUPLICATE_NEIGHBOR_K,
+          vector.model_profile_id,
+          spaceId,
+        );
+        for (const neighbor of neighbors) {
+          const otherMemoryId = segmentMemory.get(String(neighbor.segment_id));
+          if (!otherMemoryId || otherMemoryId === memoryId || !scanned.has(otherMemoryId)) continue;
+          const similarity = unitVectorSimilarity(neighbor.distance);
+          const key = duplicatePairKey(memoryId, otherMemoryId);
+          if (similarity > (semantic.get(key) ?? Number.NEGATIVE_INFINITY)) {
+            semantic.set(key, similarity);
+            candidatePairs.add(key);
+          }
+        }
+      }
+    }
+
+    const score = (
+      left: string,
+      right: string,
+    ): Omit<MemoryDuplicateMatch, 'memoryId' | 'expectedRevisionId' | 'title'> =>
+      duplicateScore(
+        String(scanned.get(left)?.content_hash) === String(scanned.get(right)?.content_hash),
+        tokenOverlap(tokens.get(left) ?? new Set(), tokens.get(right) ?? new Set()),
+        semantic.get(duplicatePairKey(left, right)) ?? null,
+      );
+
+    return { scanned, truncated, semanticAvailable, pairs: candidatePairs, score };
+  }
+
+  public findDuplicates(filters: MemoryDuplicateFilters): MemoryDuplicateReport {
+    this.assertSpace(filters.spaceId);
+    const threshold = filters.threshold ?? DUPLICATE_DEFAULT_THRESHOLD;
+    const limit = Math.min(filters.limit ?? 20, 100);
+    const { scanned, truncated, semanticAvailable, pairs, score } = this.duplicateCandidates(
+      filters.spaceId,
+      filters.memoryId,
+      threshold,
+    );
+    const parent = new Map<string, string>();
+    const find = (memoryId: string): string => {
+      let root = memoryId;
+      while (parent.get(root) !== undefined && parent.get(root) !== root) {
+        root = parent.get(root) ?? root;
+      }
+      parent.set(memoryId, root);
+      return root;
+    };
+    for (const key of pairs) {
+      const [left, right] = key.split('\u0000') as [string, string];
+      if (score(left, right).similarity < threshold) continue;
+      const leftRoot = find(left);
+      const rightRoot = find(right);
+      if (leftRoot !== rightRoot) parent.set(leftRoot, rightRoot);
+    }
+    const components = new Map<string, string[]>();
+    for (const memoryId of parent.keys()) {
+      const root = find(memoryId);
+      components.set(root, [...(components.get(root) ?? []), memoryId]);
+    }
+
+    const clusters: MemoryDuplicateCluster[] = [];
+    for (const memberIds of components.values()) {
+      if (memberIds.length < 2) continue;
+      const members = memberIds.map((memoryId) => scanned.get(memoryId) as Row);
+      const identities = this.loadIdentityInfo(members);
+      // Suggest the memory others most likely refer to: a keyed one, then one that already
+      // absorbed duplicates, then the most revised, then the oldest.
+      members.sort(
+        (left, right) =>
+          Number(right.logical_key !== null) - Number(left.logical_key !== null) ||
+          (identities.get(String(right.id))?.mergedMemoryCount ?? 0) -
+            (identities.get(String(left.id))?.mergedMemoryCount ?? 0) ||
+          Number(right.revision_number) - Number(left.revision_number) ||
+          String(left.created_at).localeCompare(String(right.created_at)) ||
+          String(left.id).localeCompare(String(right.id)),
+      );
+      const [canonical, ...others] = members as [Row, ...Row[]];
+      const canonicalMemoryId = String(canonical.id);
+      const duplicates = others
+        .map((row) => ({
+          memoryId: String(row.id),
+          expectedRevisionId: String(row.revision_id),
+          title: optionalString(row.title),
+          ...score(canonicalMemoryId, String(row.id)),
+        }))
+        .sort(
+          (left, right) =>
+            right.similarity - left.similarity || left.memoryId.localeCompare(right.memoryId),
+        );
+      clusters.push({
+        canonicalMemoryId,
+        expectedCanonicalRevisionId: String(canonical.revision_id),
+        title: optionalString(canonical.title),
+        score: Math.max(...duplicates.map((duplicate) => duplicate.similarity)),
+        duplicates,
+      });
+    }
+    clusters.sort(
+      (left, right) =>
+        right.score - left.score || left.canonicalMemoryId.localeCompare(right.canonicalMemoryId),
+    );
+    return {
+      spaceId: filters.spaceId,
+      threshold,
+      scannedMemories: scanned.size,
+      truncated,
+      semanticAvailable,
+      clusters: clusters.slice(0, limit),
+    };
+  }
+
+  /** Leading content segments of the current revisions of active memories in a space. */
+  private contentSegments(spaceId: string): Row[] {
+    return this.allRows(
+      `SELECT segment.id, segment.memory_id, segment.ordinal
+       FROM memory_segments segment
+       JOIN memories m ON m.current_revision_id = segment.revision_id
+       WHERE m.space_id = ? AND m.state = 'active' AND substr(segment.path, 1, 1) = '$'`,
+      spaceId,
+    );
+  }
+
+  private currentSegmentVector(): Database.Statement<unknown[], Row> {
+    return this.database.prepare<unknown[], Row>(
+      'SELECT embedding, model_profile_id FROM memory_current_vectors WHERE segment_id = ?',
+    );
+  }
+
+  private nearestContentVectors(): Database.Statement<unknown[], Row> {
+    return this.database.prepare<unknown[], Row>(
+      `SELECT segment_id, memory_id, distance
+       FROM memory_current_vectors
+       WHERE embedding MATCH ? AND k = ? AND model_profile_id = ?
+         AND space_id = ? AND memory_state = 'active'
+       ORDER BY distance`,
+    );
+  }
+
+  /** The projection a memory would be indexed with, so it can be segmented before it is stored. */
+  public draftProjection(input: MemoryCreateInput): ProjectionInput {
+    return {
+      memoryId: 'draft',
+      revisionId: 'draft',
+      spaceId: input.spaceId ?? 'default',
+      title: input.title ?? null,
+      kind: input.kind ?? null,
+      content: input.content,
+      tags: normalizeTags(input.tags),
+      metadata: input.metadata ?? {},
+      sources: input.sources ?? [],
+    };
+  }
+
+  /**
+   * Scores a memory that is not stored yet against the active memories of its space the way
+   * similarMemories scores a stored one, so a duplicate can be refused before anything is written.
+   */
+  public similarToDraft(
+    input: MemoryCreateInput,
+    draft: DraftIndex,
+    options: { threshold?: number; limit?: number } = {},
+  ): MemoryDuplicateMatch[] {
+    const spaceId = input.spaceId ?? 'default';
+    this.assertSpace(spaceId);
+    const threshold = options.threshold ?? DUPLICATE_DEFAULT_THRESHOLD;
+    const tags = normalizeTags(input.tags);
+    const metadata = input.metadata ?? {};
+    const draftHash = contentHash(canonicalRevisionPayload(input, tags, metadata));
+    const draftTokens = duplicateTokens(
+      searchableProjection({
+        title: input.title ?? null,
+        kind: input.kind ?? null,
+        content: input.content,
+        tags,
+        metadata,
+        sources: input.sources ?? [],
+      }),
+    );
+    const rows = this.allRows(
+      `SELECT m.id, r.id AS revision_id, r.title, r.content_hash, r.searchable_text
+       FROM memories m JOIN memory_revisions r ON r.id = m.current_revision_id
+       WHERE m.space_id = ? AND m.state = 'active'
+       ORDER BY m.updated_at DESC, m.id DESC
+       LIMIT ?`,
+      spaceId,
+      DUPLICATE_SCAN_LIMIT,
+    );
+    const semantic = new Map<string, number>();
+    const vectors = draft.vectors;
+    if (this.vectorAvailable && vectors) {
+      const segmentMemory = new Map(
+        this.contentSegments(spaceId)
+          .filter((row) => Number(row.ordinal) < DUPLICATE_SEGMENTS_PER_MEMORY)
+          .map((row) => [String(row.id), String(row.memory_id)]),
+      );
+      const nearest = this.nearestContentVectors();
+      for (const [index, segment] of draft.segments.entries()) {
+        const embedding = vectors.embeddings[index];
+        if (!embedding || !segment.path.startsWith('$')) continue;
+        if (segment.ordinal >= DUPLICATE_SEGMENTS_PER_MEMORY) continue;
+        for (const neighbor of nearest.all(
+          Buffer.from(new Float32Array(embedding).buffer),
+          DUPLICATE_NEIGHBOR_K,
+          vectors.modelProfileId,
+          spaceId,
+        )) {
+          const otherMemoryId = segmentMemory.get(String(neighbor.segment_id));
+          if (!otherMemoryId) continue;
+          const similarity = unitVectorSimilarity(neighbor.distance);
+          if (similarity > (semantic.get(otherMemoryId) ?? Number.NEGATIVE_INFINITY)) {
+            semantic.set(otherMemoryId, similarity);
+          }
+        }
+      }
+    }
+    return rows
+      .map((row) => {
+        const memoryId = String(row.id);
+        return {
+          memoryId,
+          expectedRevisionId: String(row.revision_id),
+          title: optionalString(row.title),
+          ...duplicateScore(
+            String(row.content_hash) === draftHash,
+            tokenOverlap(draftTokens, duplicateTokens(String(row.searchable_text))),
+            semantic.get(memoryId) ?? null,
+          ),
+        };
+      })
+      .filter((match) => match.similarity >= threshold)
+      .sort(
+        (left, right) =>
+          right.similarity - left.similarity || left.memoryId.localeCompare(right.memoryId),
+      )
+      .slice(0, options.limit ?? 5);
+  }
+
+  public similarMemories(
+    memoryId: string,
+    options: { threshold?: number; limit?: number } = {},
+  ): MemoryDuplicateMatch[] {
+    const memory = this.getRow('SELECT space_id FROM memories WHERE id = ?', memoryId);
+    if (!memory) throw new Error(`Memory not found: ${memoryId}`);
+    const spaceId = String(memory.space_id);
+    this.assertSpace(spaceId);
+    const threshold = options.threshold ?? DUPLICATE_DEFAULT_THRESHOLD;
+    const { scanned, pairs, score } = this.duplicateCandidates(spaceId, memoryId, threshold);
+    return [...pairs]
+      .map((key) => key.split('\u0000').find((id) => id !== memoryId) ?? memoryId)
+      .map((otherMemoryId) => {
+        const row = scanned.get(otherMemoryId);
+        return {
+          memoryId: otherMemoryId,
+          expectedRevisionId: String(row?.revision_id),
+          title: optionalString(row?.title),
+          ...score(memoryId, otherMemoryId),
+        };
+      })
+      .filter((match) => match.similarity >= threshold)
+      .sort(
+        (left, right) =>
+          right.similarity - left.similarity || left.memoryId.localeCompare(right.memoryId),
+      )
+      .slice(0, options.limit ?? 5);
+  }
+
+  /**
+   * Ranks active memories of the same space by their closest current content vectors to this
+   * memory's, leaving out the memory itself and memories it is already linked with.
+   */
+  public linkNeighbours(
+    memoryId: string,
+    limit: number,
+  ): { semanticAvailable: boolean; neighbours: Array<{ memoryId: string; similarity: number }> } {
+    const memory = this.getMemory(memoryId);
+    this.assertSpace(memory.spaceId);
+    if (!this.vectorAvailable) return { semanticAvailable: false, neighbours: [] };
+    const excluded = new Set([
+      memory.id,
+      ...this.linksFor(memory.id, now(), 1_000).flatMap((link) => [
+        link.fromMemoryId,
+        link.toMemoryId,
+      ]),
+    ]);
+    const segments = this.allRows(
+      `SELECT segment.id FROM memory_segments segment
+       WHERE segment.revision_id = ? AND substr(segment.path, 1, 1) = '$'
+       ORDER BY segment.ordinal
+       LIMIT ?`,
+      memory.revision.id,
+      DUPLICATE_SEGMENTS_PER_MEMORY,
+    );
+    const vectorFor = this.currentSegmentVector();
+    const nearest = this.nearestContentVectors();
+    const similarities = new Map<string, number>();
+    let semanticAvailable = false;
+    for (const segment of segments) {
+      const vector = vectorFor.get(String(segment.id));
+      if (!vector) continue;
+      semanticAvailable = true;
+      const neighbours = nearest.all(
+        vector.embedding,
+        Math.min((limit + excluded.size) * DUPLICATE_SEGMENTS_PER_MEMORY, 4_096),
+        vector.model_profile_id,
+        memory.spaceId,
+      );
+      for (const neighbour of neighbours) {
+        const otherMemoryId = String(neighbour.memory_id);
+        if (excluded.has(otherMemoryId)) continue;
+        const similarity = unitVectorSimilarity(neighbour.distance);
+        if (similarity > (similarities.get(otherMemoryId) ?? Number.NEGATIVE_INFINITY)) {
+          similarities.set(otherMemoryId, similarity);
+        }
+      }
+    }
+    return {
+      semanticAvailable,
+      neighbours: [...similarities]
+        .map(([otherMemoryId, similarity]) => ({
+          memoryId: otherMemoryId,
+          similarity: Math.round(similarity * 10_000) / 10_000,
+        }))
+        .sort(
+          (left, right) =>
+            right.similarity - left.similarity || left.memoryId.localeCompare(right.memoryId),
+        )
+        .slice(0, limit),
+    };
+  }
+
+  public getMergeOperation(operationId: string): MemoryMergeResult {
+    const operation = this.getRow(
+      'SELECT id FROM memory_merge_operations WHERE id = ?',
+      operationId,
+    );
+    if (!operation) throw new Error(`Merge operation not found: ${operationId}`);
+    return this.mergeResult(operationId);
+  }
+
+  public unmergeMemories(input: MemoryUnmergeInput): MemoryUnmergeResult {
+    const actorId = input.actorId?.trim() || null;
+    const reason = input.reason?.trim() || null;
+    const transaction = this.database.transaction((): MemoryUnmergeResult => {
+      let operationId = input.operationId;
+      if (!operationId) {
+        if (!input.memoryId) throw new Error('An operation id or duplicate memory id is required');
+        const direct = this.getRow(
+          `SELECT operation_id FROM memory_redirect_events
+           WHERE source_memory_id = ? AND direct = 1 AND released_at IS NULL
+           ORDER BY created_at DESC, id DESC LIMIT 1`,
+          input.memoryId,
+        );
+        if (!direct) throw new Error(`Memory is not merged: ${input.memoryId}`);
+        operationId = String(direct.operation_id);
+      }
+      const operation = this.getRow(
+        'SELECT * FROM memory_merge_operations WHERE id = ?',
+        operationId,
+      );
+      if (!operation) throw new Error(`Merge operation not found: ${operationId}`);
+      this.assertSpace(String(operation.space_id));
+      const duplicateIds = this.allRows(
+        `SELECT member.duplicate_memory_id FROM memory_merge_members member
+         WHERE member.operation_id = ?
+           AND EXISTS (
+             SELECT 1 FROM memory_redirect_events redirect
+             WHERE redirect.source_memory_id = member.duplicate_memory_id
+               AND redirect.operation_id = member.operation_id
+               AND redirect.direct = 1 AND redirect.released_at IS NULL
+           )
+         ORDER BY member.duplicate_memory_id`,
+        operationId,
+      )
+        .map((row) => String(row.duplicate_memory_id))
+        .filter((memoryId) => !input.memoryId || memoryId === input.memoryId);
+      if (duplicateIds.length === 0) {
+        throw new Error(
+          input.memoryId
+            ? `Memory ${input.memoryId} is not merged by operation ${operationId}`
+            : `Merge operation ${operationId} has no merged duplicates left`,
+        );
+      }
+
+      const placeholders = duplicateIds.map(() => '?').join(',');
+      const latestState = this.requireRow(
+        `SELECT MAX(recorded_at) AS recorded_at FROM memory_state_events
+         WHERE memory_id IN (${placeholders})`,
+        ...duplicateIds,
+      );
+      const previousTimestamp = latestState.recorded_at
+        ? Date.parse(String(latestState.recorded_at))
+        : 0;
+      const timestamp = new Date(Math.max(Date.now(), previousTimestamp + 1)).toISOString();
+      const unmergeId = randomUUID();
+      this.database
+        .prepare(
+          `INSERT INTO memory_unmerge_operations(
+             id, merge_operation_id, space_id, actor_id, reason, created_at
+           ) VALUES (?, ?, ?, ?, ?, ?)`,
+        )
+        .run(unmergeId, operationId, operation.space_id, actorId, reason, timestamp);
+      const insertMember = this.database.prepare(
+        'INSERT INTO memory_unmerge_members(unmerge_id, memory_id) VALUES (?, ?)',
+      );
+      const releaseAll = this.database.prepare(
+        `UPDATE memory_redirect_events SET released_at = ?
+         WHERE source_memory_id = ? AND released_at IS NULL`,
+      );
+      // Memories merged into a released duplicate fall back to it: their redirects inherited
+      // through it are released, so the latest redirect still in force points at it again.
+      const releaseInherited = this.database.prepare(
+        `UPDATE memory_redirect_events SET released_at = ?
+         WHERE source_memory_id = ? AND released_at IS NULL
+           AND (created_at > ? OR (created_at = ? AND id > ?))`,
+      );
+      const activate = this.database.prepare(
+        `UPDATE memories SET state = 'active', updated_at = ?
+         WHERE id = ? AND state = 'archived'`,
+      );
+      const insertStateEvent = this.database.prepare(
+        `INSERT INTO memory_state_events(id, memory_id, event_number, state, recorded_at, actor)
+         SELECT ?, ?, COALESCE(MAX(event_number), 0) + 1, 'active', ?, ?
+         FROM memory_state_events WHERE memory_id = ?`,
+      );
+      let releasedRedirectCount = 0;
+      for (const memoryId of duplicateIds) {
+        insertMember.run(unmergeId, memoryId);
+        releasedRedirectCount += releaseAll.run(timestamp, memoryId).changes;
+        const anchors = new Map<string, Row>();
+        for (const row of this.allRows(
+          `SELECT source_memory_id, created_at, id FROM memory_redirect_events
+           WHERE canonical_memory_id = ? AND released_at IS NULL
+           ORDER BY created_at DESC, id DESC`,
+          memoryId,
+        )) {
+          const sourceMemoryId = String(row.source_memory_id);
+          if (!anchors.has(sourceMemoryId)) anchors.set(sourceMemoryId, row);
+        }
+        for (const [sourceMemoryId, anchor] of anchors) {
+          releasedRedirectCount += releaseInherited.run(
+            timestamp,
+            sourceMemoryId,
+            anchor.created_at,
+            anchor.created_at,
+            anchor.id,
+          ).changes;
+        }
+        if (activate.run(timestamp, memoryId).changes === 1) {
+          insertStateEvent.run(randomUUID(), memoryId, timestamp, actorId, memoryId);
+        }
+        this.refreshCurrentVectorsForMemory(memoryId);
+      }
+      return {
+        unmergeId,
+        operationId,
+        canonicalMemory: this.getMemory(String(operation.canonical_memory_id)),
+        unmergedMemoryIds: duplicateIds,
+        releasedRedirectCount,
+        createdAt: timestamp,
+      };
+    });
+    return transaction.immediate();
+  }
+
   public createLink(input: {
     fromMemoryId: string;
     toMemoryId: string;
@@ -2571,21 +4765,37 @@ export class MemoryStore {
     const validFrom = input.validFrom ?? null;
     const validTo = input.validTo ?? null;
     const create = this.database.transaction((): MemoryLink => {
+      const resolved = this.resolveRelationType(from.spaceId, relation);
+      const [source, target] = resolved?.reversed ? [to, from] : [from, to];
+      // The same edge may already exist under the inverse name or, for symmetric relations,
+      // with its endpoints swapped.
+      const forms: Array<[string, string, string]> = [[from.id, to.id, relation]];
+      if (resolved?.definition.inverse) {
+        forms.push(
+          [source.id, target.id, resolved.definition.relation],
+          [target.id, source.id, resolved.definition.inverse],
+        );
+      }
+      if (resolved?.definition.symmetric) forms.push([to.id, from.id, relation]);
       const existing = this.getRow(
         `SELECT * FROM memory_links
-         WHERE space_id = ? AND from_memory_id = ? AND to_memory_id = ?
-           AND relation = ? COLLATE NOCASE AND metadata_json = ?
+         WHERE space_id = ? AND metadata_json = ?
            AND valid_from IS ? AND valid_to IS ? AND deleted_at IS NULL
+           AND (${forms
+             .map(() => '(from_memory_id = ? AND to_memory_id = ? AND relation = ? COLLATE NOCASE)')
+             .join(' OR ')})
          ORDER BY created_at, id LIMIT 1`,
         from.spaceId,
-        from.id,
-        to.id,
-        relation,
         metadataJson,
         validFrom,
         validTo,
+        ...forms.flat(),
       );
       if (existing) return this.linkFromRow(existing);
+      if (resolved) {
+        this.assertRelationEndpoints(resolved.definition, source, target);
+        this.assertRelationCardinality(resolved.definition, source, target, validFrom, validTo);
+      }
       const link: MemoryLink = {
         id: randomUUID(),
         spaceId: from.spaceId,
@@ -2597,6 +4807,7 @@ export class MemoryStore {
         validTo,
         createdAt: now(),
         deletedAt: null,
+        revisionNumber: 1,
       };
       this.database
         .prepare(
@@ -2633,9 +4844,100 @@ export class MemoryStore {
       validTo: optionalString(row.valid_to),
       createdAt: String(row.created_at),
       deletedAt: optionalString(row.deleted_at),
+      revisionNumber: Number(row.revision_number),
     };
   }
 
+  private linkRevisionFromRow(row: Row): MemoryLinkRevision {
+    return {
+      linkId: String(row.link_id),
+      revisionNumber: Number(row.revision_number),
+      metadata: parseObject(row.metadata_json),
+      validFrom: optionalString(row.valid_from),
+      validTo: optionalString(row.valid_to),
+      recordedAt: String(row.recorded_at),
+      actor: optionalString(row.actor),
+    };
+  }
+
+  public getLink(linkId: string): MemoryLink {
+    const row = this.getRow('SELECT * FROM memory_links WHERE id = ?', linkId);
+    if (!row) {
+      if (this.getRow('SELECT 1 FROM memory_redirect_events WHERE id = ?', linkId)) {
+        throw new Error('Merge redirects are not editable links');
+      }
+      throw new Error(`Link not found: ${linkId}`);
+    }
+    return this.linkFromRow(row);
+  }
+
+  public getLinkHistory(linkId: string, atTime?: string): MemoryLinkRevision[] {
+    this.getLink(linkId);
+    return this.allRows(
+      `SELECT * FROM memory_link_revisions
+       WHERE link_id = ? ${atTime ? 'AND recorded_at <= ?' : ''}
+       ORDER BY revision_number`,
+      linkId,
+      ...(atTime ? [atTime] : []),
+    ).map((row) => this.linkRevisionFromRow(row));
+  }
+
+  public updateLink(input: MemoryLinkUpdateInput, actor: string | null = null): MemoryLink {
+    const transaction = this.database.transaction((): MemoryLink => {
+      const current = this.getLink(input.linkId);
+      this.assertSpace(current.spaceId);
+      if (current.deletedAt !== null) throw new Error('Removed links cannot be updated');
+      if (current.revisionNumber !== input.expectedRevisionNumber) {
+        throw new Error(
+          `Link revision conflict: expected ${String(input.expectedRevisionNumber)}, current is ${String(current.revisionNumber)}`,
+        );
+      }
+      const metadata = input.metadata ?? current.metadata;
+      const validFrom = input.validFrom === undefined ? current.validFrom : input.validFrom;
+      const validTo = input.validTo === undefined ? current.validTo : input.validTo;
+      assertTemporalRange(validFrom ?? undefined, validTo ?? undefined);
+      if (
+        stableStringify(metadata) === stableStringify(current.metadata) &&
+        validFrom === current.validFrom &&
+        validTo === current.validTo
+      ) {
+        return current;
+      }
+      const resolved = this.resolveRelationType(current.spaceId, current.relation);
+      if (resolved) {
+        const [source, target] = resolved.reversed
+          ? [current.toMemoryId, current.fromMemoryId]
+          : [current.fromMemoryId, current.toMemoryId];
+        this.assertRelationCardinality(
+          resolved.definition,
+          this.getMemory(source),
+          this.getMemory(target),
+          validFrom,
+          validTo,
+          current.id,
+        );
+      }
+      const revisionNumber = current.revisionNumber + 1;
+      const metadataJson = stableStringify(metadata);
+      this.database
+        .prepare(
+          `UPDATE memory_links
+           SET metadata_json = ?, valid_from = ?, valid_to = ?, revision_number = ?
+           WHERE id = ?`,
+        )
+        .run(metadataJson, validFrom, validTo, revisionNumber, current.id);
+      this.database
+        .prepare(
+          `INSERT INTO memory_link_revisions(
+             link_id, revision_number, metadata_json, valid_from, valid_to, recorded_at, actor
+           ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        )
+        .run(current.id, revisionNumber, metadataJson, validFrom, validTo, now(), actor);
+      return this.getLink(current.id);
+    });
+    return transaction.immediate();
+  }
+
   public unlink(linkId: string): MemoryLink {
     const existing = this.getRow('SELECT * FROM memory_links WHERE id = ?', linkId);
     if (!existing) {
@@ -2656,14 +4958,15 @@ export class MemoryStore {
   public linksFor(memoryId: string, atTime = now(), limit = 100): MemoryLink[] {
     const boundedLimit = Math.max(1, Math.min(limit, 1_000));
     const links = this.allRows(
-      `SELECT * FROM memory_links
-           WHERE (from_memory_id = ? OR to_memory_id = ?)
-             AND created_at <= ?
-             AND (deleted_at IS NULL OR deleted_at > ?)
-             AND (valid_from IS NULL OR valid_from <= ?)
-             AND (valid_to IS NULL OR valid_to > ?)
-           ORDER BY created_at, id
+      `${linksAsOfSql}
+           WHERE (link.from_memory_id = ? OR link.to_memory_id = ?)
+             AND link.created_at <= ?
+             AND (link.deleted_at IS NULL OR link.deleted_at > ?)
+             AND (revision.valid_from IS NULL OR revision.valid_from <= ?)
+             AND (revision.valid_to IS NULL OR revision.valid_to > ?)
+           ORDER BY link.created_at, link.id
            LIMIT ?`,
+      atTime,
       memoryId,
       memoryId,
       atTime,
@@ -2726,11 +5029,11 @@ export class MemoryStore {
        JOIN memories source ON source.id = redirect.source_memory_id
        JOIN memory_merge_operations operation ON operation.id = redirect.operation_id
        WHERE ${endpointClause}
-         AND redirect.created_at <= ?
+         AND ${redirectInForce('redirect', options.atTime)}
          AND NOT EXISTS (
            SELECT 1 FROM memory_redirect_events newer
            WHERE newer.source_memory_id = redirect.source_memory_id
-             AND newer.created_at <= ?
+             AND ${redirectInForce('newer', options.atTime)}
              AND (
                newer.created_at > redirect.created_at
                OR (newer.created_at = redirect.created_at AND newer.id > redirect.id)
@@ -2741,6 +5044,8 @@ export class MemoryStore {
       ...endpointParameters,
       options.atTime,
       options.atTime,
+      options.atTime,
+      options.atTime,
       ...(maxRows === undefined ? [] : [maxRows]),
     ).map((row) => {
       const metadata: JsonObject = {
@@ -2764,6 +5069,7 @@ export class MemoryStore {
         validTo: null,
         createdAt: String(row.created_at),
         deletedAt: null,
+        revisionNumber: 1,
       };
     });
   }
@@ -2776,6 +5082,7 @@ export class MemoryStore {
       direction: MemoryLinkDirection;
     },
     maxRows: number,
+    semantics: Map<string, RelationSemantics>,
   ): { linksByMemoryId: Map<string, MemoryLink[]>; truncated: boolean } {
     const linksByMemoryId = new Map<string, MemoryLink[]>(
       memoryIds.map((memoryId) => [memoryId, []]),
@@ -2783,34 +5090,39 @@ export class MemoryStore {
     if (memoryIds.length === 0) return { linksByMemoryId, truncated: false };
     const boundedMaxRows = Math.max(1, Math.min(maxRows, 20_000));
     const placeholders = memoryIds.map(() => '?').join(',');
+    // Inverse and symmetric relations can read as outgoing from either endpoint, so once the
+    // space defines any, both endpoints are fetched and the direction is decided per link.
+    const endpointDirection = semantics.size > 0 ? 'both' : options.direction;
     const endpointClause =
-      options.direction === 'outgoing'
-        ? `from_memory_id IN (${placeholders})`
-        : options.direction === 'incoming'
-          ? `to_memory_id IN (${placeholders})`
-          : `(from_memory_id IN (${placeholders}) OR to_memory_id IN (${placeholders}))`;
+      endpointDirection === 'outgoing'
+        ? `link.from_memory_id IN (${placeholders})`
+        : endpointDirection === 'incoming'
+          ? `link.to_memory_id IN (${placeholders})`
+          : `(link.from_memory_id IN (${placeholders}) OR link.to_memory_id IN (${placeholders}))`;
     const endpointParameters =
-      options.direction === 'both' ? [...memoryIds, ...memoryIds] : memoryIds;
+      endpointDirection === 'both' ? [...memoryIds, ...memoryIds] : memoryIds;
+    const relations = relationsWithCounterparts(options.relations, semantics);
     const relationClause =
-      options.relations.length > 0
-        ? `AND relation COLLATE NOCASE IN (${options.relations.map(() => '?').join(',')})`
+      relations.length > 0
+        ? `AND link.relation COLLATE NOCASE IN (${relations.map(() => '?').join(',')})`
         : '';
     const rows = this.allRows(
-      `SELECT * FROM memory_links
+      `${linksAsOfSql}
        WHERE ${endpointClause}
-         AND created_at <= ?
-         AND (deleted_at IS NULL OR deleted_at > ?)
-         AND (valid_from IS NULL OR valid_from <= ?)
-         AND (valid_to IS NULL OR valid_to > ?)
+         AND link.created_at <= ?
+         AND (link.deleted_at IS NULL OR link.deleted_at > ?)
+         AND (revision.valid_from IS NULL OR revision.valid_from <= ?)
+         AND (revision.valid_to IS NULL OR revision.valid_to > ?)
          ${relationClause}
-       ORDER BY created_at, id
+       ORDER BY link.created_at, link.id
        LIMIT ?`,
+      options.atTime,
       ...endpointParameters,
       options.atTime,
       options.atTime,
       options.atTime,
       options.atTime,
-      ...options.relations,
+      ...relations,
       boundedMaxRows + 1,
     );
     const redirects = this.redirectLinksForMany(memoryIds, options, boundedMaxRows + 1);
@@ -2824,14 +5136,27 @@ export class MemoryStore {
       rows.length > boundedMaxRows ||
       redirects.length > boundedMaxRows ||
       links.length > boundedMaxRows;
+    const filter = new Set(options.relations.map((relation) => relation.toLocaleLowerCase()));
+    const matches = (link: MemoryLink, physical: 'outgoing' | 'incoming') => {
+      const flipped = physical === 'outgoing' ? 'incoming' : 'outgoing';
+      const entry = semantics.get(link.relation.toLocaleLowerCase());
+      const readings: Array<[string, 'outgoing' | 'incoming']> = [[link.relation, physical]];
+      if (entry?.symmetric) readings.push([link.relation, flipped]);
+      if (entry?.counterpart) readings.push([entry.counterpart, flipped]);
+      return readings.some(
+        ([relation, direction]) =>
+          (options.direction === 'both' || options.direction === direction) &&
+          (filter.size === 0 || filter.has(relation.toLocaleLowerCase())),
+      );
+    };
     for (const link of links.slice(0, boundedMaxRows)) {
-      if (options.direction !== 'incoming' && linksByMemoryId.has(link.fromMemoryId)) {
+      if (linksByMemoryId.has(link.fromMemoryId) && matches(link, 'outgoing')) {
         linksByMemoryId.get(link.fromMemoryId)?.push(link);
       }
       if (
-        options.direction !== 'outgoing' &&
         link.toMemoryId !== link.fromMemoryId &&
-        linksByMemoryId.has(link.toMemoryId)
+        linksByMemoryId.has(link.toMemoryId) &&
+        matches(link, 'incoming')
       ) {
         linksByMemoryId.get(link.toMemoryId)?.push(link);
       }
@@ -2847,7 +5172,8 @@ export class MemoryStore {
     direction: MemoryLinkDirection;
     maxResults: number;
   }): { items: MemoryTraversalEntry[]; truncated: boolean } {
-    this.getMemory(options.memoryId, { atTime: options.atTime });
+    const start = this.getMemory(options.memoryId, { atTime: options.atTime });
+    const semantics = this.relationSemantics(start.spaceId);
     const discoveries: Array<{
       memoryId: string;
       depth: number;
@@ -2864,7 +5190,7 @@ export class MemoryStore {
       const next: string[] = [];
       const remaining = Math.max(1, targetCount - discoveries.length);
       const edgeBudget = Math.min(Math.max(remaining * 4, 100), 20_000);
-      const linkPage = this.linksForMany(frontier, options, edgeBudget);
+      const linkPage = this.linksForMany(frontier, options, edgeBudget, semantics);
       for (const sourceId of frontier) {
         for (const link of linkPage.linksByMemoryId.get(sourceId) ?? []) {
           const outgoing = link.fromMemoryId === sourceId;
@@ -2889,21 +5215,346 @@ export class MemoryStore {
         stoppedAtLimit = true;
         break;
       }
-      frontier = next;
-      if (frontier.length === 0) break;
+      frontier = next;
+      if (frontier.length === 0) break;
+    }
+
+    const selected = discoveries.slice(0, options.maxResults);
+    const records = this.getMemoriesByIdsAtTime(
+      selected.map((entry) => entry.memoryId),
+      options.atTime,
+    );
+    return {
+      items: selected.flatMap((entry) => {
+        const memory = records.get(entry.memoryId);
+        return memory ? [{ memory, depth: entry.depth, via: entry.via, path: entry.path }] : [];
+      }),
+      truncated: stoppedAtLimit,
+    };
+  }
+
+  /**
+   * Enumerates the shortest simple paths between two memories, shortest first. A backward search
+   * from the target bounds the forward walk to memories that can still reach it within maxDepth.
+   */
+  public findPaths(options: {
+    fromMemoryId: string;
+    toMemoryId: string;
+    maxDepth: number;
+    atTime: string;
+    relations: string[];
+    direction: MemoryLinkDirection;
+    maxPaths: number;
+    maxFanOut: number;
+  }): { paths: MemoryPath[]; memories: Map<string, MemorySearchRecord>; truncated: boolean } {
+    const start = this.getMemory(options.fromMemoryId, { atTime: options.atTime });
+    const target = this.getMemory(options.toMemoryId, { atTime: options.atTime });
+    const paths: MemoryPath[] = [];
+    let truncated = false;
+    const followed = (
+      page: { linksByMemoryId: Map<string, MemoryLink[]>; truncated: boolean },
+      memoryId: string,
+    ): MemoryLink[] => {
+      const links = page.linksByMemoryId.get(memoryId) ?? [];
+      if (page.truncated || links.length > options.maxFanOut) truncated = true;
+      return links.slice(0, options.maxFanOut);
+    };
+    const edgeBudget = (memoryCount: number) =>
+      Math.min(memoryCount * (options.maxFanOut + 1), 20_000);
+
+    if (start.id === target.id) {
+      paths.push({ memoryIds: [start.id], steps: [] });
+    } else if (start.spaceId === target.spaceId && options.maxDepth > 0) {
+      const semantics = this.relationSemantics(start.spaceId);
+      const backwardDirection: MemoryLinkDirection =
+        options.direction === 'outgoing'
+          ? 'incoming'
+          : options.direction === 'incoming'
+            ? 'outgoing'
+            : 'both';
+      const backward = { ...options, direction: backwardDirection };
+      const distances = new Map([[target.id, 0]]);
+      let ring = [target.id];
+      for (let distance = 1; distance < options.maxDepth && ring.length > 0; distance += 1) {
+        const page = this.linksForMany(ring, backward, edgeBudget(ring.length), semantics);
+        const next: string[] = [];
+        for (const memoryId of ring) {
+          for (const link of followed(page, memoryId)) {
+            const adjacent = link.fromMemoryId === memoryId ? link.toMemoryId : link.fromMemoryId;
+            if (distances.has(adjacent)) continue;
+            distances.set(adjacent, distance);
+            next.push(adjacent);
+          }
+        }
+        ring = next;
+      }
+
+      let frontier: MemoryPath[] = [{ memoryIds: [start.id], steps: [] }];
+      walk: for (let depth = 1; depth <= options.maxDepth && frontier.length > 0; depth += 1) {
+        const tails = [...new Set(frontier.map((path) => path.memoryIds.at(-1) ?? start.id))];
+        const page = this.linksForMany(tails, options, edgeBudget(tails.length), semantics);
+        const next: MemoryPath[] = [];
+        for (const path of frontier) {
+          const tail = path.memoryIds.at(-1) ?? start.id;
+          for (const link of followed(page, tail)) {
+            const outgoing = link.fromMemoryId === tail;
+            const adjacent = outgoing ? link.toMemoryId : link.fromMemoryId;
+            const remaining = distances.get(adjacent);
+            if (remaining === undefined || depth + remaining > options.maxDepth) continue;
+            if (path.memoryIds.includes(adjacent)) continue;
+            const extended: MemoryPath = {
+              memoryIds: [...path.memoryIds, adjacent],
+              steps: [...path.steps, { link, direction: outgoing ? 'outgoing' : 'incoming' }],
+            };
+            if (adjacent !== target.id) {
+              next.push(extended);
+              continue;
+            }
+            paths.push(extended);
+            if (paths.length > options.maxPaths) break walk;
+          }
+        }
+        if (next.length > PATH_FRONTIER_LIMIT) truncated = true;
+        frontier = next.slice(0, PATH_FRONTIER_LIMIT);
+      }
+    }
+
+    if (paths.length > options.maxPaths) truncated = true;
+    const selected = paths.slice(0, options.maxPaths);
+    return {
+      paths: selected,
+      memories: this.getMemoriesByIdsAtTime(
+        [...new Set(selected.flatMap((path) => path.memoryIds))],
+        options.atTime,
+      ),
+      truncated,
+    };
+  }
+
+  /**
+   * Collects the memories of a space that pass the filters together with the live links between
+   * them. With a root, only memories the traversal reaches within maxDepth links are considered.
+   */
+  public memoryGraph(options: {
+    spaceId: string;
+    atTime?: string;
+    relations: string[];
+    kinds: string[];
+    tags: string[];
+    rootMemoryId?: string;
+    maxDepth: number;
+    limit?: number;
+  }): { nodes: MemoryGraphNode[]; edges: MemoryLink[]; truncated: boolean } {
+    this.assertSpace(options.spaceId);
+    const linkTime = options.atTime ?? now();
+    let truncated = false;
+    let reachable: string[] | undefined;
+    if (options.rootMemoryId !== undefined) {
+      const root = this.getMemory(options.rootMemoryId, { atTime: linkTime });
+      if (root.spaceId !== options.spaceId) {
+        throw new Error(`Memory not found: ${options.rootMemoryId}`);
+      }
+      const traversed = this.traverseCandidates({
+        memoryId: root.id,
+        maxDepth: options.maxDepth,
+        atTime: linkTime,
+        relations: options.relations,
+        direction: 'both',
+        maxResults: options.limit ?? 1_000,
+      });
+      truncated = traversed.truncated;
+      reachable = traversed.items.map((item) => item.memory.id);
+    }
+    const candidates = this.candidateClauses({
+      spaceIds: [options.spaceId],
+      kinds: options.kinds,
+      tags: options.tags,
+      ...(options.atTime !== undefined ? { atTime: options.atTime } : {}),
+    });
+    const reachableClause = reachable ? `AND m.id IN (${reachable.map(() => '?').join(',')})` : '';
+    const pageLimit = reachable === undefined ? options.limit : undefined;
+    const nodeRows = this.allRows(
+      `SELECT m.id, r.id AS revision_id, r.title, r.kind
+       FROM memories m
+       JOIN memory_revisions r ON r.memory_id = m.id
+       WHERE ${candidates.sql} ${reachableClause}
+       ORDER BY m.created_at, m.id
+       ${pageLimit === undefined ? '' : 'LIMIT ?'}`,
+      ...candidates.parameters,
+      ...(reachable ?? []),
+      ...(pageLimit === undefined ? [] : [pageLimit + 1]),
+    );
+    if (pageLimit !== undefined && nodeRows.length > pageLimit) truncated = true;
+    const nodes = nodeRows.slice(0, pageLimit).map((row) => ({
+      id: String(row.id),
+      revisionId: String(row.revision_id),
+      title: optionalString(row.title),
+      kind: optionalString(row.kind),
+    }));
+
+    const nodeIds = new Set(nodes.map((node) => node.id));
+    const relations = relationsWithCounterparts(
+      options.relations,
+      this.relationSemantics(options.spaceId),
+    );
+    const relationClause =
+      relations.length > 0
+        ? `AND link.relation COLLATE NOCASE IN (${relations.map(() => '?').join(',')})`
+        : '';
+    const edges = this.allRows(
+      `${linksAsOfSql}
+       WHERE link.space_id = ?
+         AND link.created_at <= ?
+         AND (link.deleted_at IS NULL OR link.deleted_at > ?)
+         AND (revision.valid_from IS NULL OR revision.valid_from <= ?)
+         AND (revision.valid_to IS NULL OR revision.valid_to > ?)
+         ${relationClause}
+       ORDER BY link.created_at, link.id`,
+      linkTime,
+      options.spaceId,
+      linkTime,
+      linkTime,
+      linkTime,
+      linkTime,
+      ...relations,
+    )
+      .map((row) => this.linkFromRow(row))
+      .filter((link) => nodeIds.has(link.fromMemoryId) && nodeIds.has(link.toMemoryId));
+    return { nodes, edges, truncated };
+  }
+
+  /**
+   * Summarizes the live link graph of a space. Degrees, components, and orphans count only links
+   * between active memories; links that reach an archived or trashed memory are reported as dangling.
+   */
+  public graphStats(spaceId: string, limit: number): MemoryGraphStats {
+    this.assertSpace(spaceId);
+    const memories = new Map(
+      this.allRows(
+        `SELECT m.id, m.state, r.title
+         FROM memories m
+         JOIN memory_revisions r ON r.id = m.current_revision_id
+         WHERE m.space_id = ?
+         ORDER BY m.created_at, m.id`,
+        spaceId,
+      ).map((row) => [
+        String(row.id),
+        {
+          state: z.enum(['active', 'archived', 'deleted']).parse(row.state),
+          title: optionalString(row.title),
+        },
+      ]),
+    );
+    const active = [...memories].flatMap(([memoryId, memory]) =>
+      memory.state === 'active' ? [memoryId] : [],
+    );
+    const linkTime = now();
+    // Starting from the source memories of the space keeps the link lookup on the
+    // from_memory_id traversal index instead of scanning every link.
+    const links = this.allRows(
+      `${linksAsOfSql}
+       JOIN memories source ON source.id = link.from_memory_id
+       WHERE source.space_id = ?
+         AND link.deleted_at IS NULL
+         AND (revision.valid_from IS NULL OR revision.valid_from <= ?)
+         AND (revision.valid_to IS NULL OR revision.valid_to > ?)
+       ORDER BY link.created_at, link.id`,
+      linkTime,
+      spaceId,
+      linkTime,
+      linkTime,
+    ).map((row) => this.linkFromRow(row));
+
+    const degrees = new Map(active.map((memoryId) => [memoryId, { inDegree: 0, outDegree: 0 }]));
+    const parents = new Map(active.map((memoryId) => [memoryId, memoryId]));
+    const findRoot = (memoryId: string): string => {
+      let root = memoryId;
+      while (parents.get(root) !== root) root = parents.get(root) ?? root;
+      parents.set(memoryId, root);
+      return root;
+    };
+    const relationCounts = new Map<string, { relation: string; count: number }>();
+    const danglingLinks: MemoryGraphStats['danglingLinks'] = [];
+    const componentLinks: string[] = [];
+    for (const link of links) {
+      const key = link.relation.toLocaleLowerCase();
+      const counted = relationCounts.get(key) ?? { relation: link.relation, count: 0 };
+      counted.count += 1;
+      relationCounts.set(key, counted);
+      const inactiveEndpoints = [...new Set([link.fromMemoryId, link.toMemoryId])].flatMap(
+        (memoryId) => {
+          const state = memories.get(memoryId)?.state;
+          return state === 'archived' || state === 'deleted' ? [{ memoryId, state }] : [];
+        },
+      );
+      if (inactiveEndpoints.length > 0) {
+        danglingLinks.push({
+          linkId: link.id,
+          fromMemoryId: link.fromMemoryId,
+          toMemoryId: link.toMemoryId,
+          relation: link.relation,
+          inactiveEndpoints,
+        });
+        continue;
+      }
+      const from = degrees.get(link.fromMemoryId);
+      const to = degrees.get(link.toMemoryId);
+      if (!from || !to) continue;
+      from.outDegree += 1;
+      to.inDegree += 1;
+      componentLinks.push(link.fromMemoryId);
+      parents.set(findRoot(link.fromMemoryId), findRoot(link.toMemoryId));
     }
 
-    const selected = discoveries.slice(0, options.maxResults);
-    const records = this.getMemoriesByIdsAtTime(
-      selected.map((entry) => entry.memoryId),
-      options.atTime,
+    const components = new Map<string, { memoryIds: string[]; linkCount: number }>();
+    for (const memoryId of active) {
+      const root = findRoot(memoryId);
+      const component = components.get(root) ?? { memoryIds: [], linkCount: 0 };
+      component.memoryIds.push(memoryId);
+      components.set(root, component);
+    }
+    for (const memoryId of componentLinks) {
+      const component = components.get(findRoot(memoryId));
+      if (component) component.linkCount += 1;
+    }
+    const others = Math.max(1, active.length - 1);
+    const ranked = [...degrees]
+      .map(([memoryId, degree]) => ({
+        memoryId,
+        title: memories.get(memoryId)?.title ?? null,
+        ...degree,
+        degree: degree.inDegree + degree.outDegree,
+        centrality: (degree.inDegree + degree.outDegree) / others,
+      }))
+      .filter((entry) => entry.degree > 0)
+      .sort((left, right) => right.degree - left.degree);
+    const orphans = [...degrees].flatMap(([memoryId, degree]) =>
+      degree.inDegree + degree.outDegree === 0
+        ? [{ memoryId, title: memories.get(memoryId)?.title ?? null }]
+        : [],
     );
     return {
-      items: selected.flatMap((entry) => {
-        const memory = records.get(entry.memoryId);
-        return memory ? [{ memory, depth: entry.depth, via: entry.via, path: entry.path }] : [];
-      }),
-      truncated: stoppedAtLimit,
+      spaceId,
+      memoryCount: active.length,
+      linkCount: links.length,
+      componentCount: components.size,
+      components: [...components.values()]
+        .filter((component) => component.linkCount > 0)
+        .sort((left, right) => right.memoryIds.length - left.memoryIds.length)
+        .slice(0, limit)
+        .map((component) => ({
+          size: component.memoryIds.length,
+          linkCount: component.linkCount,
+          memoryIds: component.memoryIds.slice(0, limit),
+        })),
+      orphanCount: orphans.length,
+      orphans: orphans.slice(0, limit),
+      hubs: ranked.slice(0, limit),
+      danglingLinkCount: danglingLinks.length,
+      danglingLinks: danglingLinks.slice(0, limit),
+      relations: [...relationCounts.values()].sort(
+        (left, right) => right.count - left.count || left.relation.localeCompare(right.relation),
+      ),
     };
   }
 
@@ -3059,6 +5710,72 @@ export class MemoryStore {
     };
   }
 
+  public listChanges(filters: MemoryChangeFilters): MemoryChangePage {
+    const prunedThrough = Number(
+      this.requireRow('SELECT pruned_through FROM memory_change_retention WHERE id = 1')
+        .pruned_through,
+    );
+    const since = filters.since ? decodeChangeCursor(filters.since).sequence : prunedThrough;
+    if (since < prunedThrough) {
+      throw new Error(
+        'Memory change cursor is older than the retained change log; resynchronize from an export',
+      );
+    }
+    const clauses = ['sequence > ?'];
+    const parameters: unknown[] = [since];
+    if (filters.spaceIds !== undefined) {
+      clauses.push(
+        filters.spaceIds.length > 0
+          ? `space_id IN (${filters.spaceIds.map(() => '?').join(',')})`
+          : '0 = 1',
+      );
+      parameters.push(...filters.spaceIds);
+    }
+    const limit = Math.min(filters.limit ?? 100, 1000);
+    parameters.push(limit + 1);
+    const rows = this.allRows(
+      `SELECT * FROM memory_changes WHERE ${clauses.join(' AND ')}
+       ORDER BY sequence LIMIT ?`,
+      ...parameters,
+    );
+    const hasMore = rows.length > limit;
+    const items = rows.slice(0, limit).map((row): MemoryChange => {
+      const sequence = Number(row.sequence);
+      return {
+        sequence,
+        type: String(row.change_type) as MemoryChangeType,
+        spaceId: String(row.space_id),
+        memoryId: optionalString(row.memory_id),
+        recordId: String(row.record_id),
+        changedAt: String(row.changed_at),
+        cursor: encodeChangeCursor(sequence),
+      };
+    });
+    return {
+      items,
+      cursor: items.at(-1)?.cursor ?? encodeChangeCursor(since),
+      hasMore,
+    };
+  }
+
+  public pruneChanges(before: string): number {
+    const transaction = this.database.transaction(() => {
+      const last = this.getRow(
+        'SELECT MAX(sequence) AS sequence FROM memory_changes WHERE changed_at < ?',
+        before,
+      )?.sequence;
+      if (typeof last !== 'number') return 0;
+      this.database
+        .prepare(
+          'UPDATE memory_change_retention SET pruned_through = MAX(pruned_through, ?) WHERE id = 1',
+        )
+        .run(last);
+      return this.database.prepare('DELETE FROM memory_changes WHERE sequence <= ?').run(last)
+        .changes;
+    });
+    return transaction.immediate();
+  }
+
   public status(spaceIds?: string[]): Row {
     const scopedParameters = spaceIds ?? [];
     const scopedWhere = (column: string): string => {
@@ -3121,7 +5838,9 @@ export class MemoryStore {
       ...scopedParameters,
     );
     const redirectCounts = this.requireRow(
-      `SELECT COUNT(*) AS events, COUNT(DISTINCT redirect.source_memory_id) AS current
+      `SELECT COUNT(*) AS events,
+              COUNT(DISTINCT CASE WHEN redirect.released_at IS NULL
+                THEN redirect.source_memory_id END) AS current
        FROM memory_redirect_events redirect
        JOIN memories memory ON memory.id = redirect.source_memory_id${scopedWhere('memory.space_id')}`,
       ...scopedParameters,
@@ -3438,27 +6157,76 @@ export class MemoryStore {
     return queued;
   }
 
-  public exportSnapshot(): Row {
-    const memoryIds = this.allRows('SELECT id FROM memories ORDER BY created_at, id').map((row) =>
-      String(row.id),
-    );
-    const links = this.allRows('SELECT * FROM memory_links ORDER BY created_at, id').map((row) =>
-      this.linkFromRow(row),
-    );
-    const feedback = this.allRows('SELECT * FROM memory_feedback ORDER BY created_at, id').map(
-      (row) => this.feedbackFromRow(row),
-    );
+  public exportSnapshot(options: { spaceIds?: string[]; atTime?: string } = {}): Row {
+    const { spaceIds, atTime } = options;
+    if (spaceIds !== undefined) {
+      if (spaceIds.length === 0) throw new Error('At least one memory space is required');
+      for (const spaceId of spaceIds) {
+        if (this.spaceState(spaceId) === null)
+          throw new Error(`Memory space not found: ${spaceId}`);
+      }
+    }
+    const placeholders = (spaceIds ?? []).map(() => '?').join(',');
+    const spaceClause = spaceIds === undefined ? '1 = 1' : `space_id IN (${placeholders})`;
+    const scopedMemories = `(SELECT id FROM memories WHERE ${spaceClause})`;
+    const scopeParameters = spaceIds ?? [];
+    const recordedBy = (column: string): string => (atTime ? `AND ${column} <= ?` : '');
+    const timeParameters = atTime ? [atTime] : [];
+
+    const memoryIds = this.allRows(
+      `SELECT id FROM memories WHERE ${spaceClause} ${recordedBy('created_at')}
+       ORDER BY created_at, id`,
+      ...scopeParameters,
+      ...timeParameters,
+    ).map((row) => String(row.id));
+    const selected = new Set(memoryIds);
+    const links: SnapshotLink[] = [];
+    const crossingLinks: SnapshotLink[] = [];
+    for (const row of this.allRows(
+      `${atTime ? linksAsOfSql : 'SELECT * FROM memory_links link'}
+       WHERE (link.from_memory_id IN ${scopedMemories} OR link.to_memory_id IN ${scopedMemories})
+         ${recordedBy('link.created_at')}
+       ORDER BY link.created_at, link.id`,
+      ...timeParameters,
+      ...scopeParameters,
+      ...scopeParameters,
+      ...timeParameters,
+    )) {
+      const link: SnapshotLink = {
+        ...this.linkFromRow(row),
+        history: this.getLinkHistory(String(row.id), atTime),
+      };
+      if (atTime && link.deletedAt !== null && link.deletedAt > atTime) link.deletedAt = null;
+      if (selected.has(link.fromMemoryId) && selected.has(link.toMemoryId)) links.push(link);
+      else crossingLinks.push(link);
+    }
+    const feedback = this.allRows(
+      `SELECT * FROM memory_feedback
+       WHERE memory_id IN ${scopedMemories} ${recordedBy('created_at')}
+       ORDER BY created_at, id`,
+      ...scopeParameters,
+      ...timeParameters,
+    ).map((row) => this.feedbackFromRow(row));
     const stateEvents = this.allRows(
-      'SELECT * FROM memory_state_events ORDER BY recorded_at, memory_id, event_number',
+      `SELECT * FROM memory_state_events
+       WHERE memory_id IN ${scopedMemories} ${recordedBy('recorded_at')}
+       ORDER BY recorded_at, memory_id, event_number`,
+      ...scopeParameters,
+      ...timeParameters,
     ).map((row) => ({
       id: String(row.id),
       memoryId: String(row.memory_id),
       eventNumber: Number(row.event_number),
       state: String(row.state),
       recordedAt: String(row.recorded_at),
+      actor: optionalString(row.actor),
     }));
     const mergeOperations = this.allRows(
-      'SELECT * FROM memory_merge_operations ORDER BY created_at, id',
+      `SELECT * FROM memory_merge_operations
+       WHERE canonical_memory_id IN ${scopedMemories} ${recordedBy('created_at')}
+       ORDER BY created_at, id`,
+      ...scopeParameters,
+      ...timeParameters,
     ).map((operation) => ({
       id: String(operation.id),
       spaceId: String(operation.space_id),
@@ -3478,7 +6246,11 @@ export class MemoryStore {
       })),
     }));
     const redirectEvents = this.allRows(
-      'SELECT * FROM memory_redirect_events ORDER BY created_at, id',
+      `SELECT * FROM memory_redirect_events
+       WHERE source_memory_id IN ${scopedMemories} ${recordedBy('created_at')}
+       ORDER BY created_at, id`,
+      ...scopeParameters,
+      ...timeParameters,
     ).map((redirect) => ({
       id: String(redirect.id),
       sourceMemoryId: String(redirect.source_memory_id),
@@ -3486,17 +6258,49 @@ export class MemoryStore {
       operationId: String(redirect.operation_id),
       direct: Number(redirect.direct) === 1,
       createdAt: String(redirect.created_at),
+      releasedAt:
+        atTime && typeof redirect.released_at === 'string' && redirect.released_at > atTime
+          ? null
+          : optionalString(redirect.released_at),
     }));
+    const latestStateEvents = new Map<string, string>();
+    for (const event of stateEvents) latestStateEvents.set(event.memoryId, event.recordedAt);
     return {
       exportedAt: now(),
-      spaces: this.allRows('SELECT * FROM spaces ORDER BY created_at, id').map((space) =>
-        this.spaceFromRow(space),
-      ),
+      ...(spaceIds !== undefined ? { spaceIds } : {}),
+      ...(atTime ? { atTime } : {}),
+      spaces: this.allRows(
+        `SELECT * FROM spaces ${spaceIds === undefined ? '' : `WHERE id IN (${placeholders})`}
+         ORDER BY created_at, id`,
+        ...scopeParameters,
+      ).map((space) => this.spaceFromRow(space)),
+      kinds: this.allRows(
+        `SELECT * FROM memory_kinds WHERE ${spaceClause} ${recordedBy('created_at')}
+         ORDER BY space_id, kind`,
+        ...scopeParameters,
+        ...timeParameters,
+      ).map((row) => this.kindFromRow(row)),
+      relationTypes: this.allRows(
+        `SELECT * FROM memory_relation_types WHERE ${spaceClause} ${recordedBy('created_at')}
+         ORDER BY space_id, relation`,
+        ...scopeParameters,
+        ...timeParameters,
+      ).map((row) => this.relationTypeFromRow(row)),
       memories: memoryIds.map((memoryId) => {
-        const memory = this.getMemory(memoryId, { includeDeletedSpace: true });
+        if (!atTime) {
+          const memory = this.getMemory(memoryId, { includeDeletedSpace: true });
+          return { ...memory, history: this.getHistory(memory.id) };
+        }
+        const memory = this.getMemory(memoryId, { atTime, includeDeletedSpace: true });
+        const stateChangedAt = latestStateEvents.get(memoryId) ?? memory.createdAt;
         return {
           ...memory,
-          history: this.getHistory(memory.id),
+          currentRevisionId: memory.revision.id,
+          updatedAt:
+            stateChangedAt > memory.revision.recordedAt
+              ? stateChangedAt
+              : memory.revision.recordedAt,
+          history: this.getHistory(memory.id).filter((revision) => revision.recordedAt <= atTime),
         };
       }),
       links,
@@ -3504,6 +6308,785 @@ export class MemoryStore {
       stateEvents,
       mergeOperations,
       redirectEvents,
+      crossingLinks,
+    };
+  }
+
+  /**
+   * Resolves the id an imported record is written under. Overwrite only replaces records owned by
+   * the spaces being imported; an id held in any other space is remapped instead.
+   */
+  private snapshotRecordId(
+    table:
+      | 'memory_links'
+      | 'memory_feedback'
+      | 'memory_state_events'
+      | 'memory_merge_operations'
+      | 'memory_redirect_events',
+    id: string,
+    conflict: SnapshotConflictPolicy,
+    targetSpaceIds: Set<string>,
+  ): string | null {
+    const ownerSpaceSql = {
+      memory_links: 'SELECT space_id FROM memory_links WHERE id = ?',
+      memory_feedback: `SELECT m.space_id FROM memory_feedback record
+        LEFT JOIN memories m ON m.id = record.memory_id WHERE record.id = ?`,
+      memory_state_events: `SELECT m.space_id FROM memory_state_events record
+        LEFT JOIN memories m ON m.id = record.memory_id WHERE record.id = ?`,
+      memory_merge_operations: 'SELECT space_id FROM memory_merge_operations WHERE id = ?',
+      memory_redirect_events: `SELECT m.space_id FROM memory_redirect_events record
+        LEFT JOIN memories m ON m.id = record.source_memory_id WHERE record.id = ?`,
+    }[table];
+    const owner = this.getRow(ownerSpaceSql, id);
+    if (!owner) return id;
+    if (conflict === 'skip') return null;
+    if (conflict === 'remap' || !targetSpaceIds.has(String(owner.space_id))) return randomUUID();
+    this.database.prepare(`DELETE FROM ${table} WHERE id = ?`).run(id);
+    return id;
+  }
+
+  public importSnapshot(input: unknown, options: SnapshotImportOptions = {}): SnapshotImportResult {
+    const parsed = parseMemorySnapshot(input);
+    const conflict = options.conflict ?? 'skip';
+    const spaceIds = options.spaceIds ? new Set(options.spaceIds) : undefined;
+    if (spaceIds) {
+      if (spaceIds.size === 0) throw new Error('At least one memory space is required');
+      for (const spaceId of spaceIds) {
+        if (!parsed.spaces.some((space) => space.id === spaceId)) {
+          throw new Error(`Memory space not found in snapshot: ${spaceId}`);
+        }
+      }
+    }
+    const memories = spaceIds
+      ? parsed.memories.filter((memory) => spaceIds.has(memory.spaceId))
+      : parsed.memories;
+    const selected = new Set(memories.map((memory) => memory.id));
+    const snapshot: MemorySnapshot = {
+      ...parsed,
+      spaces: spaceIds ? parsed.spaces.filter((space) => spaceIds.has(space.id)) : parsed.spaces,
+      kinds: spaceIds
+        ? (parsed.kinds ?? []).filter((kind) => spaceIds.has(kind.spaceId))
+        : (parsed.kinds ?? []),
+      relationTypes: spaceIds
+        ? (parsed.relationTypes ?? []).filter((definition) => spaceIds.has(definition.spaceId))
+        : (parsed.relationTypes ?? []),
+      memories,
+      links: parsed.links.filter(
+        (link) => selected.has(link.fromMemoryId) && selected.has(link.toMemoryId),
+      ),
+    };
+    const result: SnapshotImportResult = {
+      conflict,
+      spaces: { imported: 0, skipped: 0, updated: 0 },
+      kinds: { imported: 0, skipped: 0 },
+      relationTypes: { imported: 0, skipped: 0 },
+      memories: { imported: 0, skipped: 0, overwritten: 0, remapped: 0, clearedLogicalKeys: 0 },
+      revisions: 0,
+      links: { imported: 0, skipped: 0 },
+      feedback: { imported: 0, skipped: 0 },
+      stateEvents: { imported: 0, skipped: 0 },
+      mergeOperations: { imported: 0, skipped: 0 },
+      redirectEvents: { imported: 0, skipped: 0 },
+      memoryIdMap: {},
+      crossingLinks: [...parsed.links, ...(parsed.crossingLinks ?? [])].filter(
+        (link) => selected.has(link.fromMemoryId) !== selected.has(link.toMemoryId),
+      ),
+    };
+    const memoryIds = new Map<string, string>();
+    const revisionIds = new Map<string, string>();
+    const operationIds = new Map<string, string>();
+    const stateEventsByMemoryId = new Map<string, MemorySnapshot['stateEvents']>();
+    for (const event of snapshot.stateEvents) {
+      const events = stateEventsByMemoryId.get(event.memoryId) ?? [];
+      events.push(event);
+      stateEventsByMemoryId.set(event.memoryId, events);
+    }
+    const timestamp = now();
+    const targetSpaceIds = new Set(snapshot.spaces.map((space) => space.id));
+    // Links and merges take their space from the memories they join, never from the snapshot row.
+    const memorySpaceIds = new Map(snapshot.memories.map((memory) => [memory.id, memory.spaceId]));
+
+    const transaction = this.database.transaction(() => {
+      for (const space of snapshot.spaces) {
+        const existing = this.getRow('SELECT * FROM spaces WHERE id = ?', space.id);
+        if (!existing) {
+          this.database
+            .prepare(
+              `INSERT INTO spaces(
+                id, name, description, metadata_json, expiry_action, created_at, deleted_at
+              ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            )
+            .run(
+              space.id,
+              space.name,
+              space.description,
+              stableStringify(space.metadata),
+              space.expiryAction ?? 'archive',
+              space.createdAt,
+              space.id === 'default' ? null : space.deletedAt,
+            );
+          result.spaces.imported += 1;
+        } else if (conflict === 'overwrite') {
+          this.database
+            .prepare(
+              `UPDATE spaces SET name = ?, description = ?, metadata_json = ?, expiry_action = ?,
+                 deleted_at = ?
+               WHERE id = ?`,
+            )
+            .run(
+              space.name,
+              space.description,
+              stableStringify(space.metadata),
+              space.expiryAction ?? 'archive',
+              space.id === 'default' ? null : space.deletedAt,
+              space.id,
+            );
+          if (
+            existing.name !== space.name ||
+            existing.description !== space.description ||
+            existing.metadata_json !== stableStringify(space.metadata)
+          ) {
+            this.recordSpaceRevision(space.id, null);
+          }
+          this.refreshCurrentVectorsForSpace(space.id);
+          result.spaces.updated += 1;
+        } else {
+          result.spaces.skipped += 1;
+        }
+      }
+
+      for (const kind of snapshot.kinds ?? []) {
+        if (!this.getRow('SELECT 1 FROM spaces WHERE id = ?', kind.spaceId)) {
+          throw new Error(`Snapshot kind ${kind.kind} references unknown space ${kind.spaceId}`);
+        }
+        compileJsonSchema(kind.schema);
+        const existing = this.getKind(kind.spaceId, kind.kind);
+        if (existing && conflict !== 'overwrite') {
+          result.kinds.skipped += 1;
+          continue;
+        }
+        this.database
+          .prepare(
+            `INSERT OR REPLACE INTO memory_kinds(
+               space_id, kind, description, schema_json, created_at, updated_at
+             ) VALUES (?, ?, ?, ?, ?, ?)`,
+          )
+          .run(
+            kind.spaceId,
+            kind.kind,
+            kind.description,
+            stableStringify(kind.schema),
+            kind.createdAt,
+            kind.updatedAt,
+          );
+        result.kinds.imported += 1;
+      }
+
+      for (const definition of snapshot.relationTypes ?? []) {
+        if (!this.getRow('SELECT 1 FROM spaces WHERE id = ?', definition.spaceId)) {
+          throw new Error(
+            `Snapshot relation type ${definition.relation} references unknown space ${definition.spaceId}`,
+          );
+        }
+        const existing = this.getRelationType(definition.spaceId, definition.relation);
+        if (existing && conflict !== 'overwrite') {
+          result.relationTypes.skipped += 1;
+          continue;
+        }
+        this.assertRelationNamesAvailable(
+          definition.spaceId,
+          definition.relation,
+          definition.inverse,
+        );
+        this.database
+          .prepare(
+            `INSERT OR REPLACE INTO memory_relation_types(
+               space_id, relation, inverse, symmetric, from_kinds_json, to_kinds_json,
+               cardinality, description, created_at, updated_at
+             ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          )
+          .run(
+            definition.spaceId,
+            definition.relation,
+            definition.inverse,
+            definition.symmetric ? 1 : 0,
+            JSON.stringify(definition.fromKinds),
+            JSON.stringify(definition.toKinds),
+            definition.cardinality,
+            definition.description,
+            definition.createdAt,
+            definition.updatedAt,
+          );
+        result.relationTypes.imported += 1;
+      }
+
+      for (const memory of snapshot.memories) {
+        if (!this.getRow('SELECT 1 FROM spaces WHERE id = ?', memory.spaceId)) {
+          throw new Error(
+            `Snapshot memory ${memory.id} references unknown space ${memory.spaceId}`,
+          );
+        }
+        const revisions = [...memory.history].sort(
+          (left, right) => left.revisionNumber - right.revisionNumber,
+        );
+        if (!revisions.some((revision) => revision.id === memory.currentRevisionId)) {
+          throw new Error(`Snapshot memory ${memory.id} does not include its current revision`);
+        }
+        // Ids already held by memories outside the imported spaces are never overwritten: the
+        // caller may not be allowed to touch those spaces, so such ids are remapped instead.
+        const conflictingMemoryIds = new Set<string>();
+        const foreignMemoryIds = new Set<string>();
+        const existingMemory = this.getRow('SELECT space_id FROM memories WHERE id = ?', memory.id);
+        if (existingMemory) {
+          conflictingMemoryIds.add(memory.id);
+          if (!targetSpaceIds.has(String(existingMemory.space_id))) foreignMemoryIds.add(memory.id);
+        }
+        const conflictingRevisionIds = new Set<string>();
+        const foreignRevisionIds = new Set<string>();
+        for (const revision of revisions) {
+          const owner = this.getRow(
+            `SELECT revision.memory_id, m.space_id
+             FROM memory_revisions revision JOIN memories m ON m.id = revision.memory_id
+             WHERE revision.id = ?`,
+            revision.id,
+          );
+          if (!owner) continue;
+          conflictingRevisionIds.add(revision.id);
+          conflictingMemoryIds.add(String(owner.memory_id));
+          if (!targetSpaceIds.has(String(owner.space_id))) {
+            foreignRevisionIds.add(revision.id);
+            foreignMemoryIds.add(String(owner.memory_id));
+          }
+        }
+        let logicalKey = normalizeLogicalKey(memory.logicalKey ?? undefined);
+        const keyHolder = logicalKey
+          ? this.getRow(
+              'SELECT id FROM memories WHERE space_id = ? AND logical_key = ?',
+              memory.spaceId,
+              logicalKey,
+            )
+          : undefined;
+
+        let memoryId = memory.id;
+        if (conflictingMemoryIds.size > 0 || keyHolder) {
+          if (conflict === 'skip') {
+            result.memories.skipped += 1;
+            continue;
+          }
+          if (conflict === 'overwrite') {
+            if (keyHolder) conflictingMemoryIds.add(String(keyHolder.id));
+            const localMemoryIds = [...conflictingMemoryIds].filter(
+              (existingId) => !foreignMemoryIds.has(existingId),
+            );
+            for (const existingId of localMemoryIds) this.deleteMemoryRows(existingId);
+            if (localMemoryIds.length > 0) result.memories.overwritten += 1;
+            if (foreignMemoryIds.has(memory.id)) {
+              memoryId = randomUUID();
+              result.memoryIdMap[memory.id] = memoryId;
+              result.memories.remapped += 1;
+            }
+          } else {
+            if (conflictingMemoryIds.has(memory.id)) {
+              memoryId = randomUUID();
+              result.memoryIdMap[memory.id] = memoryId;
+              result.memories.remapped += 1;
+            }
+            if (keyHolder) {
+              logicalKey = null;
+              result.memories.clearedLogicalKeys += 1;
+            }
+          }
+        }
+        memoryIds.set(memory.id, memoryId);
+        for (const revision of revisions) {
+          revisionIds.set(
+            revision.id,
+            (conflict === 'remap' && conflictingRevisionIds.has(revision.id)) ||
+              foreignRevisionIds.has(revision.id)
+              ? randomUUID()
+              : revision.id,
+          );
+        }
+
+        this.database
+          .prepare(
+            `INSERT INTO memories(
+              id, space_id, state, current_revision_id, created_at, updated_at, index_status,
+              idempotency_key, logical_key
+            ) VALUES (?, ?, ?, ?, ?, ?, 'pending', NULL, ?)`,
+          )
+          .run(
+            memoryId,
+            memory.spaceId,
+            memory.state,
+            revisionIds.get(memory.currentRevisionId),
+            memory.createdAt,
+            memory.updatedAt,
+            logicalKey,
+          );
+        for (const revision of revisions) {
+          const revisionId = revisionIds.get(revision.id) ?? revision.id;
+          const input = revisionInput(revision);
+          this.insertRevision({
+            id: revisionId,
+            memoryId,
+            revisionNumber: revision.revisionNumber,
+            parentRevisionId: revision.parentRevisionId
+              ? (revisionIds.get(revision.parentRevisionId) ?? null)
+              : null,
+            revertedToRevisionId: revision.revertedToRevisionId
+              ? (revisionIds.get(revision.revertedToRevisionId) ?? null)
+              : null,
+            input,
+            tags: normalizeTags(revision.tags),
+            metadata: revision.metadata,
+            actor: revision.actor,
+            recordedAt: revision.recordedAt,
+            searchableText: revision.searchableText,
+          });
+          this.createIndexJob(revisionId, timestamp);
+          result.revisions += 1;
+        }
+
+        const insertStateEvent = this.database.prepare(
+          `INSERT INTO memory_state_events(id, memory_id, event_number, state, recorded_at, actor)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+        );
+        const events = stateEventsByMemoryId.get(memory.id) ?? [];
+        for (const event of events) {
+          const eventId = this.snapshotRecordId(
+            'memory_state_events',
+            event.id,
+            conflict,
+            targetSpaceIds,
+          );
+          if (!eventId) {
+            result.stateEvents.skipped += 1;
+            continue;
+          }
+          insertStateEvent.run(
+            eventId,
+            memoryId,
+            event.eventNumber,
+            event.state,
+            event.recordedAt,
+            event.actor ?? null,
+          );
+          result.stateEvents.imported += 1;
+        }
+        if (events.length === 0) {
+          insertStateEvent.run(randomUUID(), memoryId, 1, memory.state, memory.createdAt, null);
+        }
+        result.memories.imported += 1;
+      }
+
+      const insertLink = this.database.prepare(
+        `INSERT INTO memory_links(
+          id, space_id, from_memory_id, to_memory_id, relation, metadata_json,
+          valid_from, valid_to, created_at, deleted_at, revision_number
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      );
+      // Inserting the link records its current revision; earlier ones are replayed over it.
+      const insertLinkRevision = this.database.prepare(
+        `INSERT OR REPLACE INTO memory_link_revisions(
+          link_id, revision_number, metadata_json, valid_from, valid_to, recorded_at, actor
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      );
+      for (const link of snapshot.links) {
+        const fromMemoryId = memoryIds.get(link.fromMemoryId);
+        const toMemoryId = memoryIds.get(link.toMemoryId);
+        const spaceId = memorySpaceIds.get(link.fromMemoryId);
+        const linkId =
+          fromMemoryId && toMemoryId && spaceId === memorySpaceIds.get(link.toMemoryId)
+            ? this.snapshotRecordId('memory_links', link.id, conflict, targetSpaceIds)
+            : null;
+        if (!fromMemoryId || !toMemoryId || !spaceId || !linkId) {
+          result.links.skipped += 1;
+          continue;
+        }
+        insertLink.run(
+          linkId,
+          spaceId,
+          fromMemoryId,
+          toMemoryId,
+          link.relation,
+          stableStringify(link.metadata),
+          link.validFrom,
+          link.validTo,
+          link.createdAt,
+          link.deletedAt,
+          link.revisionNumber ?? 1,
+        );
+        for (const revision of link.history ?? []) {
+          insertLinkRevision.run(
+            linkId,
+            revision.revisionNumber,
+            stableStringify(revision.metadata),
+            revision.validFrom,
+            revision.validTo,
+            revision.recordedAt,
+            revision.actor,
+          );
+        }
+        result.links.imported += 1;
+      }
+
+      const insertFeedback = this.database.prepare(
+        `INSERT INTO memory_feedback(
+          id, memory_id, revision_id, scope, signal, actor_type, actor_id, query, value, note,
+          metadata_json, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      );
+      for (const feedback of snapshot.feedback) {
+        const memoryId = memoryIds.get(feedback.memoryId);
+        const revisionId = feedback.revisionId ? revisionIds.get(feedback.revisionId) : null;
+        const feedbackId =
+          memoryId && revisionId !== undefined
+            ? this.snapshotRecordId('memory_feedback', feedback.id, conflict, targetSpaceIds)
+            : null;
+        if (!memoryId || revisionId === undefined || !feedbackId) {
+          result.feedback.skipped += 1;
+          continue;
+        }
+        insertFeedback.run(
+          feedbackId,
+          memoryId,
+          revisionId,
+          feedback.scope,
+          feedback.signal,
+          feedback.actorType,
+          feedback.actorId,
+          feedback.query,
+          feedback.value,
+          feedback.note,
+          stableStringify(feedback.metadata),
+          feedback.createdAt,
+        );
+        result.feedback.imported += 1;
+      }
+
+      const insertMember = this.database.prepare(
+        `INSERT INTO memory_merge_members(
+           operation_id, duplicate_memory_id, duplicate_revision_id
+         ) VALUES (?, ?, ?)`,
+      );
+      for (const operation of snapshot.mergeOperations) {
+        const canonicalMemoryId = memoryIds.get(operation.canonicalMemoryId);
+        const canonicalRevisionId = revisionIds.get(operation.canonicalRevisionId);
+        const spaceId = memorySpaceIds.get(operation.canonicalMemoryId);
+        const members = operation.members.map((member) => ({
+          memoryId: memoryIds.get(member.memoryId),
+          expectedRevisionId: revisionIds.get(member.revisionId),
+        }));
+        const resolvedMembers = members.flatMap((member) =>
+          member.memoryId && member.expectedRevisionId
+            ? [{ memoryId: member.memoryId, expectedRevisionId: member.expectedRevisionId }]
+            : [],
+        );
+        const operationId =
+          canonicalMemoryId &&
+          canonicalRevisionId &&
+          resolvedMembers.length === members.length &&
+          operation.members.every((member) => memorySpaceIds.get(member.memoryId) === spaceId)
+            ? this.snapshotRecordId(
+                'memory_merge_operations',
+                operation.id,
+                conflict,
+                targetSpaceIds,
+              )
+            : null;
+        if (!canonicalMemoryId || !canonicalRevisionId || !spaceId || !operationId) {
+          result.mergeOperations.skipped += 1;
+          continue;
+        }
+        resolvedMembers.sort((left, right) => left.memoryId.localeCompare(right.memoryId));
+        this.database
+          .prepare(
+            `INSERT INTO memory_merge_operations(
+               id, space_id, canonical_memory_id, canonical_revision_id, actor_id, reason,
+               metadata_json, idempotency_key, request_hash, created_at
+             ) VALUES (?, ?, ?, ?, ?, ?, ?, NULL, ?, ?)`,
+          )
+          .run(
+            operationId,
+            spaceId,
+            canonicalMemoryId,
+            canonicalRevisionId,
+            operation.actorId,
+            operation.reason,
+            stableStringify(operation.metadata),
+            mergeRequestHash({
+              actorId: operation.actorId,
+              canonicalMemoryId,
+              duplicates: resolvedMembers,
+              expectedCanonicalRevisionId: canonicalRevisionId,
+              metadata: operation.metadata,
+              reason: operation.reason,
+            }),
+            operation.createdAt,
+          );
+        for (const member of resolvedMembers) {
+          insertMember.run(operationId, member.memoryId, member.expectedRevisionId);
+        }
+        operationIds.set(operation.id, operationId);
+        result.mergeOperations.imported += 1;
+      }
+
+      const insertRedirect = this.database.prepare(
+        `INSERT INTO memory_redirect_events(
+           id, source_memory_id, canonical_memory_id, operation_id, direct, created_at, released_at
+         ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      );
+      for (const redirect of snapshot.redirectEvents) {
+        const sourceMemoryId = memoryIds.get(redirect.sourceMemoryId);
+        const canonicalMemoryId = memoryIds.get(redirect.canonicalMemoryId);
+        const operationId = operationIds.get(redirect.operationId);
+        const redirectId =
+          sourceMemoryId && canonicalMemoryId && operationId
+            ? this.snapshotRecordId('memory_redirect_events', redirect.id, conflict, targetSpaceIds)
+            : null;
+        if (!sourceMemoryId || !canonicalMemoryId || !operationId || !redirectId) {
+          result.redirectEvents.skipped += 1;
+          continue;
+        }
+        insertRedirect.run(
+          redirectId,
+          sourceMemoryId,
+          canonicalMemoryId,
+          operationId,
+          redirect.direct ? 1 : 0,
+          redirect.createdAt,
+          redirect.releasedAt ?? null,
+        );
+        result.redirectEvents.imported += 1;
+      }
+    });
+    transaction.immediate();
+    return result;
+  }
+
+  public cloneSpace(input: SpaceCloneInput): SpaceCloneResult {
+    this.assertSpace(input.sourceSpaceId);
+    const targetSpaceId = input.targetSpaceId.trim();
+    if (!targetSpaceId) throw new Error('A target space id is required');
+    if (this.getRow('SELECT 1 FROM spaces WHERE id = ?', targetSpaceId)) {
+      throw new Error(`Memory space already exists: ${targetSpaceId}`);
+    }
+    const includeHistory = input.includeHistory ?? false;
+    const exported = parseMemorySnapshot(
+      this.exportSnapshot({
+        spaceIds: [input.sourceSpaceId],
+        ...(input.atTime ? { atTime: input.atTime } : {}),
+      }),
+    );
+    const source = exported.spaces[0];
+    if (!source) throw new Error(`Memory space not found: ${input.sourceSpaceId}`);
+    const clonedAt = now();
+    const redirectedIds = new Set(
+      exported.redirectEvents
+        .filter((event) => !event.releasedAt)
+        .map((event) => event.sourceMemoryId),
+    );
+    const memories = includeHistory
+      ? exported.memories
+      : exported.memories.filter(
+          (memory) => memory.state !== 'deleted' && !redirectedIds.has(memory.id),
+        );
+    const memoryIds = new Map(memories.map((memory) => [memory.id, randomUUID()]));
+    const revisionIds = new Map<string, string>();
+    const remapRevision = (revision: SnapshotRevision): SnapshotRevision => {
+      const revisionId = randomUUID();
+      revisionIds.set(revision.id, revisionId);
+      return { ...revision, id: revisionId, memoryId: memoryIds.get(revision.memoryId) ?? '' };
+    };
+    const memoryId = (id: string): string => memoryIds.get(id) ?? id;
+    const revisionId = (id: string): string => revisionIds.get(id) ?? id;
+
+    const snapshot: MemorySnapshot = {
+      exportedAt: clonedAt,
+      spaces: [
+        {
+          ...source,
+          id: targetSpaceId,
+          name: input.name?.trim() || source.name,
+          metadata: {
+            ...source.metadata,
+            clonedFrom: {
+              spaceId: source.id,
+              clonedAt,
+              includeHistory,
+              ...(input.atTime ? { atTime: input.atTime } : {}),
+            },
+          },
+          createdAt: clonedAt,
+          deletedAt: null,
+        },
+      ],
+      kinds: (exported.kinds ?? []).map((kind) => ({ ...kind, spaceId: targetSpaceId })),
+      relationTypes: (exported.relationTypes ?? []).map((definition) => ({
+        ...definition,
+        spaceId: targetSpaceId,
+      })),
+      memories: memories.map((memory) => {
+        const history = includeHistory
+          ? memory.history.map(remapRevision).map((revision) => ({
+              ...revision,
+              parentRevisionId: revision.parentRevisionId
+                ? revisionId(revision.parentRevisionId)
+                : null,
+              revertedToRevisionId: revision.revertedToRevisionId
+                ? revisionId(revision.revertedToRevisionId)
+                : null,
+            }))
+          : memory.history
+              .filter((revision) => revision.id === memory.currentRevisionId)
+              .map((revision) => ({
+                ...remapRevision(revision),
+                revisionNumber: 1,
+                parentRevisionId: null,
+                revertedToRevisionId: null,
+              }));
+        return {
+          ...memory,
+          id: memoryId(memory.id),
+          spaceId: targetSpaceId,
+          currentRevisionId: revisionId(memory.currentRevisionId),
+          history,
+        };
+      }),
+      links: exported.links
+        .filter((link) => includeHistory || link.deletedAt === null)
+        .map(({ history, revisionNumber, ...link }) => ({
+          ...link,
+          id: randomUUID(),
+          spaceId: targetSpaceId,
+          fromMemoryId: memoryId(link.fromMemoryId),
+          toMemoryId: memoryId(link.toMemoryId),
+          ...(includeHistory ? { revisionNumber, history } : {}),
+        })),
+      feedback: includeHistory
+        ? exported.feedback.map((feedback) => ({
+            ...feedback,
+            id: randomUUID(),
+            memoryId: memoryId(feedback.memoryId),
+            revisionId: feedback.revisionId ? revisionId(feedback.revisionId) : null,
+          }))
+        : [],
+      stateEvents: includeHistory
+        ? exported.stateEvents.map((event) => ({
+            ...event,
+            id: randomUUID(),
+            memoryId: memoryId(event.memoryId),
+          }))
+        : [],
+      mergeOperations: [],
+      redirectEvents: [],
+    };
+    const operationIds = new Map<string, string>();
+    if (includeHistory) {
+      snapshot.mergeOperations = exported.mergeOperations.map((operation) => {
+        const operationId = randomUUID();
+        operationIds.set(operation.id, operationId);
+        return {
+          ...operation,
+          id: operationId,
+          spaceId: targetSpaceId,
+          canonicalMemoryId: memoryId(operation.canonicalMemoryId),
+          canonicalRevisionId: revisionId(operation.canonicalRevisionId),
+          members: operation.members.map((member) => ({
+            memoryId: memoryId(member.memoryId),
+            revisionId: revisionId(member.revisionId),
+          })),
+        };
+      });
+      snapshot.redirectEvents = exported.redirectEvents.map((redirect) => ({
+        ...redirect,
+        id: randomUUID(),
+        sourceMemoryId: memoryId(redirect.sourceMemoryId),
+        canonicalMemoryId: memoryId(redirect.canonicalMemoryId),
+        operationId: operationIds.get(redirect.operationId) ?? redirect.operationId,
+      }));
+    }
+
+    let imported: SnapshotImportResult | undefined;
+    let reusedIndexRevisions = 0;
+    const transaction = this.database.transaction(() => {
+      imported = this.importSnapshot(snapshot, { conflict: 'skip' });
+      const insertSegment = this.database.prepare(
+        `INSERT INTO memory_segments(
+          id, memory_id, revision_id, space_id, ordinal, path, text, token_count, content_hash,
+          model_profile_id
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      );
+      const copyFts = this.database.prepare(
+        `INSERT INTO memory_fts(segment_id, memory_id, revision_id, space_id, title, text, tags)
+         SELECT ?, ?, ?, ?, title, text, tags FROM memory_fts WHERE segment_id = ?`,
+      );
+      const copyVector = this.database.prepare(
+        `INSERT INTO memory_vectors(segment_id, embedding, model_profile_id)
+         SELECT ?, embedding, model_profile_id FROM memory_vectors WHERE segment_id = ?`,
+      );
+      const completeJobs = this.database.prepare(
+        `UPDATE index_jobs SET status = 'complete', updated_at = ?
+         WHERE revision_id = ? AND status = 'pending'`,
+      );
+      const markMemory = this.database.prepare(
+        'UPDATE memories SET index_status = ? WHERE current_revision_id = ?',
+      );
+      for (const [sourceRevisionId, targetRevisionId] of revisionIds) {
+        const segments = this.allRows(
+          'SELECT * FROM memory_segments WHERE revision_id = ? ORDER BY ordinal',
+          sourceRevisionId,
+        );
+        if (segments.length === 0) continue;
+        const targetMemory = this.requireRow(
+          'SELECT memory_id FROM memory_revisions WHERE id = ?',
+          targetRevisionId,
+        );
+        let semantic = this.vectorAvailable;
+        for (const segment of segments) {
+          const segmentId = randomUUID();
+          const hasVector = this.vectorAvailable && segment.model_profile_id !== null;
+          semantic &&= hasVector;
+          insertSegment.run(
+            segmentId,
+            targetMemory.memory_id,
+            targetRevisionId,
+            targetSpaceId,
+            segment.ordinal,
+            segment.path,
+            segment.text,
+            segment.token_count,
+            segment.content_hash,
+            hasVector ? segment.model_profile_id : null,
+          );
+          copyFts.run(
+            segmentId,
+            targetMemory.memory_id,
+            targetRevisionId,
+            targetSpaceId,
+            segment.id,
+          );
+          if (hasVector) copyVector.run(segmentId, segment.id);
+        }
+        completeJobs.run(clonedAt, targetRevisionId);
+        markMemory.run(semantic ? 'ready' : 'lexical-only', targetRevisionId);
+        reusedIndexRevisions += 1;
+      }
+      this.refreshCurrentVectorsForSpace(targetSpaceId);
+    });
+    transaction.immediate();
+    if (!imported) throw new Error(`Memory space clone failed: ${input.sourceSpaceId}`);
+    return {
+      space: this.spaceFromRow(this.requireRow('SELECT * FROM spaces WHERE id = ?', targetSpaceId)),
+      sourceSpaceId: source.id,
+      memories: imported.memories.imported,
+      revisions: imported.revisions,
+      links: imported.links.imported,
+      kinds: imported.kinds.imported,
+      relationTypes: imported.relationTypes.imported,
+      reusedIndexRevisions,
+      memoryIdMap: Object.fromEntries(memoryIds),
     };
   }
 
@@ -3583,10 +7166,17 @@ export class MemoryStore {
     return true;
   }
 
-  public purgeDeleted(): number {
-    const ids = this.allRows("SELECT id FROM memories WHERE state = 'deleted'").map((row) =>
-      String(row.id),
-    );
+  public purgeDeleted(deletedBefore: string): number {
+    const ids = this.allRows(
+      `SELECT memory.id FROM memories memory
+       WHERE memory.state = 'deleted'
+         AND (
+           SELECT event.recorded_at FROM memory_state_events event
+           WHERE event.memory_id = memory.id
+           ORDER BY event.event_number DESC LIMIT 1
+         ) <= ?`,
+      deletedBefore,
+    ).map((row) => String(row.id));
     const transaction = this.database.transaction(() => {
       for (const memoryId of ids) this.deleteMemoryRows(memoryId);
     });
@@ -0,0 +1,97 @@
+export const changeFeedSql = `
+CREATE TABLE memory_changes (
+  sequence INTEGER PRIMARY KEY AUTOINCREMENT,
+  change_type TEXT NOT NULL CHECK(change_type IN (
+    'space-created', 'space-deleted', 'space-restored',
+    'revision', 'state', 'link', 'unlink', 'merge', 'feedback', 'erasure', 'move'
+  )),
+  space_id TEXT NOT NULL,
+  memory_id TEXT,
+  record_id TEXT NOT NULL,
+  changed_at TEXT NOT NULL
+);
+CREATE INDEX idx_memory_changes_space_sequence ON memory_changes(space_id, sequence);
+CREATE INDEX idx_memory_changes_changed ON memory_changes(changed_at, sequence);
+
+CREATE TABLE memory_change_retention (
+  id INTEGER PRIMARY KEY CHECK(id = 1),
+  pruned_through INTEGER NOT NULL
+);
+INSERT INTO memory_change_retention(id, pruned_through) VALUES (1, 0);
+
+CREATE TRIGGER memory_changes_space_insert AFTER INSERT ON spaces BEGIN
+  INSERT INTO memory_changes(change_type, space_id, memory_id, record_id, changed_at)
+  VALUES ('space-created', NEW.id, NULL, NEW.id, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+END;
+
+CREATE TRIGGER memory_changes_space_lifecycle AFTER UPDATE OF deleted_at ON spaces
+WHEN (OLD.deleted_at IS NULL) <> (NEW.deleted_at IS NULL) BEGIN
+  INSERT INTO memory_changes(change_type, space_id, memory_id, record_id, changed_at)
+  VALUES (
+    CASE WHEN NEW.deleted_at IS NULL THEN 'space-restored' ELSE 'space-deleted' END,
+    NEW.id,
+    NULL,
+    NEW.id,
+    strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  );
+END;
+
+CREATE TRIGGER memory_changes_revision_insert AFTER INSERT ON memory_revisions BEGIN
+  INSERT INTO memory_changes(change_type, space_id, memory_id, record_id, changed_at)
+  SELECT 'revision', space_id, NEW.memory_id, NEW.id, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  FROM memories WHERE id = NEW.memory_id;
+END;
+
+CREATE TRIGGER memory_changes_state_insert AFTER INSERT ON memory_state_events BEGIN
+  INSERT INTO memory_changes(change_type, space_id, memory_id, record_id, changed_at)
+  SELECT 'state', space_id, NEW.memory_id, NEW.id, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  FROM memories WHERE id = NEW.memory_id;
+END;
+
+CREATE TRIGGER memory_changes_memory_move AFTER UPDATE OF space_id ON memories
+WHEN OLD.space_id <> NEW.space_id BEGIN
+  INSERT INTO memory_changes(change_type, space_id, memory_id, record_id, changed_at)
+  VALUES
+    ('move', OLD.space_id, NEW.id, NEW.id, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    ('move', NEW.space_id, NEW.id, NEW.id, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+END;
+
+CREATE TRIGGER memory_changes_link_insert AFTER INSERT ON memory_links BEGIN
+  INSERT INTO memory_changes(change_type, space_id, memory_id, record_id, changed_at)
+  VALUES (
+    CASE WHEN NEW.deleted_at IS NULL THEN 'link' ELSE 'unlink' END,
+    NEW.space_id,
+    NEW.from_memory_id,
+    NEW.id,
+    strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  );
+END;
+
+CREATE TRIGGER memory_changes_link_delete AFTER UPDATE OF deleted_at ON memory_links
+WHEN OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL BEGIN
+  INSERT INTO memory_changes(change_type, space_id, memory_id, record_id, changed_at)
+  VALUES ('unlink', NEW.space_id, NEW.from_memory_id, NEW.id, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+END;
+
+CREATE TRIGGER memory_changes_merge_insert AFTER INSERT ON memory_merge_operations BEGIN
+  INSERT INTO memory_changes(change_type, space_id, memory_id, record_id, changed_at)
+  VALUES (
+    'merge',
+    NEW.space_id,
+    NEW.canonical_memory_id,
+    NEW.id,
+    strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  );
+END;
+
+CREATE TRIGGER memory_changes_feedback_insert AFTER INSERT ON memory_feedback BEGIN
+  INSERT INTO memory_changes(change_type, space_id, memory_id, record_id, changed_at)
+  SELECT 'feedback', space_id, NEW.memory_id, NEW.id, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  FROM memories WHERE id = NEW.memory_id;
+END;
+
+CREATE TRIGGER memory_changes_memory_delete AFTER DELETE ON memories BEGIN
+  INSERT INTO memory_changes(change_type, space_id, memory_id, record_id, changed_at)
+  VALUES ('erasure', OLD.space_id, OLD.id, OLD.id, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+END;
+`;
@@ -0,0 +1,10 @@
+export const memoryExpirySql = `
+ALTER TABLE spaces ADD COLUMN expiry_action TEXT NOT NULL DEFAULT 'archive'
+  CHECK(expiry_action IN ('archive', 'delete'));
+
+ALTER TABLE memory_state_events ADD COLUMN actor TEXT;
+
+CREATE INDEX idx_revisions_expires
+  ON memory_revisions(expires_at)
+  WHERE expires_at IS NOT NULL;
+`;
@@ -0,0 +1,4 @@
+export const revisionRevertsSql = `
+ALTER TABLE memory_revisions ADD COLUMN reverted_to_revision_id TEXT
+  REFERENCES memory_revisions(id);
+`;
@@ -0,0 +1,9 @@
+export const memoryBatchesSql = `
+CREATE TABLE memory_batches (
+  id TEXT PRIMARY KEY,
+  idempotency_key TEXT NOT NULL UNIQUE,
+  request_hash TEXT NOT NULL,
+  result_json TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
+`;
@@ -0,0 +1,11 @@
+export const memoryKindsSql = `
+CREATE TABLE memory_kinds (
+  space_id TEXT NOT NULL REFERENCES spaces(id),
+  kind TEXT NOT NULL,
+  description TEXT,
+  schema_json TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (space_id, kind)
+);
+`;
@@ -0,0 +1,29 @@
+export const spaceRevisionsSql = `
+ALTER TABLE spaces ADD COLUMN revision_number INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE space_revisions (
+  space_id TEXT NOT NULL REFERENCES spaces(id),
+  revision_number INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  metadata_json TEXT NOT NULL,
+  expiry_action TEXT NOT NULL CHECK(expiry_action IN ('archive', 'delete')),
+  recorded_at TEXT NOT NULL,
+  actor TEXT,
+  PRIMARY KEY (space_id, revision_number)
+);
+
+INSERT INTO space_revisions(
+  space_id, revision_number, name, description, metadata_json, expiry_action, recorded_at, actor
+)
+SELECT id, 1, name, description, metadata_json, expiry_action, created_at, NULL FROM spaces;
+
+CREATE TRIGGER space_revisions_space_insert AFTER INSERT ON spaces BEGIN
+  INSERT INTO space_revisions(
+    space_id, revision_number, name, description, metadata_json, expiry_action, recorded_at, actor
+  ) VALUES (
+    NEW.id, NEW.revision_number, NEW.name, NEW.description, NEW.metadata_json, NEW.expiry_action,
+    NEW.created_at, NULL
+  );
+END;
+`;
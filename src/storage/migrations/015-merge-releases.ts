@@ -0,0 +1,20 @@
+export const mergeReleasesSql = `
+ALTER TABLE memory_redirect_events ADD COLUMN released_at TEXT;
+
+CREATE TABLE memory_unmerge_operations (
+  id TEXT PRIMARY KEY,
+  merge_operation_id TEXT NOT NULL REFERENCES memory_merge_operations(id) ON DELETE CASCADE,
+  space_id TEXT NOT NULL REFERENCES spaces(id),
+  actor_id TEXT,
+  reason TEXT,
+  created_at TEXT NOT NULL
+);
+CREATE INDEX idx_unmerge_operations_merge
+  ON memory_unmerge_operations(merge_operation_id, created_at);
+
+CREATE TABLE memory_unmerge_members (
+  unmerge_id TEXT NOT NULL REFERENCES memory_unmerge_operations(id) ON DELETE CASCADE,
+  memory_id TEXT NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+  PRIMARY KEY(unmerge_id, memory_id)
+);
+`;
@@ -0,0 +1,19 @@
+export const relationTypesSql = `
+CREATE TABLE memory_relation_types (
+  space_id TEXT NOT NULL REFERENCES spaces(id),
+  relation TEXT NOT NULL COLLATE NOCASE,
+  inverse TEXT COLLATE NOCASE,
+  symmetric INTEGER NOT NULL DEFAULT 0 CHECK (symmetric IN (0, 1)),
+  from_kinds_json TEXT NOT NULL DEFAULT '[]',
+  to_kinds_json TEXT NOT NULL DEFAULT '[]',
+  cardinality TEXT NOT NULL DEFAULT 'many-to-many'
+    CHECK (cardinality IN ('one-to-one', 'one-to-many', 'many-to-one', 'many-to-many')),
+  description TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (space_id, relation),
+  CHECK (symmetric = 0 OR inverse IS NULL)
+);
+CREATE UNIQUE INDEX idx_relation_types_inverse
+  ON memory_relation_types(space_id, inverse) WHERE inverse IS NOT NULL;
+`;
@@ -0,0 +1,35 @@
+export const linkRevisionsSql = `
+ALTER TABLE memory_links ADD COLUMN revision_number INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE memory_link_revisions (
+  link_id TEXT NOT NULL REFERENCES memory_links(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  metadata_json TEXT NOT NULL,
+  valid_from TEXT,
+  valid_to TEXT,
+  recorded_at TEXT NOT NULL,
+  actor TEXT,
+  PRIMARY KEY (link_id, revision_number)
+);
+
+INSERT INTO memory_link_revisions(
+  link_id, revision_number, metadata_json, valid_from, valid_to, recorded_at, actor
+)
+SELECT id, 1, metadata_json, valid_from, valid_to, created_at, NULL FROM memory_links;
+
+CREATE TRIGGER memory_link_revisions_link_insert AFTER INSERT ON memory_links BEGIN
+  INSERT INTO memory_link_revisions(
+    link_id, revision_number, metadata_json, valid_from, valid_to, recorded_at, actor
+  ) VALUES (
+    NEW.id, NEW.revision_number, NEW.metadata_json, NEW.valid_from, NEW.valid_to,
+    NEW.created_at, NULL
+  );
+END;
+
+CREATE TRIGGER memory_changes_link_revision_insert AFTER INSERT ON memory_link_revisions
+WHEN NEW.revision_number > 1 BEGIN
+  INSERT INTO memory_changes(change_type, space_id, memory_id, record_id, changed_at)
+  SELECT 'link', space_id, from_memory_id, id, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  FROM memory_links WHERE id = NEW.link_id;
+END;
+`;
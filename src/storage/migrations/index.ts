@@ -10,6 +10,15 @@ import { spaceLifecycleAndDiscoverySql } from './005-space-lifecycle-and-discove
 import { scalingIndexesAndSpaceSearchSql } from './006-scaling-indexes-and-space-search.js';
 import { embeddingIndexGenerationsSql } from './007-embedding-index-generations.js';
 import { currentEmbeddingGenerationSql } from './008-current-embedding-generation.js';
+import { changeFeedSql } from './009-change-feed.js';
+import { memoryExpirySql } from './010-memory-expiry.js';
+import { revisionRevertsSql } from './011-revision-reverts.js';
+import { memoryBatchesSql } from './012-memory-batches.js';
+import { memoryKindsSql } from './013-memory-kinds.js';
+import { spaceRevisionsSql } from './014-space-revisions.js';
+import { mergeReleasesSql } from './015-merge-releases.js';
+import { relationTypesSql } from './016-relation-types.js';
+import { linkRevisionsSql } from './017-link-revisions.js';
 
 interface Migration {
   version: number;
@@ -39,6 +48,15 @@ const migrations = [
   { version: 6, name: 'scaling-indexes-and-space-search', sql: scalingIndexesAndSpaceSearchSql },
   { version: 7, name: 'embedding-index-generations', sql: embeddingIndexGenerationsSql },
   { version: 8, name: 'current-embedding-generation', sql: currentEmbeddingGenerationSql },
+  { version: 9, name: 'change-feed', sql: changeFeedSql },
+  { version: 10, name: 'memory-expiry', sql: memoryExpirySql },
+  { version: 11, name: 'revision-reverts', sql: revisionRevertsSql },
+  { version: 12, name: 'memory-batches', sql: memoryBatchesSql },
+  { version: 13, name: 'memory-kinds', sql: memoryKindsSql },
+  { version: 14, name: 'space-revisions', sql: spaceRevisionsSql },
+  { version: 15, name: 'merge-releases', sql: mergeReleasesSql },
+  { version: 16, name: 'relation-types', sql: relationTypesSql },
+  { version: 17, name: 'link-revisions', sql: linkRevisionsSql },
 ] satisfies readonly Migration[];
 
 export const currentSchemaVersion = migrations.at(-1)?.version ?? 0;
@@ -0,0 +1,219 @@
+import * as z from 'zod/v4';
+
+const jsonObjectSchema = z.record(z.string(), z.json());
+const memoryStateSchema = z.enum(['active', 'archived', 'deleted']);
+
+const snapshotSourceSchema = z.object({
+  uri: z.string().optional(),
+  label: z.string().optional(),
+  type: z.string().optional(),
+  observedAt: z.string().optional(),
+  metadata: jsonObjectSchema.optional(),
+});
+
+const snapshotRevisionSchema = z.object({
+  id: z.string().min(1),
+  memoryId: z.string().min(1),
+  revisionNumber: z.number().int().positive(),
+  parentRevisionId: z.string().nullable(),
+  revertedToRevisionId: z.string().nullable().optional(),
+  title: z.string().nullable(),
+  kind: z.string().nullable(),
+  content: z.json(),
+  tags: z.array(z.string()),
+  metadata: jsonObjectSchema,
+  sources: z.array(snapshotSourceSchema),
+  salience: z.number().nullable(),
+  confidence: z.number().nullable(),
+  observedAt: z.string().nullable(),
+  validFrom: z.string().nullable(),
+  validTo: z.string().nullable(),
+  expiresAt: z.string().nullable(),
+  reviewAfter: z.string().nullable(),
+  recordedAt: z.string(),
+  actor: z.string().nullable(),
+  contentHash: z.string(),
+  searchableText: z.string(),
+});
+
+const snapshotMemorySchema = z.object({
+  id: z.string().min(1),
+  spaceId: z.string().min(1),
+  logicalKey: z.string().nullable(),
+  state: memoryStateSchema,
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  currentRevisionId: z.string().min(1),
+  history: z.array(snapshotRevisionSchema).min(1),
+});
+
+const snapshotLinkSchema = z.object({
+  id: z.string().min(1),
+  spaceId: z.string().min(1),
+  fromMemoryId: z.string().min(1),
+  toMemoryId: z.string().min(1),
+  relation: z.string().min(1),
+  metadata: jsonObjectSchema,
+  validFrom: z.string().nullable(),
+  validTo: z.string().nullable(),
+  createdAt: z.string(),
+  deletedAt: z.string().nullable(),
+  revisionNumber: z.number().int().positive().optional(),
+  history: z
+    .array(
+      z.object({
+        linkId: z.string().min(1),
+        revisionNumber: z.number().int().positive(),
+        metadata: jsonObjectSchema,
+        validFrom: z.string().nullable(),
+        validTo: z.string().nullable(),
+        recordedAt: z.string(),
+        actor: z.string().nullable(),
+      }),
+    )
+    .optional(),
+});
+
+export const memorySnapshotSchema = z.object({
+  exportedAt: z.string(),
+  spaceIds: z.array(z.string().min(1)).optional(),
+  atTime: z.string().optional(),
+  spaces: z.array(
+    z.object({
+      id: z.string().min(1),
+      name: z.string().min(1),
+      description: z.string().nullable(),
+      metadata: jsonObjectSchema,
+      expiryAction: z.enum(['archive', 'delete']).optional(),
+      createdAt: z.string(),
+      deletedAt: z.string().nullable(),
+    }),
+  ),
+  kinds: z
+    .array(
+      z.object({
+        spaceId: z.string().min(1),
+        kind: z.string().min(1),
+        description: z.string().nullable(),
+        schema: jsonObjectSchema,
+        createdAt: z.string(),
+        updatedAt: z.string(),
+      }),
+    )
+    .optional(),
+  relationTypes: z
+    .array(
+      z.object({
+        spaceId: z.string().min(1),
+        relation: z.string().min(1),
+        inverse: z.string().min(1).nullable(),
+        symmetric: z.boolean(),
+        fromKinds: z.array(z.string().min(1)),
+        toKinds: z.array(z.string().min(1)),
+        cardinality: z.enum(['one-to-one', 'one-to-many', 'many-to-one', 'many-to-many']),
+        description: z.string().nullable(),
+        createdAt: z.string(),
+        updatedAt: z.string(),
+      }),
+    )
+    .optional(),
+  memories: z.array(snapshotMemorySchema),
+  links: z.array(snapshotLinkSchema),
+  feedback: z.array(
+    z.object({
+      id: z.string().min(1),
+      memoryId: z.string().min(1),
+      revisionId: z.string().nullable(),
+      scope: z.enum(['legacy', 'content', 'retrieval']),
+      signal: z.string().min(1),
+      actorType: z.enum(['user', 'agent', 'system', 'external']).nullable(),
+      actorId: z.string().nullable(),
+      query: z.string().nullable(),
+      value: z.number().nullable(),
+      note: z.string().nullable(),
+      metadata: jsonObjectSchema,
+      createdAt: z.string(),
+    }),
+  ),
+  stateEvents: z.array(
+    z.object({
+      id: z.string().min(1),
+      memoryId: z.string().min(1),
+      eventNumber: z.number().int().positive(),
+      state: memoryStateSchema,
+      recordedAt: z.string(),
+      actor: z.string().nullable().optional(),
+    }),
+  ),
+  mergeOperations: z.array(
+    z.object({
+      id: z.string().min(1),
+      spaceId: z.string().min(1),
+      canonicalMemoryId: z.string().min(1),
+      canonicalRevisionId: z.string().min(1),
+      actorId: z.string().nullable(),
+      reason: z.string().nullable(),
+      metadata: jsonObjectSchema,
+      createdAt: z.string(),
+      members: z
+        .array(z.object({ memoryId: z.string().min(1), revisionId: z.string().min(1) }))
+        .min(1),
+    }),
+  ),
+  redirectEvents: z.array(
+    z.object({
+      id: z.string().min(1),
+      sourceMemoryId: z.string().min(1),
+      canonicalMemoryId: z.string().min(1),
+      operationId: z.string().min(1),
+      direct: z.boolean(),
+      createdAt: z.string(),
+      releasedAt: z.string().nullable().optional(),
+    }),
+  ),
+  crossingLinks: z.array(snapshotLinkSchema).optional(),
+});
+
+export type MemorySnapshot = z.infer<typeof memorySnapshotSchema>;
+export type SnapshotRevision = z.infer<typeof snapshotRevisionSchema>;
+export type SnapshotLink = z.infer<typeof snapshotLinkSchema>;
+
+export type SnapshotConflictPolicy = 'skip' | 'overwrite' | 'remap';
+
+export interface SnapshotImportOptions {
+  conflict?: SnapshotConflictPolicy;
+  spaceIds?: string[];
+}
+
+export interface SnapshotImportCounts {
+  imported: number;
+  skipped: number;
+}
+
+export interface SnapshotImportResult {
+  conflict: SnapshotConflictPolicy;
+  spaces: SnapshotImportCounts & { updated: number };
+  kinds: SnapshotImportCounts;
+  relationTypes: SnapshotImportCounts;
+  memories: SnapshotImportCounts & {
+    overwritten: number;
+    remapped: number;
+    clearedLogicalKeys: number;
+  };
+  revisions: number;
+  links: SnapshotImportCounts;
+  feedback: SnapshotImportCounts;
+  stateEvents: SnapshotImportCounts;
+  mergeOperations: SnapshotImportCounts;
+  redirectEvents: SnapshotImportCounts;
+  memoryIdMap: Record<string, string>;
+  crossingLinks: SnapshotLink[];
+}
+
+export function parseMemorySnapshot(value: unknown): MemorySnapshot {
+  const parsed = memorySnapshotSchema.safeParse(value);
+  if (!parsed.success) {
+    throw new Error(`Invalid memory snapshot: ${z.prettifyError(parsed.error)}`);
+  }
+  return parsed.data;
+}